@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "assets" ADD COLUMN     "deleted_at" TIMESTAMP(3);
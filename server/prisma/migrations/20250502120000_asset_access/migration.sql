@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "AccessRole" AS ENUM ('viewer', 'editor', 'owner');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "uuid" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "is_admin" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("uuid")
+);
+
+-- CreateTable
+CREATE TABLE "asset_access" (
+    "id" TEXT NOT NULL,
+    "role" "AccessRole" NOT NULL,
+    "granted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "asset_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "asset_access_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE INDEX "asset_access_user_id_idx" ON "asset_access"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_access_asset_id_user_id_key" ON "asset_access"("asset_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "asset_access" ADD CONSTRAINT "asset_access_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("uuid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "asset_access" ADD CONSTRAINT "asset_access_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("uuid") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "assets" ALTER COLUMN "size" SET DATA TYPE BIGINT;
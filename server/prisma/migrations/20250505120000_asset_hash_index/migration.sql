@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "assets_hash_idx" ON "assets"("hash");
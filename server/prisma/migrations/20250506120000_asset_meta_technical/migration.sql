@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "asset_meta_technical" (
+    "id" TEXT NOT NULL,
+    "captured_at" TIMESTAMP(3),
+    "camera_make" TEXT,
+    "camera_model" TEXT,
+    "image_width" INTEGER,
+    "image_height" INTEGER,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "altitude" DOUBLE PRECISION,
+    "relative_altitude" DOUBLE PRECISION,
+    "gimbal_pitch" DOUBLE PRECISION,
+    "gimbal_yaw" DOUBLE PRECISION,
+    "gimbal_roll" DOUBLE PRECISION,
+    "flight_pitch" DOUBLE PRECISION,
+    "flight_yaw" DOUBLE PRECISION,
+    "flight_roll" DOUBLE PRECISION,
+    "xmp_dji" JSONB,
+    "extracted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "asset_id" TEXT NOT NULL,
+
+    CONSTRAINT "asset_meta_technical_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_meta_technical_asset_id_key" ON "asset_meta_technical"("asset_id");
+
+-- AddForeignKey
+ALTER TABLE "asset_meta_technical" ADD CONSTRAINT "asset_meta_technical_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("uuid") ON DELETE CASCADE ON UPDATE CASCADE;
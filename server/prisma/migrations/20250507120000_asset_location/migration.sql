@@ -0,0 +1,18 @@
+-- Requires the PostGIS image (postgis/postgis)
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- AlterTable
+ALTER TABLE "asset_meta_base" ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION,
+ADD COLUMN "altitude" DOUBLE PRECISION;
+
+-- Kept in sync by Postgres, Prisma never writes it
+ALTER TABLE "asset_meta_base" ADD COLUMN "location" geography(Point, 4326)
+    GENERATED ALWAYS AS (
+        CASE WHEN "latitude" IS NOT NULL AND "longitude" IS NOT NULL
+            THEN ST_SetSRID(ST_MakePoint("longitude", "latitude"), 4326)::geography
+        END
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "asset_meta_base_location_idx" ON "asset_meta_base" USING GIST ("location");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "asset_renditions" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "stored_fullpath" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "size" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "asset_id" TEXT NOT NULL,
+
+    CONSTRAINT "asset_renditions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_renditions_asset_id_name_key" ON "asset_renditions"("asset_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "asset_renditions" ADD CONSTRAINT "asset_renditions_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("uuid") ON DELETE CASCADE ON UPDATE CASCADE;
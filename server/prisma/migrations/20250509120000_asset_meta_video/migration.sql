@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "asset_meta_video" (
+    "id" TEXT NOT NULL,
+    "duration" DOUBLE PRECISION,
+    "width" INTEGER,
+    "height" INTEGER,
+    "rotation" INTEGER,
+    "video_codec" TEXT,
+    "audio_codec" TEXT,
+    "frame_rate" DOUBLE PRECISION,
+    "bit_rate" BIGINT,
+    "container" TEXT,
+    "captured_at" TIMESTAMP(3),
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "altitude" DOUBLE PRECISION,
+    "gps_track" JSONB,
+    "tags" JSONB,
+    "probed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "asset_id" TEXT NOT NULL,
+
+    CONSTRAINT "asset_meta_video_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_meta_video_asset_id_key" ON "asset_meta_video"("asset_id");
+
+-- AddForeignKey
+ALTER TABLE "asset_meta_video" ADD CONSTRAINT "asset_meta_video_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("uuid") ON DELETE CASCADE ON UPDATE CASCADE;
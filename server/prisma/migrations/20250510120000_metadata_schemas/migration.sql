@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "asset_meta_base" ADD COLUMN "custom" JSONB;
+
+-- CreateTable
+CREATE TABLE "metadata_schemas" (
+    "id" TEXT NOT NULL,
+    "asset_type" TEXT NOT NULL,
+    "description" TEXT,
+    "fields" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "metadata_schemas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "metadata_schemas_asset_type_key" ON "metadata_schemas"("asset_type");
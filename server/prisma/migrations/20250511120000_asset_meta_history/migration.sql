@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "asset_meta_history" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "old_value" JSONB,
+    "new_value" JSONB NOT NULL,
+    "changed_fields" TEXT[],
+    "reverted_from" TEXT,
+    "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "asset_id" TEXT NOT NULL,
+    "actor_id" TEXT,
+
+    CONSTRAINT "asset_meta_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "asset_meta_history_asset_id_changed_at_idx" ON "asset_meta_history"("asset_id", "changed_at");
+
+-- AddForeignKey
+ALTER TABLE "asset_meta_history" ADD CONSTRAINT "asset_meta_history_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("uuid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "asset_meta_history" ADD CONSTRAINT "asset_meta_history_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("uuid") ON DELETE SET NULL ON UPDATE CASCADE;
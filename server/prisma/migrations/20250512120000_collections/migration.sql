@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "collections" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "cover_asset_id" TEXT,
+    "owner_id" TEXT,
+
+    CONSTRAINT "collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "collection_items" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "added_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "collection_id" TEXT NOT NULL,
+    "asset_id" TEXT NOT NULL,
+
+    CONSTRAINT "collection_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "collections_owner_id_idx" ON "collections"("owner_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collection_items_collection_id_asset_id_key" ON "collection_items"("collection_id", "asset_id");
+
+-- CreateIndex
+CREATE INDEX "collection_items_collection_id_position_idx" ON "collection_items"("collection_id", "position");
+
+-- CreateIndex
+CREATE INDEX "collection_items_asset_id_idx" ON "collection_items"("asset_id");
+
+-- AddForeignKey
+ALTER TABLE "collections" ADD CONSTRAINT "collections_cover_asset_id_fkey" FOREIGN KEY ("cover_asset_id") REFERENCES "assets"("uuid") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collections" ADD CONSTRAINT "collections_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("uuid") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("uuid") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "tags" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "asset_tags" (
+    "id" TEXT NOT NULL,
+    "tagged_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "asset_id" TEXT NOT NULL,
+    "tag_id" TEXT NOT NULL,
+    "tagged_by_id" TEXT,
+
+    CONSTRAINT "asset_tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_name_key" ON "tags"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_tags_asset_id_tag_id_key" ON "asset_tags"("asset_id", "tag_id");
+
+-- CreateIndex
+CREATE INDEX "asset_tags_tag_id_idx" ON "asset_tags"("tag_id");
+
+-- AddForeignKey
+ALTER TABLE "asset_tags" ADD CONSTRAINT "asset_tags_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("uuid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "asset_tags" ADD CONSTRAINT "asset_tags_tag_id_fkey" FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "asset_tags" ADD CONSTRAINT "asset_tags_tagged_by_id_fkey" FOREIGN KEY ("tagged_by_id") REFERENCES "users"("uuid") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- Trigram similarity for fuzzy search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Kept in sync by Postgres, Prisma never writes them
+-- Separators become spaces so north_bridge.jpg searches as "north bridge jpg"
+ALTER TABLE "assets" ADD COLUMN "search_text" TEXT
+    GENERATED ALWAYS AS (
+        lower(regexp_replace("imported_filename" || ' ' || "imported_fullpath", '[^[:alnum:]]+', ' ', 'g'))
+    ) STORED;
+
+ALTER TABLE "assets" ADD COLUMN "search_vector" tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('simple'::regconfig,
+            lower(regexp_replace("imported_filename" || ' ' || "imported_fullpath", '[^[:alnum:]]+', ' ', 'g')))
+    ) STORED;
+
+ALTER TABLE "asset_meta_base" ADD COLUMN "search_text" TEXT
+    GENERATED ALWAYS AS (
+        lower(regexp_replace(
+            "asset_type" || ' ' || "asset_class" || ' ' || "asset_location_name" || ' ' ||
+            "asset_camera" || ' ' || "asset_date_label",
+            '[^[:alnum:]]+', ' ', 'g'))
+    ) STORED;
+
+ALTER TABLE "asset_meta_base" ADD COLUMN "search_vector" tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('simple'::regconfig, lower(regexp_replace(
+            "asset_type" || ' ' || "asset_class" || ' ' || "asset_location_name" || ' ' ||
+            "asset_camera" || ' ' || "asset_date_label",
+            '[^[:alnum:]]+', ' ', 'g')))
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "assets_search_vector_idx" ON "assets" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "asset_meta_base_search_vector_idx" ON "asset_meta_base" USING GIN ("search_vector");
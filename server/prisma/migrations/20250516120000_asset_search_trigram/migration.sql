@@ -0,0 +1,6 @@
+-- Fuzzy terms are matched with search_text %> term, which these indexes serve
+-- CreateIndex
+CREATE INDEX "assets_search_text_idx" ON "assets" USING GIN ("search_text" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "asset_meta_base_search_text_idx" ON "asset_meta_base" USING GIN ("search_text" gin_trgm_ops);
@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from '../config';
+import { objectNotFound } from '../core/errors';
+import { signStorageUrl } from '../core/signed_urls';
+import logger from '../logger';
+import { StorageObjectInfo, StorageObjectStat, StorageProvider } from '../types/storage';
+
+// Directories under the root that hold bookkeeping rather than objects
+const META_DIR = '.meta';
+const MULTIPART_DIR = '.multipart';
+
+interface ObjectMeta {
+  contentType: string;
+  etag: string;
+}
+
+interface MultipartInfo {
+  objectName: string;
+  contentType: string;
+}
+
+/**
+ * Local filesystem storage singleton, for development without Docker
+ *
+ * Objects are files under the root directory, named like the object. Their
+ * content type and etag (the MD5 of the content, like MinIO's for single
+ * part uploads) are kept in JSON sidecars under .meta, multipart uploads
+ * collect their parts under .multipart until they are completed.
+ */
+export class LocalStorageClient implements StorageProvider {
+  private static instance: LocalStorageClient;
+  private root: string;
+  private initialized: boolean = false;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    this.root = path.resolve(config.storage.localRoot);
+  }
+
+  /**
+   * Get the singleton instance of LocalStorageClient
+   * @returns LocalStorageClient instance
+   */
+  public static getInstance(): LocalStorageClient {
+    if (!LocalStorageClient.instance) {
+      LocalStorageClient.instance = new LocalStorageClient();
+    }
+    return LocalStorageClient.instance;
+  }
+
+  /**
+   * Create the root directory
+   */
+  public async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    await fsp.mkdir(this.root, { recursive: true });
+    this.initialized = true;
+    logger.info(`Local storage initialized at: ${this.root}`);
+  }
+
+  /**
+   * Resolve an object name to its file, refusing names that leave the root
+   */
+  private resolve(objectName: string, dir: string = ''): string {
+    const segments = objectName.split('/');
+    if (!objectName || segments.some((segment) => !segment || segment === '.' || segment === '..') ||
+      (!dir && (segments[0] === META_DIR || segments[0] === MULTIPART_DIR))) {
+      throw new Error(`Invalid object name: ${objectName}`);
+    }
+
+    return path.join(this.root, dir, ...segments);
+  }
+
+  private async readMeta(objectName: string): Promise<ObjectMeta | null> {
+    try {
+      return JSON.parse(await fsp.readFile(`${this.resolve(objectName, META_DIR)}.json`, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeMeta(objectName: string, meta: ObjectMeta): Promise<void> {
+    const metaPath = `${this.resolve(objectName, META_DIR)}.json`;
+    await fsp.mkdir(path.dirname(metaPath), { recursive: true });
+    await fsp.writeFile(metaPath, JSON.stringify(meta));
+  }
+
+  /**
+   * Write a file to local storage
+   * It is written next to its destination and renamed, so readers never see a partial file
+   * @param objectName - Name to store the object as
+   * @param data - File data (Buffer or Readable stream)
+   * @param _size - Unused, the file is as long as the data
+   * @param contentType - MIME type of the file
+   * @returns The etag of the stored object
+   */
+  public async uploadObject(
+    objectName: string,
+    data: Buffer | NodeJS.ReadableStream,
+    _size: number | undefined,
+    contentType: string
+  ): Promise<{ etag: string }> {
+    await this.initialize();
+
+    const filePath = this.resolve(objectName);
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+    const hash = crypto.createHash('md5');
+
+    try {
+      await fsp.mkdir(path.dirname(filePath), { recursive: true });
+
+      const source = Buffer.isBuffer(data) ? Readable.from([data]) : data as Readable;
+      const hashing = new Transform({
+        transform(chunk, _encoding, callback) {
+          hash.update(chunk);
+          callback(null, chunk);
+        }
+      });
+      await pipeline(source, hashing, fs.createWriteStream(tempPath));
+
+      const etag = hash.digest('hex');
+      await this.writeMeta(objectName, { contentType, etag });
+      await fsp.rename(tempPath, filePath);
+
+      logger.info(`Uploaded object: ${objectName}`);
+      return { etag };
+    } catch (error) {
+      await fsp.rm(tempPath, { force: true });
+      logger.error(`Error uploading object: ${objectName}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read an object from local storage
+   * @param objectName - Name of the object to read
+   * @returns The file as a stream
+   */
+  public async getObject(objectName: string): Promise<NodeJS.ReadableStream> {
+    await this.statObject(objectName);
+    return fs.createReadStream(this.resolve(objectName));
+  }
+
+  /**
+   * Read a byte range of an object from local storage
+   * @param objectName - Name of the object to read
+   * @param offset - First byte to read
+   * @param length - Number of bytes to read
+   * @returns The range as a stream
+   */
+  public async getPartialObject(objectName: string, offset: number, length: number): Promise<NodeJS.ReadableStream> {
+    await this.statObject(objectName);
+    return fs.createReadStream(this.resolve(objectName), { start: offset, end: offset + length - 1 });
+  }
+
+  /**
+   * Get the size, etag and metadata of an object
+   * Files put in place by hand have no sidecar and get a size and time based etag
+   * @param objectName - Name of the object
+   * @returns The object stats
+   */
+  public async statObject(objectName: string): Promise<StorageObjectStat> {
+    await this.initialize();
+
+    const stat = await fsp.stat(this.resolve(objectName)).catch(() => null);
+    if (!stat?.isFile()) {
+      throw objectNotFound(objectName);
+    }
+
+    const meta = await this.readMeta(objectName);
+
+    return {
+      size: stat.size,
+      etag: meta?.etag || `${stat.size.toString(16)}-${stat.mtimeMs.toString(16)}`,
+      lastModified: stat.mtime,
+      metaData: { 'content-type': meta?.contentType || 'application/octet-stream' }
+    };
+  }
+
+  /**
+   * Copy an object, with its sidecar
+   * @param sourceName - Name of the object to copy
+   * @param destinationName - Name of the copy, replaced if it exists
+   */
+  public async copyObject(sourceName: string, destinationName: string): Promise<void> {
+    const stat = await this.statObject(sourceName);
+    const destinationPath = this.resolve(destinationName);
+
+    await fsp.mkdir(path.dirname(destinationPath), { recursive: true });
+    await fsp.copyFile(this.resolve(sourceName), destinationPath);
+    await this.writeMeta(destinationName, {
+      contentType: stat.metaData['content-type'],
+      etag: stat.etag
+    });
+
+    logger.info(`Copied object: ${sourceName} -> ${destinationName}`);
+  }
+
+  /**
+   * Delete an object, deleting a missing one does nothing like on MinIO
+   * @param objectName - Name of the object to delete
+   */
+  public async deleteObject(objectName: string): Promise<void> {
+    await this.initialize();
+
+    await fsp.rm(this.resolve(objectName), { force: true });
+    await fsp.rm(`${this.resolve(objectName, META_DIR)}.json`, { force: true });
+
+    logger.info(`Deleted object: ${objectName}`);
+  }
+
+  /**
+   * Generate a signed URL served by the /storage route
+   * @param objectName - Name of the object
+   * @param expiry - Expiration time in seconds (default: 24 hours)
+   * @param responseHeaders - Optional overrides of the response headers
+   * @returns The signed URL
+   */
+  public async getPresignedUrl(
+    objectName: string,
+    expiry: number = 86400,
+    responseHeaders?: Record<string, string>
+  ): Promise<string> {
+    return signStorageUrl(objectName, expiry, responseHeaders);
+  }
+
+  /**
+   * List the objects whose name starts with a prefix
+   * @param prefix - Optional prefix to filter objects
+   * @returns The objects, sorted by name
+   */
+  public async listObjects(prefix: string = ''): Promise<StorageObjectInfo[]> {
+    await this.initialize();
+
+    // Only walk the directory the prefix points into
+    const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    const startDir = path.join(this.root, ...prefixDir.split('/').filter(Boolean));
+    const objects: StorageObjectInfo[] = [];
+
+    const walk = async (dir: string, namePrefix: string) => {
+      const entries = await fsp.readdir(dir, { withFileTypes: true }).catch(() => []);
+
+      for (const entry of entries) {
+        const name = `${namePrefix}${entry.name}`;
+        if (!namePrefix && (entry.name === META_DIR || entry.name === MULTIPART_DIR)) {
+          continue;
+        }
+
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), `${name}/`);
+        } else if (entry.isFile() && !entry.name.endsWith('.tmp') && name.startsWith(prefix)) {
+          const stat = await fsp.stat(path.join(dir, entry.name));
+          objects.push({ name, size: stat.size, lastModified: stat.mtime });
+        }
+      }
+    };
+
+    await walk(startDir, prefixDir ? `${prefixDir}/` : '');
+
+    return objects.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Start a multipart upload, its parts are kept apart until completion
+   * @param objectName - Name to store the object as
+   * @param contentType - MIME type of the object
+   * @returns The upload ID
+   */
+  public async createMultipartUpload(objectName: string, contentType: string): Promise<string> {
+    await this.initialize();
+    this.resolve(objectName);
+
+    const uploadId = crypto.randomUUID();
+    const uploadDir = path.join(this.root, MULTIPART_DIR, uploadId);
+    const info: MultipartInfo = { objectName, contentType };
+
+    await fsp.mkdir(uploadDir, { recursive: true });
+    await fsp.writeFile(path.join(uploadDir, 'upload.json'), JSON.stringify(info));
+
+    logger.info(`Started multipart upload: ${objectName}`);
+    return uploadId;
+  }
+
+  private async readMultipartInfo(objectName: string, uploadId: string): Promise<MultipartInfo> {
+    const infoPath = path.join(this.root, MULTIPART_DIR, path.basename(uploadId), 'upload.json');
+    const info: MultipartInfo | null = await fsp.readFile(infoPath, 'utf8').then(JSON.parse, () => null);
+
+    if (!info || info.objectName !== objectName) {
+      throw Object.assign(new Error(`No such upload: ${uploadId}`), { code: 'NoSuchUpload' });
+    }
+
+    return info;
+  }
+
+  /**
+   * Store one part of a multipart upload
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   * @param partNumber - Part number, starting at 1
+   * @param data - Part data
+   * @returns The etag of the part
+   */
+  public async uploadPart(
+    objectName: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer
+  ): Promise<string> {
+    await this.readMultipartInfo(objectName, uploadId);
+    await fsp.writeFile(path.join(this.root, MULTIPART_DIR, path.basename(uploadId), `part-${partNumber}`), data);
+
+    logger.debug(`Uploaded part ${partNumber} of: ${objectName}`);
+    return crypto.createHash('md5').update(data).digest('hex');
+  }
+
+  /**
+   * Concatenate the uploaded parts into the final object
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   * @param parts - Part numbers with their etags
+   */
+  public async completeMultipartUpload(
+    objectName: string,
+    uploadId: string,
+    parts: { part: number; etag: string }[]
+  ): Promise<void> {
+    const info = await this.readMultipartInfo(objectName, uploadId);
+    const uploadDir = path.join(this.root, MULTIPART_DIR, path.basename(uploadId));
+    const ordered = [...parts].sort((a, b) => a.part - b.part);
+
+    const partPaths = ordered.map((part) => path.join(uploadDir, `part-${part.part}`));
+    async function* concatenate() {
+      for (const partPath of partPaths) {
+        yield* fs.createReadStream(partPath);
+      }
+    }
+
+    await this.uploadObject(objectName, Readable.from(concatenate()), undefined, info.contentType);
+    await fsp.rm(uploadDir, { recursive: true, force: true });
+
+    logger.info(`Completed multipart upload: ${objectName}`);
+  }
+
+  /**
+   * Abort a multipart upload, discarding the uploaded parts
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   */
+  public async abortMultipartUpload(objectName: string, uploadId: string): Promise<void> {
+    await this.readMultipartInfo(objectName, uploadId);
+    await fsp.rm(path.join(this.root, MULTIPART_DIR, path.basename(uploadId)), { recursive: true, force: true });
+
+    logger.info(`Aborted multipart upload: ${objectName}`);
+  }
+}
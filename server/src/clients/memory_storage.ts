@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { objectNotFound } from '../core/errors';
+import { signStorageUrl } from '../core/signed_urls';
+import logger from '../logger';
+import { StorageObjectInfo, StorageObjectStat, StorageProvider } from '../types/storage';
+
+interface MemoryObject {
+  data: Buffer;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+}
+
+interface MemoryUpload {
+  objectName: string;
+  contentType: string;
+  parts: Map<number, Buffer>;
+}
+
+const readAll = async (data: Buffer | NodeJS.ReadableStream): Promise<Buffer> => {
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of data) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * In-memory storage singleton for tests, objects are lost with the process
+ * Behaves like the other providers, missing objects included, so code under
+ * test can't tell the difference
+ */
+export class MemoryStorageClient implements StorageProvider {
+  private static instance: MemoryStorageClient;
+  private objects: Map<string, MemoryObject> = new Map();
+  private uploads: Map<string, MemoryUpload> = new Map();
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get the singleton instance of MemoryStorageClient
+   * @returns MemoryStorageClient instance
+   */
+  public static getInstance(): MemoryStorageClient {
+    if (!MemoryStorageClient.instance) {
+      MemoryStorageClient.instance = new MemoryStorageClient();
+    }
+    return MemoryStorageClient.instance;
+  }
+
+  /**
+   * Nothing to connect to
+   */
+  public async initialize(): Promise<void> {
+    logger.info('Memory storage initialized, objects are not persisted');
+  }
+
+  /**
+   * Remove every object and pending upload, for test isolation
+   */
+  public clear(): void {
+    this.objects.clear();
+    this.uploads.clear();
+  }
+
+  private find(objectName: string): MemoryObject {
+    const object = this.objects.get(objectName);
+    if (!object) {
+      throw objectNotFound(objectName);
+    }
+    return object;
+  }
+
+  /**
+   * Keep an object in memory
+   * @param objectName - Name to store the object as
+   * @param data - File data (Buffer or Readable stream)
+   * @param _size - Unused, the object is as long as the data
+   * @param contentType - MIME type of the file
+   * @returns The etag of the stored object
+   */
+  public async uploadObject(
+    objectName: string,
+    data: Buffer | NodeJS.ReadableStream,
+    _size: number | undefined,
+    contentType: string
+  ): Promise<{ etag: string }> {
+    const buffer = await readAll(data);
+    const etag = crypto.createHash('md5').update(buffer).digest('hex');
+
+    this.objects.set(objectName, { data: buffer, contentType, etag, lastModified: new Date() });
+
+    return { etag };
+  }
+
+  /**
+   * Read an object
+   * @param objectName - Name of the object to read
+   * @returns The object as a stream
+   */
+  public async getObject(objectName: string): Promise<NodeJS.ReadableStream> {
+    return Readable.from([this.find(objectName).data]);
+  }
+
+  /**
+   * Read a byte range of an object
+   * @param objectName - Name of the object to read
+   * @param offset - First byte to read
+   * @param length - Number of bytes to read
+   * @returns The range as a stream
+   */
+  public async getPartialObject(objectName: string, offset: number, length: number): Promise<NodeJS.ReadableStream> {
+    return Readable.from([this.find(objectName).data.subarray(offset, offset + length)]);
+  }
+
+  /**
+   * Get the size, etag and metadata of an object
+   * @param objectName - Name of the object
+   * @returns The object stats
+   */
+  public async statObject(objectName: string): Promise<StorageObjectStat> {
+    const object = this.find(objectName);
+
+    return {
+      size: object.data.length,
+      etag: object.etag,
+      lastModified: object.lastModified,
+      metaData: { 'content-type': object.contentType }
+    };
+  }
+
+  /**
+   * Copy an object
+   * @param sourceName - Name of the object to copy
+   * @param destinationName - Name of the copy, replaced if it exists
+   */
+  public async copyObject(sourceName: string, destinationName: string): Promise<void> {
+    this.objects.set(destinationName, { ...this.find(sourceName), lastModified: new Date() });
+  }
+
+  /**
+   * Delete an object, deleting a missing one does nothing like on MinIO
+   * @param objectName - Name of the object to delete
+   */
+  public async deleteObject(objectName: string): Promise<void> {
+    this.objects.delete(objectName);
+  }
+
+  /**
+   * Generate a signed URL served by the /storage route
+   * @param objectName - Name of the object
+   * @param expiry - Expiration time in seconds (default: 24 hours)
+   * @param responseHeaders - Optional overrides of the response headers
+   * @returns The signed URL
+   */
+  public async getPresignedUrl(
+    objectName: string,
+    expiry: number = 86400,
+    responseHeaders?: Record<string, string>
+  ): Promise<string> {
+    return signStorageUrl(objectName, expiry, responseHeaders);
+  }
+
+  /**
+   * List the objects whose name starts with a prefix
+   * @param prefix - Optional prefix to filter objects
+   * @returns The objects, sorted by name
+   */
+  public async listObjects(prefix: string = ''): Promise<StorageObjectInfo[]> {
+    return [...this.objects.entries()]
+      .filter(([name]) => name.startsWith(prefix))
+      .map(([name, object]) => ({
+        name,
+        size: object.data.length,
+        etag: object.etag,
+        lastModified: object.lastModified
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Start a multipart upload
+   * @param objectName - Name to store the object as
+   * @param contentType - MIME type of the object
+   * @returns The upload ID
+   */
+  public async createMultipartUpload(objectName: string, contentType: string): Promise<string> {
+    const uploadId = crypto.randomUUID();
+    this.uploads.set(uploadId, { objectName, contentType, parts: new Map() });
+    return uploadId;
+  }
+
+  private findUpload(objectName: string, uploadId: string): MemoryUpload {
+    const upload = this.uploads.get(uploadId);
+    if (!upload || upload.objectName !== objectName) {
+      throw Object.assign(new Error(`No such upload: ${uploadId}`), { code: 'NoSuchUpload' });
+    }
+    return upload;
+  }
+
+  /**
+   * Keep one part of a multipart upload
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   * @param partNumber - Part number, starting at 1
+   * @param data - Part data
+   * @returns The etag of the part
+   */
+  public async uploadPart(
+    objectName: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer
+  ): Promise<string> {
+    this.findUpload(objectName, uploadId).parts.set(partNumber, Buffer.from(data));
+    return crypto.createHash('md5').update(data).digest('hex');
+  }
+
+  /**
+   * Concatenate the uploaded parts into the final object
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   * @param parts - Part numbers with their etags
+   */
+  public async completeMultipartUpload(
+    objectName: string,
+    uploadId: string,
+    parts: { part: number; etag: string }[]
+  ): Promise<void> {
+    const upload = this.findUpload(objectName, uploadId);
+    const ordered = [...parts].sort((a, b) => a.part - b.part);
+
+    const missing = ordered.filter((part) => !upload.parts.has(part.part));
+    if (missing.length > 0) {
+      throw new Error(`Parts were never uploaded: ${missing.map((part) => part.part).join(', ')}`);
+    }
+
+    const data = Buffer.concat(ordered.map((part) => upload.parts.get(part.part)!));
+    await this.uploadObject(objectName, data, data.length, upload.contentType);
+    this.uploads.delete(uploadId);
+  }
+
+  /**
+   * Abort a multipart upload, discarding the uploaded parts
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   */
+  public async abortMultipartUpload(objectName: string, uploadId: string): Promise<void> {
+    this.findUpload(objectName, uploadId);
+    this.uploads.delete(uploadId);
+  }
+}
@@ -1,12 +1,14 @@
-import { Client } from 'minio';
+import { BucketItemStat, Client, CopyDestinationOptions, CopySourceOptions } from 'minio';
+import crypto from 'crypto';
 import { MinioConfig } from '../types/config';
+import { StorageObjectInfo, StorageProvider } from '../types/storage';
 import { config } from '../config';
 import logger from '../logger';
 
 /**
  * MinIO client singleton class for object storage operations
  */
-export class MinioClient {
+export class MinioClient implements StorageProvider {
   private static instance: MinioClient;
   private client!: Client;
   private initialized: boolean = false;
@@ -66,14 +68,14 @@ export class MinioClient {
    * Upload a file to MinIO
    * @param objectName - Name to store the object as
    * @param data - File data (Buffer or Readable stream)
-   * @param size - Size of the file in bytes
+   * @param size - Size of the file in bytes, undefined for streams of unknown length
    * @param contentType - MIME type of the file
    * @returns Promise with etag info of the uploaded object
    */
   public async uploadObject(
     objectName: string,
     data: Buffer | NodeJS.ReadableStream,
-    size: number,
+    size: number | undefined,
     contentType: string
   ): Promise<any> {
     if (!this.initialized) {
@@ -114,6 +116,66 @@ export class MinioClient {
     }
   }
 
+  /**
+   * Download a byte range of an object from MinIO
+   * @param objectName - Name of the object to download
+   * @param offset - First byte to read
+   * @param length - Number of bytes to read
+   * @returns Promise with the range as a stream
+   */
+  public async getPartialObject(objectName: string, offset: number, length: number): Promise<NodeJS.ReadableStream> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      return await this.client.getPartialObject(this.config.bucket, objectName, offset, length);
+    } catch (error) {
+      logger.error(`Error downloading range of object: ${objectName}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the size, etag and metadata of an object
+   * @param objectName - Name of the object
+   * @returns Promise with the object stats
+   */
+  public async statObject(objectName: string): Promise<BucketItemStat> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      return await this.client.statObject(this.config.bucket, objectName);
+    } catch (error) {
+      logger.error(`Error getting stats of object: ${objectName}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy an object within the bucket, the data never leaves the server
+   * @param sourceName - Name of the object to copy
+   * @param destinationName - Name of the copy, replaced if it exists
+   */
+  public async copyObject(sourceName: string, destinationName: string): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      await this.client.copyObject(
+        new CopySourceOptions({ Bucket: this.config.bucket, Object: sourceName }),
+        new CopyDestinationOptions({ Bucket: this.config.bucket, Object: destinationName })
+      );
+      logger.info(`Copied object: ${sourceName} -> ${destinationName}`);
+    } catch (error) {
+      logger.error(`Error copying object: ${sourceName} -> ${destinationName}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Delete an object from MinIO
    * @param objectName - Name of the object to delete
@@ -136,15 +198,20 @@ export class MinioClient {
    * Generate a presigned URL for temporary access to an object
    * @param objectName - Name of the object
    * @param expiry - Expiration time in seconds (default: 24 hours)
+   * @param responseHeaders - Optional overrides of the response headers, e.g. response-content-disposition
    * @returns Promise with the presigned URL
    */
-  public async getPresignedUrl(objectName: string, expiry: number = 86400): Promise<string> {
+  public async getPresignedUrl(
+    objectName: string,
+    expiry: number = 86400,
+    responseHeaders?: Record<string, string>
+  ): Promise<string> {
     if (!this.initialized) {
       await this.initialize();
     }
 
     try {
-      return await this.client.presignedGetObject(this.config.bucket, objectName, expiry);
+      return await this.client.presignedGetObject(this.config.bucket, objectName, expiry, responseHeaders);
     } catch (error) {
       logger.error(`Error generating presigned URL for: ${objectName}`, error);
       throw error;
@@ -156,18 +223,26 @@ export class MinioClient {
    * @param prefix - Optional prefix to filter objects
    * @returns Promise with array of object information
    */
-  public async listObjects(prefix: string = ''): Promise<any[]> {
+  public async listObjects(prefix: string = ''): Promise<StorageObjectInfo[]> {
     if (!this.initialized) {
       await this.initialize();
     }
 
     try {
       const objectsStream = this.client.listObjects(this.config.bucket, prefix, true);
-      const objects: any[] = [];
+      const objects: StorageObjectInfo[] = [];
 
       return new Promise((resolve, reject) => {
         objectsStream.on('data', (obj) => {
-          objects.push(obj);
+          // Recursive listings have no prefix entries, every item is an object
+          if (obj.name) {
+            objects.push({
+              name: obj.name,
+              size: obj.size ?? 0,
+              etag: obj.etag,
+              lastModified: obj.lastModified ?? new Date(0)
+            });
+          }
         });
         objectsStream.on('error', (err) => {
           reject(err);
@@ -182,6 +257,115 @@ export class MinioClient {
     }
   }
 
+  /**
+   * Start a multipart upload for an object
+   * @param objectName - Name to store the object as
+   * @param contentType - MIME type of the object
+   * @returns Promise with the upload ID
+   */
+  public async createMultipartUpload(objectName: string, contentType: string): Promise<string> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      const uploadId = await this.client.initiateNewMultipartUpload(
+        this.config.bucket,
+        objectName,
+        { 'Content-Type': contentType }
+      );
+      logger.info(`Started multipart upload: ${objectName}`);
+      return uploadId;
+    } catch (error) {
+      logger.error(`Error starting multipart upload: ${objectName}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload one part of a multipart upload
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   * @param partNumber - Part number, starting at 1
+   * @param data - Part data
+   * @returns Promise with the etag of the part
+   */
+  public async uploadPart(
+    objectName: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer
+  ): Promise<string> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      // The SDK only exposes part uploads for copies, so send the request
+      // the same way its own streaming upload does
+      const response = await this.client.makeRequestAsyncOmit({
+        method: 'PUT',
+        bucketName: this.config.bucket,
+        objectName,
+        query: `partNumber=${partNumber}&uploadId=${encodeURIComponent(uploadId)}`,
+        headers: {
+          'Content-Length': data.length,
+          'Content-MD5': crypto.createHash('md5').update(data).digest('base64')
+        }
+      }, data);
+
+      const etag = String(response.headers.etag || '').replace(/^"/, '').replace(/"$/, '');
+      logger.debug(`Uploaded part ${partNumber} of: ${objectName}`);
+      return etag;
+    } catch (error) {
+      logger.error(`Error uploading part ${partNumber} of: ${objectName}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   * @param parts - Part numbers with their etags
+   */
+  public async completeMultipartUpload(
+    objectName: string,
+    uploadId: string,
+    parts: { part: number; etag: string }[]
+  ): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      await this.client.completeMultipartUpload(this.config.bucket, objectName, uploadId, parts);
+      logger.info(`Completed multipart upload: ${objectName}`);
+    } catch (error) {
+      logger.error(`Error completing multipart upload: ${objectName}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Abort a multipart upload, discarding the uploaded parts
+   * @param objectName - Name of the object being uploaded
+   * @param uploadId - ID returned by createMultipartUpload
+   */
+  public async abortMultipartUpload(objectName: string, uploadId: string): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      await this.client.abortMultipartUpload(this.config.bucket, objectName, uploadId);
+      logger.info(`Aborted multipart upload: ${objectName}`);
+    } catch (error) {
+      logger.error(`Error aborting multipart upload: ${objectName}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get the MinIO client instance for direct operations
    * @returns The MinIO client instance
@@ -40,9 +40,7 @@ export class RedisClient {
 
     try {
       logger.info('Initializing Redis client', { url: this.config.url });
-      this.client = new Redis({
-        host: this.config.url.split(':')[0],
-        port: parseInt(this.config.url.split(':')[1] || '6379'),
+      this.client = new Redis(this.config.url, {
         maxRetriesPerRequest: 3,
         retryStrategy: (retries) => Math.min(retries * 50, 1000)
       });
@@ -185,6 +183,122 @@ export class RedisClient {
     }
   }
 
+  /**
+   * Atomically increment a counter, starting at 1 when the key doesn't exist
+   * @param key - The counter key
+   * @returns The value after the increment
+   */
+  public async increment(key: string): Promise<number> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      return await this.client.incr(key);
+    } catch (error) {
+      logger.error(`Error incrementing key: ${key}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set a field of a Redis hash
+   * @param key - The hash key
+   * @param field - The field to set
+   * @param value - The value to set
+   * @param expiry - Optional expiration time of the whole hash in seconds
+   */
+  public async hashSet(key: string, field: string, value: string, expiry?: number): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      if (expiry) {
+        await this.client.multi().hset(key, field, value).expire(key, expiry).exec();
+      } else {
+        await this.client.hset(key, field, value);
+      }
+      logger.debug(`Set hash field: ${key}.${field}`);
+    } catch (error) {
+      logger.error(`Error setting hash field: ${key}.${field}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all fields of a Redis hash
+   * @param key - The hash key
+   * @returns The fields and values, empty if the hash doesn't exist
+   */
+  public async hashGetAll(key: string): Promise<Record<string, string>> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      return await this.client.hgetall(key);
+    } catch (error) {
+      logger.error(`Error getting hash: ${key}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a field of a Redis hash
+   * @param key - The hash key
+   * @param field - The field to delete
+   */
+  public async hashDelete(key: string, field: string): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      await this.client.hdel(key, field);
+      logger.debug(`Deleted hash field: ${key}.${field}`);
+    } catch (error) {
+      logger.error(`Error deleting hash field: ${key}.${field}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the expiration of a key
+   * @param key - The key to expire
+   * @param expiry - Expiration time in seconds
+   */
+  public async expire(key: string, expiry: number): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      await this.client.expire(key, expiry);
+    } catch (error) {
+      logger.error(`Error setting expiry of key: ${key}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the remaining time to live of a key
+   * @param key - The key to check
+   * @returns Seconds until expiry, negative if the key has no expiry or doesn't exist
+   */
+  public async ttl(key: string): Promise<number> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      return await this.client.ttl(key);
+    } catch (error) {
+      logger.error(`Error getting ttl of key: ${key}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Close the Redis client connection
    */
@@ -0,0 +1,23 @@
+import { config } from '../config';
+import { StorageProvider } from '../types/storage';
+import { LocalStorageClient } from './local_storage';
+import { MemoryStorageClient } from './memory_storage';
+import { MinioClient } from './minio';
+
+/**
+ * Get the storage provider configured by STORAGE_PROVIDER
+ * Everything that reads or writes objects goes through it
+ * @returns The provider's singleton instance
+ */
+export const getStorage = (): StorageProvider => {
+  switch (config.storage.provider) {
+    case 'local':
+      return LocalStorageClient.getInstance();
+    case 'memory':
+      return MemoryStorageClient.getInstance();
+    case 'minio':
+      return MinioClient.getInstance();
+    default:
+      throw new Error(`Unknown storage provider: ${config.storage.provider}`);
+  }
+};
@@ -1,4 +1,8 @@
-import { Config } from './types/config';
+import os from 'os';
+import { Config, DedupePolicy } from './types/config';
+import { StorageProviderName } from './types/storage';
+
+const DEV_JWT_SECRET = 'super-secret-key-change-in-production';
 
 export const config: Config = {
   redis: {
@@ -12,4 +16,66 @@ export const config: Config = {
     secretKey: process.env.MINIO_SECRET_KEY || 'minioadmin',
     bucket: process.env.MINIO_BUCKET || 'default'
   },
-}; 
\ No newline at end of file
+  assets: {
+    trashRetentionDays: parseInt(process.env.ASSET_TRASH_RETENTION_DAYS || '30'),
+    // Defaults to 10 GiB
+    maxUploadSize: parseInt(process.env.MAX_UPLOAD_SIZE || String(10 * 1024 * 1024 * 1024)),
+    // Defaults to 50 GiB
+    maxBulkUploadSize: parseInt(process.env.MAX_BULK_UPLOAD_SIZE || String(50 * 1024 * 1024 * 1024)),
+    dedupePolicy: (process.env.ASSET_DEDUPE_POLICY || 'always') as DedupePolicy
+  },
+  uploads: {
+    sessionTtl: parseInt(process.env.UPLOAD_SESSION_TTL_SECONDS || '86400'),
+    defaultChunkSize: parseInt(process.env.UPLOAD_CHUNK_SIZE || String(8 * 1024 * 1024)),
+    tempDir: process.env.UPLOAD_TEMP_DIR || os.tmpdir()
+  },
+  jobs: {
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5'),
+    backoffMs: parseInt(process.env.JOB_BACKOFF_MS || '5000'),
+    stallTimeout: parseInt(process.env.JOB_STALL_TIMEOUT_SECONDS || '600'),
+    retention: parseInt(process.env.JOB_RETENTION_SECONDS || '604800')
+  },
+  storage: {
+    provider: (process.env.STORAGE_PROVIDER || 'minio') as StorageProviderName,
+    localRoot: process.env.STORAGE_LOCAL_ROOT || './data/storage',
+    publicUrl: process.env.STORAGE_PUBLIC_URL || 'http://localhost:4500',
+    pathTemplate: process.env.STORAGE_PATH_TEMPLATE ||
+      'assets/{type}/{class}/{location|lower}/{camera|lower}/{date|digits}',
+    filenameTemplate: process.env.STORAGE_FILENAME_TEMPLATE ||
+      '{type:3}_{class}_{location|compact|lower}_{camera|alnum|lower}_{date}_{index}_{uuid}{ext}',
+    unclassifiedPath: process.env.STORAGE_UNCLASSIFIED_PATH || 'assets/unclassified'
+  },
+  exports: {
+    maxAssets: parseInt(process.env.EXPORT_MAX_ASSETS || '10000'),
+    // Larger exports run as a background job
+    syncMaxAssets: parseInt(process.env.EXPORT_SYNC_MAX_ASSETS || '200'),
+    // Defaults to 2 GiB
+    syncMaxBytes: parseInt(process.env.EXPORT_SYNC_MAX_BYTES || String(2 * 1024 * 1024 * 1024)),
+    retention: parseInt(process.env.EXPORT_RETENTION_SECONDS || '86400')
+  },
+  vocabularies: {
+    strict: process.env.VOCABULARY_STRICT === 'true'
+  },
+  media: {
+    ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    timeout: parseInt(process.env.MEDIA_TOOL_TIMEOUT_SECONDS || '300')
+  },
+  auth: {
+    jwtSecret: process.env.JWT_SECRET || DEV_JWT_SECRET,
+    sessionTtl: parseInt(process.env.SESSION_TTL_SECONDS || '604800'),
+    apiTokenTtl: parseInt(process.env.API_TOKEN_TTL_SECONDS || '7776000'),
+    // Defaults to a year
+    maxApiTokenTtl: parseInt(process.env.API_TOKEN_MAX_TTL_SECONDS || '31536000'),
+    cookieName: process.env.SESSION_COOKIE_NAME || 'skystore_session',
+    adminEmail: process.env.ADMIN_EMAIL,
+    adminPassword: process.env.ADMIN_PASSWORD
+  },
+};
+
+// Refuse to run in production with a missing or placeholder JWT secret
+if (process.env.NODE_ENV === 'production' &&
+  (config.auth.jwtSecret === DEV_JWT_SECRET || config.auth.jwtSecret.length < 32)) {
+  throw new Error('JWT_SECRET must be set to a random value of at least 32 characters in production');
+} 
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { AccessRole, Prisma, User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { ServerError } from '../core/errors';
+import logger from '../logger';
+
+// Higher rank includes every permission of the lower ranks
+const ROLE_RANK: Record<AccessRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3
+};
+
+/**
+ * Controller for per-asset user access grants
+ */
+export const AccessController = {
+  /**
+   * Ensure a user holds at least the given role on an asset
+   * Users without any grant get a 404 so asset existence isn't leaked
+   *
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user
+   * @param minRole - Minimum role required
+   */
+  assertAccess: async (assetUuid: string, user: User, minRole: AccessRole) => {
+    if (user.is_admin) {
+      return;
+    }
+
+    const access = await prisma.assetAccess.findUnique({
+      where: {
+        asset_id_user_id: {
+          asset_id: assetUuid,
+          user_id: user.uuid
+        }
+      }
+    });
+
+    if (!access) {
+      logger.warn(`User ${user.uuid} has no access to asset: ${assetUuid}`);
+      throw new ServerError('Asset not found', 404);
+    }
+
+    if (ROLE_RANK[access.role] < ROLE_RANK[minRole]) {
+      logger.warn(`User ${user.uuid} lacks ${minRole} access to asset: ${assetUuid}`, {
+        role: access.role
+      });
+      throw new ServerError(`This action requires ${minRole} access`, 403);
+    }
+  },
+
+  /**
+   * Build a where clause limiting assets to the ones a user can view
+   *
+   * @param user - The acting user
+   */
+  accessibleAssetsWhere: (user: User): Prisma.AssetWhereInput => {
+    if (user.is_admin) {
+      return {};
+    }
+
+    return {
+      access: {
+        some: { user_id: user.uuid }
+      }
+    };
+  },
+
+  /**
+   * List the access grants of an asset
+   *
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user, needs owner access
+   * @returns The grants with their users
+   */
+  listAccess: async (assetUuid: string, user: User) => {
+    try {
+      await AccessController.assertAccess(assetUuid, user, 'owner');
+
+      return await prisma.assetAccess.findMany({
+        where: { asset_id: assetUuid },
+        include: {
+          user: {
+            select: { uuid: true, email: true, name: true }
+          }
+        },
+        orderBy: { granted_at: 'asc' }
+      });
+    } catch (error) {
+      logger.error('Access listing failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to list asset access', 500);
+    }
+  },
+
+  /**
+   * Grant a user access to an asset, or change the role of an existing grant
+   *
+   * @param assetUuid - UUID of the asset
+   * @param userUuid - UUID of the user receiving access
+   * @param role - Role to grant
+   * @param user - The acting user, needs owner access
+   * @returns The grant
+   */
+  grantAccess: async (
+    assetUuid: string,
+    userUuid: string,
+    role: AccessRole,
+    user: User
+  ) => {
+    logger.info(`Granting ${role} access on asset ${assetUuid} to user ${userUuid}`);
+
+    try {
+      const asset = await prisma.asset.findUnique({
+        where: { uuid: assetUuid }
+      });
+
+      if (!asset) {
+        logger.error(`Asset not found: ${assetUuid}`);
+        throw new ServerError('Asset not found', 404);
+      }
+
+      await AccessController.assertAccess(assetUuid, user, 'owner');
+
+      const grantee = await prisma.user.findUnique({
+        where: { uuid: userUuid }
+      });
+
+      if (!grantee) {
+        logger.error(`User not found: ${userUuid}`);
+        throw new ServerError('User not found', 404);
+      }
+
+      const access = await prisma.assetAccess.upsert({
+        where: {
+          asset_id_user_id: {
+            asset_id: assetUuid,
+            user_id: userUuid
+          }
+        },
+        update: { role },
+        create: {
+          role,
+          asset: { connect: { uuid: assetUuid } },
+          user: { connect: { uuid: userUuid } }
+        }
+      });
+
+      logger.info(`Access granted successfully on asset: ${assetUuid}`);
+
+      return access;
+    } catch (error) {
+      logger.error('Access grant failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid,
+        userUuid
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to grant asset access', 500);
+    }
+  },
+
+  /**
+   * Revoke a user's access to an asset
+   * The last owner of an asset can't be removed
+   *
+   * @param assetUuid - UUID of the asset
+   * @param userUuid - UUID of the user losing access
+   * @param user - The acting user, needs owner access
+   */
+  revokeAccess: async (assetUuid: string, userUuid: string, user: User) => {
+    logger.info(`Revoking access on asset ${assetUuid} from user ${userUuid}`);
+
+    try {
+      await AccessController.assertAccess(assetUuid, user, 'owner');
+
+      const access = await prisma.assetAccess.findUnique({
+        where: {
+          asset_id_user_id: {
+            asset_id: assetUuid,
+            user_id: userUuid
+          }
+        }
+      });
+
+      if (!access) {
+        throw new ServerError('User has no access to this asset', 404);
+      }
+
+      if (access.role === 'owner') {
+        const ownerCount = await prisma.assetAccess.count({
+          where: { asset_id: assetUuid, role: 'owner' }
+        });
+
+        if (ownerCount <= 1) {
+          throw new ServerError('Cannot revoke the last owner of an asset', 409);
+        }
+      }
+
+      await prisma.assetAccess.delete({
+        where: { id: access.id }
+      });
+
+      logger.info(`Access revoked successfully on asset: ${assetUuid}`);
+    } catch (error) {
+      logger.error('Access revocation failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid,
+        userUuid
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to revoke asset access', 500);
+    }
+  }
+};
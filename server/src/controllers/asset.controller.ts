@@ -1,23 +1,199 @@
-import { PrismaClient } from '@prisma/client';
-import { MinioClient } from '../clients/minio';
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
 import { RedisClient } from '../clients/redis';
+import { config } from '../config';
+import { ServerError } from '../core/errors';
+import { AccessController } from './access.controller';
+import { MetadataSchemaController } from './metadata_schema.controller';
+import { VocabularyController } from './vocabulary.controller';
 import logger from '../logger';
 import crypto from 'crypto';
 import path from 'path';
+import { DigestStream, uploadStream } from '../core/stream_utils';
+import { parseCoordinates } from '../core/geo';
+import { countFilteredAssets, findFilteredAssetIds } from '../core/asset_filters';
+import { TAG_NAMES_INCLUDE, toTagNames } from '../core/tags';
+import { enqueuePostIngestJobs, relocateWithRetry } from '../jobs';
+import { buildMetaHistoryEntry, toMetaSnapshot } from '../core/meta_history';
+import { PathUtils } from '../core/path_utils';
+import {
+  AssetListFilters,
+  AssetListResult,
+  AssetMetaInput,
+  AssetMetaPatch,
+  IngestSource,
+  MetaHistoryAction,
+  MetaSnapshot
+} from '../types/asset';
+import { DedupePolicy } from '../types/config';
+import { VocabularyField, VocabularyIndexes } from '../types/vocabulary';
 
-// Initialize Prisma client
-const prisma = new PrismaClient();
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
 
-// Define error class
-class ServerError extends Error {
-  statusCode: number;
+// The base fields asset_meta_base can't be created without
+export const META_FIELDS = [
+  'asset_type',
+  'asset_class',
+  'asset_location_name',
+  'asset_camera',
+  'asset_date_label'
+] as const;
+
+/**
+ * Check that metadata has every base field, only then is asset_meta_base created
+ */
+export const isCompleteMetadata = (metaData?: Partial<AssetMetaInput>): metaData is AssetMetaInput => {
+  return !!metaData && META_FIELDS.every((field) => !!metaData[field]);
+};
+
+/**
+ * Validate the custom part of metadata against the schema of its asset_type
+ * and map location, camera and class onto their vocabulary entries
+ * Runs before anything is stored, so invalid metadata doesn't cost an upload
+ * 
+ * @param vocabularies - Vocabulary indexes loaded once for a batch, read per call otherwise
+ * @returns The metadata with canonical values and its custom values coerced to their field types
+ */
+export const validateMetadata = async (
+  metaData?: Partial<AssetMetaInput>,
+  vocabularies?: VocabularyIndexes
+): Promise<Partial<AssetMetaInput> | undefined> => {
+  if (!metaData) {
+    return metaData;
+  }
+  
+  metaData = await VocabularyController.normalizeMetadata(metaData, { indexes: vocabularies });
+  
+  if (!metaData.asset_type) {
+    if (metaData.custom && Object.keys(metaData.custom).length > 0) {
+      throw new ServerError('Custom metadata needs an asset_type', 400);
+    }
+    return metaData;
+  }
+  
+  const custom = await MetadataSchemaController.validateCustom(metaData.asset_type, metaData.custom);
+  
+  return { ...metaData, custom };
+};
+
+/**
+ * Write the base metadata of an asset and record the change in its history
+ * Both happen in one transaction, so the history can't miss a change. The
+ * asset row is locked and the stored metadata read inside it, so concurrent
+ * writes apply one after the other, each building on the one before.
+ * 
+ * @param build - Derives the new metadata from the stored one, null when there is none,
+ *   returns null to leave the metadata as it is
+ * @param options - The recorded action, create or update by default, and the reverted entry
+ * @returns Whether the metadata was written
+ */
+const writeMetadata = async (
+  assetUuid: string,
+  build: (before: MetaSnapshot | null) => MetaSnapshot | null | Promise<MetaSnapshot | null>,
+  user: User,
+  options: { action?: MetaHistoryAction; revertedFrom?: string } = {}
+): Promise<boolean> => {
+  return await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT uuid FROM assets WHERE uuid = ${assetUuid} FOR UPDATE`;
+    
+    const before = toMetaSnapshot(await tx.assetMetaBase.findUnique({
+      where: { asset_id: assetUuid }
+    }));
+    const after = await build(before);
+    if (!after) {
+      return false;
+    }
+    
+    const data = {
+      asset_type: after.asset_type,
+      asset_class: after.asset_class,
+      asset_location_name: after.asset_location_name,
+      asset_camera: after.asset_camera,
+      asset_date_label: after.asset_date_label,
+      latitude: after.latitude,
+      longitude: after.longitude,
+      altitude: after.altitude,
+      custom: after.custom === null ? Prisma.DbNull : after.custom as Prisma.InputJsonValue
+    };
+    
+    const action = options.action ?? (before ? 'update' : 'create');
+    const entry = buildMetaHistoryEntry(assetUuid, before, after, action, user.uuid, options.revertedFrom);
+    
+    await tx.assetMetaBase.upsert({
+      where: { asset_id: assetUuid },
+      update: data,
+      create: { ...data, asset_id: assetUuid }
+    });
+    
+    if (entry) {
+      await tx.assetMetaHistory.create({ data: entry });
+    }
+    
+    return true;
+  });
+};
+
+/**
+ * Get the date before which trashed assets can no longer be restored
+ */
+const getTrashCutoff = (): Date => {
+  return new Date(Date.now() - config.assets.trashRetentionDays * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Permanently remove an asset
+ * The metadata row and the asset row are removed in a transaction first, the
+ * stored objects only once it committed, so a failed delete can never bring
+ * back a row whose object is gone. Objects that can't be deleted are logged
+ * as orphans. Objects still referenced by deduplicated assets are kept,
+ * renditions belong to a single asset and are always removed.
+ */
+const purgeAsset = async (asset: { uuid: string; stored_fullpath: string }) => {
+  const storage = getStorage();
   
-  constructor(message: string, statusCode: number = 500) {
-    super(message);
-    this.statusCode = statusCode;
-    this.name = 'ServerError';
+  const { renditions, sharedCount } = await prisma.$transaction(async (tx) => {
+    const renditions = await tx.assetRendition.findMany({
+      where: { asset_id: asset.uuid },
+      select: { stored_fullpath: true }
+    });
+    
+    // asset_meta_base references assets with ON DELETE RESTRICT
+    await tx.assetMetaBase.deleteMany({
+      where: { asset_id: asset.uuid }
+    });
+    
+    await tx.asset.delete({
+      where: { uuid: asset.uuid }
+    });
+    
+    const sharedCount = await tx.asset.count({
+      where: { stored_fullpath: asset.stored_fullpath }
+    });
+    
+    return { renditions, sharedCount };
+  });
+  
+  // Renditions before the original, they are worthless without it
+  const objectPaths = renditions.map((rendition) => rendition.stored_fullpath);
+  if (sharedCount === 0) {
+    objectPaths.push(asset.stored_fullpath);
+  }
+  
+  for (const objectPath of objectPaths) {
+    try {
+      await storage.deleteObject(objectPath);
+    } catch (error) {
+      logger.error(`Orphaned object of purged asset: ${objectPath}`, {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid: asset.uuid
+      });
+    }
   }
-}
+  
+  logger.info(`Asset purged: ${asset.uuid}`);
+};
 
 /**
  * Controller for managing assets using Prisma and MinIO
@@ -25,162 +201,94 @@ class ServerError extends Error {
 export const AssetController = {
   /**
    * Ingest an asset into the system
-   * - Uploads file to MinIO
+   * - Validates custom metadata against the schema of its asset_type
+   * - Streams the file to MinIO, hashing it on the way through
    * - Creates asset record in the database
    * - Optionally creates metadata if provided
+   * - Grants the uploading user owner access
    * - Emits Redis event with asset data
+   * - Enqueues the post-ingest processing jobs
    * 
-   * @param file - The file to upload
-   * @param metaData - Optional metadata about the asset
+   * @param source - The file stream to upload, it is never fully buffered
+   * @param metaData - Optional metadata about the asset, when incomplete it is
+   *   completed from the file's EXIF data after ingest where possible
+   * @param user - The uploading user
+   * @param options - Deduplication policy, defaults to the configured one, and
+   *   the vocabulary indexes of a batch, see VocabularyController.loadIndexes
    * @returns The created asset with its metadata
    */
   ingestAsset: async (
-    file: File,
-    metaData?: {
-      asset_type: string;
-      asset_class: string;
-      asset_location_name: string;
-      asset_camera: string;
-      asset_date_label: string;
-    }
+    source: IngestSource,
+    metaData: Partial<AssetMetaInput> | undefined,
+    user: User,
+    options: { dedupePolicy?: DedupePolicy; vocabularies?: VocabularyIndexes } = {}
   ) => {
     // Setup clients
-    const minioClient = MinioClient.getInstance();
-    const redisClient = RedisClient.getInstance();
+    const storage = getStorage();
+    
+    metaData = await validateMetadata(metaData, options.vocabularies);
     
     // Generate a unique ID for the asset
     const assetUuid = crypto.randomUUID();
     
     logger.info(`Starting asset ingestion: ${assetUuid}`, {
-      filename: file.name,
-      size: file.size,
-      type: file.type
+      filename: source.filename,
+      type: source.contentType
+    });
+    
+    // 1. Generate a storage path
+    const storedPath = await PathUtils.generateStoredPath({
+      uuid: assetUuid,
+      extension: path.extname(source.filename),
+      meta: isCompleteMetadata(metaData) ? metaData : undefined
     });
     
     try {
-      // 1. Prepare file data
-      const fileBuffer = await file.arrayBuffer();
-      const fileContent = Buffer.from(fileBuffer);
-      const fileExtension = path.extname(file.name);
-      const originalFilename = file.name;
-      
-      // Generate a storage path
-      let storedPath: string;
-      
-      if (metaData) {
-        // If metadata is provided, use it for the path
-        const datePart = metaData.asset_date_label.replace(/[^0-9]/g, '');
-        const metaPath = [
-          metaData.asset_type,
-          metaData.asset_class,
-          metaData.asset_location_name.replace(/\s+/g, '_').toLowerCase(),
-          metaData.asset_camera.replace(/\s+/g, '_').toLowerCase(),
-          datePart || 'undated'
-        ].join('/');
-        
-        const storedFilename = `${assetUuid}${fileExtension}`;
-        storedPath = `assets/${metaPath}/${storedFilename}`;
-      } else {
-        // If no metadata, use a simple path
-        const storedFilename = `${assetUuid}${fileExtension}`;
-        storedPath = `assets/unclassified/${storedFilename}`;
-      }
+      // 2. Stream the file to MinIO, hashing and counting bytes as they pass
+      const maxUploadSize = config.assets.maxUploadSize;
+      const digestStream = new DigestStream({ maxBytes: maxUploadSize });
+      let sourceError = null as Error | null;
       
-      // 2. Upload file to MinIO
-      logger.info(`Uploading file to MinIO: ${storedPath}`);
-      await minioClient.uploadObject(
-        storedPath,
-        fileContent,
-        file.size,
-        file.type
-      );
+      // The upload doesn't see errors of the source, so end it cleanly and
+      // fail afterwards if the client connection drops
+      source.stream.on('error', (streamError) => {
+        sourceError = streamError;
+        digestStream.end();
+      });
+      source.stream.pipe(digestStream);
       
-      // 3. Generate a presigned URL for accessing the file
-      const storedUrl = await minioClient.getPresignedUrl(storedPath);
-      
-      // 4. Create the asset record in the database
-      logger.info(`Creating asset record in database: ${assetUuid}`);
-      
-      // Prepare the asset data
-      const assetData: any = {
-        uuid: assetUuid,
-        imported_fullpath: originalFilename,
-        imported_filename: path.basename(originalFilename),
-        stored_fullpath: storedPath,
-        stored_url: storedUrl,
-        size: file.size,
-        stored_filename: path.basename(storedPath),
-        extension: fileExtension.replace('.', ''),
-        hash: crypto.createHash('md5').update(fileContent).digest('hex'),
-      };
+      logger.info(`Uploading file to MinIO: ${storedPath}`);
+      await uploadStream(storage, storedPath, digestStream, source.contentType);
       
-      // If metadata is provided, include it in the create operation
-      if (metaData) {
-        assetData.meta_base = {
-          create: {
-            asset_type: metaData.asset_type,
-            asset_class: metaData.asset_class,
-            asset_location_name: metaData.asset_location_name,
-            asset_camera: metaData.asset_camera,
-            asset_date_label: metaData.asset_date_label
-          }
-        };
+      if (sourceError) {
+        throw sourceError instanceof ServerError ? sourceError : new ServerError('Upload was interrupted', 400);
       }
       
-      const asset = await prisma.asset.create({
-        data: assetData,
-        include: {
-          meta_base: true
-        }
-      });
+      if (digestStream.exceeded) {
+        throw new ServerError(`File exceeds the maximum upload size of ${maxUploadSize} bytes`, 413);
+      }
       
-      // 5. Emit a Redis event for the newly ingested asset
-      logger.info(`Emitting asset_ingested event for: ${assetUuid}`);
-      await redisClient.publish('asset_ingested', {
-        asset: {
-          uuid: asset.uuid,
-          filename: asset.imported_filename,
-          url: asset.stored_url,
-          extension: asset.extension,
-          size: asset.size
-        },
-        meta: asset.meta_base
+      // 3. Create the asset record and announce it
+      return await AssetController.registerStoredAsset({
+        assetUuid,
+        importedPath: source.importedPath || source.filename,
+        storedPath,
+        size: digestStream.bytes,
+        hash: digestStream.digest(),
+        metaData,
+        user,
+        dedupePolicy: options.dedupePolicy
       });
-      
-      logger.info(`Asset ingestion completed successfully: ${assetUuid}`);
-      
-      return asset;
     } catch (error) {
       logger.error('Asset ingestion failed:', {
         error: error instanceof Error ? error.message : String(error),
         assetUuid,
-        filename: file.name
+        filename: source.filename
       });
       
       // If there's an error, try to clean up any partial uploads
       try {
-        let storedPath: string;
-        
-        if (metaData) {
-          // If metadata is provided, reconstruct the path for cleanup
-          const datePart = metaData.asset_date_label.replace(/[^0-9]/g, '');
-          const metaPath = [
-            metaData.asset_type,
-            metaData.asset_class,
-            metaData.asset_location_name.replace(/\s+/g, '_').toLowerCase(),
-            metaData.asset_camera.replace(/\s+/g, '_').toLowerCase(),
-            datePart || 'undated'
-          ].join('/');
-          
-          const storedFilename = `${assetUuid}${path.extname(file.name)}`;
-          storedPath = `assets/${metaPath}/${storedFilename}`;
-        } else {
-          // If no metadata, use the simple path
-          const storedFilename = `${assetUuid}${path.extname(file.name)}`;
-          storedPath = `assets/unclassified/${storedFilename}`;
-        }
-        
-        await minioClient.deleteObject(storedPath);
+        await storage.deleteObject(storedPath);
         logger.info(`Cleaned up failed upload: ${storedPath}`);
       } catch (cleanupError) {
         logger.error('Failed to clean up after failed asset ingestion:', cleanupError);
@@ -194,31 +302,208 @@ export const AssetController = {
     }
   },
 
+  /**
+   * Record an object that is already stored in MinIO as a new asset
+   * Shared by regular ingest and resumable upload sessions
+   * - Applies the deduplication policy when the content hash is already known
+   * - Creates asset record in the database
+   * - Optionally creates metadata if provided
+   * - Grants the uploading user owner access
+   * - Emits Redis event with asset data
+   * - Enqueues the post-ingest processing jobs
+   * Only throws before the asset record exists, so callers may delete the
+   * stored object when it does
+   * 
+   * @param stored - The stored object and where it came from
+   * @returns The created asset with its metadata
+   */
+  registerStoredAsset: async (stored: {
+    assetUuid: string;
+    importedPath: string;
+    storedPath: string;
+    size: number;
+    hash: string;
+    metaData?: Partial<AssetMetaInput>;
+    user: User;
+    dedupePolicy?: DedupePolicy;
+  }) => {
+    const storage = getStorage();
+    const redisClient = RedisClient.getInstance();
+    const { assetUuid, importedPath, metaData, user } = stored;
+    const dedupePolicy = stored.dedupePolicy || config.assets.dedupePolicy;
+    let storedPath = stored.storedPath;
+    
+    if (dedupePolicy !== 'always') {
+      const existingAsset = await prisma.asset.findFirst({
+        where: { hash: stored.hash, deleted_at: null },
+        include: { meta_base: true },
+        orderBy: { uploaded_at: 'asc' }
+      });
+      
+      if (existingAsset && dedupePolicy === 'reject') {
+        logger.info(`Rejecting duplicate of asset: ${existingAsset.uuid}`, { assetUuid });
+        
+        // Only reveal the existing asset to users who can see it
+        const canView = await AccessController.assertAccess(existingAsset.uuid, user, 'viewer')
+          .then(() => true, () => false);
+        
+        throw new ServerError(
+          'An asset with the same content already exists',
+          409,
+          canView ? existingAsset : undefined
+        );
+      }
+      
+      if (existingAsset && existingAsset.stored_fullpath !== storedPath) {
+        // Link to the existing object and drop the copy that was just uploaded
+        logger.info(`Linking duplicate to stored object of asset: ${existingAsset.uuid}`, { assetUuid });
+        await storage.deleteObject(storedPath);
+        storedPath = existingAsset.stored_fullpath;
+      }
+    }
+    
+    // Generate a presigned URL for accessing the file
+    const storedUrl = await storage.getPresignedUrl(storedPath);
+    
+    // Create the asset record in the database
+    logger.info(`Creating asset record in database: ${assetUuid}`);
+    
+    // Prepare the asset data
+    const assetData: any = {
+      uuid: assetUuid,
+      imported_fullpath: importedPath,
+      imported_filename: path.basename(importedPath),
+      stored_fullpath: storedPath,
+      stored_url: storedUrl,
+      size: stored.size,
+      stored_filename: path.basename(storedPath),
+      extension: path.extname(importedPath).replace('.', ''),
+      hash: stored.hash,
+      access: {
+        create: {
+          role: 'owner',
+          user: { connect: { uuid: user.uuid } }
+        }
+      }
+    };
+    
+    // If complete metadata is provided, include it in the create operation
+    if (isCompleteMetadata(metaData)) {
+      assetData.meta_base = {
+        create: {
+          asset_type: metaData.asset_type,
+          asset_class: metaData.asset_class,
+          asset_location_name: metaData.asset_location_name,
+          asset_camera: metaData.asset_camera,
+          asset_date_label: metaData.asset_date_label,
+          latitude: metaData.latitude,
+          longitude: metaData.longitude,
+          altitude: metaData.altitude,
+          custom: metaData.custom
+        }
+      };
+      
+      const { asset_id, ...historyEntry } = buildMetaHistoryEntry(
+        assetUuid,
+        null,
+        toMetaSnapshot(metaData)!,
+        'create',
+        user.uuid
+      )!;
+      assetData.meta_history = { create: historyEntry };
+    }
+    
+    let asset = await prisma.asset.create({
+      data: assetData,
+      include: {
+        meta_base: true
+      }
+    });
+    
+    // The row is committed from here on, so nothing below may throw: the
+    // caller would delete the object it points at
+    
+    // Templates using {hash} could only place the object once it was hashed,
+    // a linked duplicate already sits where the existing asset was placed.
+    // Relocation is retried in the background when it fails
+    if (PathUtils.needsHash() && isCompleteMetadata(metaData) && storedPath === stored.storedPath) {
+      await relocateWithRetry(assetUuid, user.uuid);
+      try {
+        asset = await prisma.asset.findUniqueOrThrow({
+          where: { uuid: assetUuid },
+          include: { meta_base: true }
+        });
+      } catch (error) {
+        logger.error('Failed to reload relocated asset:', {
+          error: error instanceof Error ? error.message : String(error),
+          assetUuid
+        });
+      }
+    }
+    
+    // Emit a Redis event for the newly ingested asset, a missed event must not undo the ingest
+    logger.info(`Emitting asset_ingested event for: ${assetUuid}`);
+    try {
+      await redisClient.publish('asset_ingested', {
+        asset: {
+          uuid: asset.uuid,
+          filename: asset.imported_filename,
+          url: asset.stored_url,
+          extension: asset.extension,
+          size: asset.size
+        },
+        meta: asset.meta_base
+      });
+    } catch (error) {
+      logger.error('Failed to emit asset_ingested event:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+    }
+    
+    // Processing is retried by the job queue, a failure to enqueue must not undo the ingest
+    try {
+      await enqueuePostIngestJobs(
+        asset,
+        user.uuid,
+        metaData && !isCompleteMetadata(metaData) ? metaData : undefined
+      );
+    } catch (error) {
+      logger.error('Failed to enqueue post-ingest jobs:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+    }
+    
+    logger.info(`Asset ingestion completed successfully: ${assetUuid}`);
+    
+    return asset;
+  },
+
   /**
    * Upsert metadata for an asset
    * Create metadata if it doesn't exist, or update it if it does
+   * Custom values are validated against the schema of asset_type, they are
+   * kept when not given unless the asset_type changes. The change is
+   * recorded in the asset's metadata history and the stored object is moved
+   * to the path the new metadata implies.
    * 
    * @param assetUuid - UUID of the asset
    * @param metaData - Metadata to upsert
+   * @param user - The acting user, needs editor access
    * @returns The updated asset with its metadata
    */
   upsertMetadata: async (
     assetUuid: string,
-    metaData: {
-      asset_type: string;
-      asset_class: string;
-      asset_location_name: string;
-      asset_camera: string;
-      asset_date_label: string;
-    }
+    metaData: AssetMetaInput,
+    user: User
   ) => {
     logger.info(`Upserting metadata for asset: ${assetUuid}`);
     
     try {
       // 1. Check if the asset exists
       const existingAsset = await prisma.asset.findUnique({
-        where: { uuid: assetUuid },
-        include: { meta_base: true }
+        where: { uuid: assetUuid }
       });
       
       if (!existingAsset) {
@@ -226,32 +511,33 @@ export const AssetController = {
         throw new ServerError('Asset not found', 404);
       }
       
-      // 2. Upsert the metadata
-      // If the asset already has metadata, update it. Otherwise, create new metadata.
-      const metaBase = await prisma.assetMetaBase.upsert({
-        where: {
-          asset_id: assetUuid
-        },
-        update: {
-          asset_type: metaData.asset_type,
-          asset_class: metaData.asset_class,
-          asset_location_name: metaData.asset_location_name,
-          asset_camera: metaData.asset_camera,
-          asset_date_label: metaData.asset_date_label
-        },
-        create: {
-          asset_type: metaData.asset_type,
-          asset_class: metaData.asset_class,
-          asset_location_name: metaData.asset_location_name,
-          asset_camera: metaData.asset_camera,
-          asset_date_label: metaData.asset_date_label,
-          asset: {
-            connect: {
-              uuid: assetUuid
-            }
-          }
-        }
-      });
+      await AccessController.assertAccess(assetUuid, user, 'editor');
+      
+      const normalized = await VocabularyController.normalizeMetadata(metaData);
+      
+      // 2. Upsert the metadata and record the change
+      // A position that isn't given is left unchanged
+      await writeMetadata(assetUuid, async (before) => {
+        const keepsCustom = normalized.custom === undefined && before?.asset_type === normalized.asset_type;
+        const custom = keepsCustom
+          ? before?.custom
+          : await MetadataSchemaController.validateCustom(normalized.asset_type, normalized.custom);
+        
+        return {
+          asset_type: normalized.asset_type,
+          asset_class: normalized.asset_class,
+          asset_location_name: normalized.asset_location_name,
+          asset_camera: normalized.asset_camera,
+          asset_date_label: normalized.asset_date_label,
+          latitude: normalized.latitude ?? before?.latitude ?? null,
+          longitude: normalized.longitude ?? before?.longitude ?? null,
+          altitude: normalized.altitude ?? before?.altitude ?? null,
+          custom: custom ?? null
+        };
+      }, user);
+      
+      // Keep the object under the path the new metadata implies
+      await relocateWithRetry(assetUuid, user.uuid);
       
       logger.info(`Metadata upserted successfully for asset: ${assetUuid}`);
       
@@ -274,5 +560,615 @@ export const AssetController = {
       
       throw new ServerError('Failed to upsert metadata', 500);
     }
+  },
+
+  /**
+   * Partially update the metadata of an asset
+   * Only the given fields change, null clears the position or altitude. An
+   * asset without metadata needs every base field. Custom values are merged
+   * into the stored ones and validated together, a changed asset_type starts
+   * from no custom values. The change is recorded in the metadata history
+   * and the stored object is moved to match.
+   * 
+   * @param assetUuid - UUID of the asset
+   * @param patch - The fields to change
+   * @param user - The acting user, needs editor access
+   * @returns The updated asset with its metadata
+   */
+  patchMetadata: async (
+    assetUuid: string,
+    patch: AssetMetaPatch,
+    user: User
+  ) => {
+    logger.info(`Patching metadata for asset: ${assetUuid}`);
+    
+    try {
+      const existingAsset = await prisma.asset.findUnique({
+        where: { uuid: assetUuid }
+      });
+      
+      if (!existingAsset) {
+        logger.error(`Asset not found: ${assetUuid}`);
+        throw new ServerError('Asset not found', 404);
+      }
+      
+      await AccessController.assertAccess(assetUuid, user, 'editor');
+      
+      // Only the given values are checked, stored ones may predate the vocabulary
+      patch = await VocabularyController.normalizeMetadata(patch);
+      
+      await writeMetadata(assetUuid, async (before) => {
+        const base: Partial<AssetMetaInput> = {};
+        for (const field of META_FIELDS) {
+          const value = patch[field] ?? before?.[field];
+          if (value) {
+            base[field] = value;
+          }
+        }
+        
+        if (!isCompleteMetadata(base)) {
+          const missingFields = META_FIELDS.filter((field) => !base[field]);
+          throw new ServerError(`Missing required metadata fields: ${missingFields.join(', ')}`, 400);
+        }
+        
+        const after: MetaSnapshot = {
+          ...base,
+          latitude: before?.latitude ?? null,
+          longitude: before?.longitude ?? null,
+          altitude: before?.altitude ?? null,
+          custom: before?.custom ?? null
+        };
+        
+        // latitude and longitude are set or cleared together
+        if (patch.latitude === null || patch.longitude === null) {
+          if (patch.latitude !== null || patch.longitude !== null) {
+            throw new ServerError('latitude and longitude must be cleared together', 400);
+          }
+          after.latitude = null;
+          after.longitude = null;
+        } else if (patch.latitude !== undefined || patch.longitude !== undefined) {
+          const position = parseCoordinates({ latitude: patch.latitude, longitude: patch.longitude });
+          after.latitude = position.latitude!;
+          after.longitude = position.longitude!;
+        }
+        
+        if (patch.altitude !== undefined) {
+          after.altitude = patch.altitude;
+        }
+        
+        const typeChanged = !!before && before.asset_type !== after.asset_type;
+        if (patch.custom !== undefined || typeChanged) {
+          const merged = Object.fromEntries(
+            Object.entries({ ...(typeChanged ? {} : before?.custom), ...patch.custom })
+              .filter(([, value]) => value !== null)
+          );
+          after.custom = await MetadataSchemaController.validateCustom(after.asset_type, merged) ?? null;
+        }
+        
+        return after;
+      }, user);
+      
+      // Keep the object under the path the new metadata implies
+      await relocateWithRetry(assetUuid, user.uuid);
+      
+      logger.info(`Metadata patched successfully for asset: ${assetUuid}`);
+      
+      return await prisma.asset.findUnique({
+        where: { uuid: assetUuid },
+        include: { meta_base: true }
+      });
+    } catch (error) {
+      logger.error('Metadata patch failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+      
+      if (error instanceof ServerError) {
+        throw error;
+      }
+      
+      throw new ServerError('Failed to update metadata', 500);
+    }
+  },
+
+  /**
+   * Replace merged vocabulary values in the base metadata of an asset
+   * Takes the same locked write as patchMetadata, so the value is only
+   * replaced when the stored one is still one of the merged values and the
+   * history records what was actually replaced. The stored object is moved
+   * to match. Callers check that the user may change the asset.
+   * 
+   * @param assetUuid - UUID of the asset
+   * @param field - The vocabulary field
+   * @param values - The merged values
+   * @param name - The name they were merged into
+   * @param user - The acting user, recorded in the history
+   * @returns Whether the metadata changed
+   */
+  replaceVocabularyValue: async (
+    assetUuid: string,
+    field: VocabularyField,
+    values: string[],
+    name: string,
+    user: User
+  ): Promise<boolean> => {
+    const replaced = await writeMetadata(assetUuid, (before) => {
+      if (!before || !values.includes(before[field])) {
+        return null;
+      }
+      return { ...before, [field]: name };
+    }, user);
+    
+    if (replaced) {
+      await relocateWithRetry(assetUuid, user.uuid);
+    }
+    
+    return replaced;
+  },
+
+  /**
+   * List the metadata changes of an asset
+   * 
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user, needs viewer access
+   * @returns The changes, newest first, with the acting user
+   */
+  listMetadataHistory: async (assetUuid: string, user: User) => {
+    await AccessController.assertAccess(assetUuid, user, 'viewer');
+    
+    try {
+      return await prisma.assetMetaHistory.findMany({
+        where: { asset_id: assetUuid },
+        include: {
+          actor: {
+            select: { uuid: true, email: true, name: true }
+          }
+        },
+        orderBy: { changed_at: 'desc' }
+      });
+    } catch (error) {
+      logger.error('Listing metadata history failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+      
+      throw new ServerError('Failed to list metadata history', 500);
+    }
+  },
+
+  /**
+   * Restore the metadata of an asset to what it was after a past change
+   * The values are restored as recorded, custom values aren't revalidated
+   * against a schema that changed since. The revert is itself recorded and
+   * the stored object is moved back to match.
+   * 
+   * @param assetUuid - UUID of the asset
+   * @param historyId - ID of the history entry to go back to
+   * @param user - The acting user, needs editor access
+   * @returns The updated asset with its metadata
+   */
+  revertMetadata: async (assetUuid: string, historyId: string, user: User) => {
+    logger.info(`Reverting metadata of asset: ${assetUuid}`, { historyId });
+    
+    try {
+      const existingAsset = await prisma.asset.findUnique({
+        where: { uuid: assetUuid }
+      });
+      
+      if (!existingAsset) {
+        logger.error(`Asset not found: ${assetUuid}`);
+        throw new ServerError('Asset not found', 404);
+      }
+      
+      await AccessController.assertAccess(assetUuid, user, 'editor');
+      
+      const entry = await prisma.assetMetaHistory.findFirst({
+        where: { id: historyId, asset_id: assetUuid }
+      });
+      
+      if (!entry) {
+        throw new ServerError('Metadata history entry not found', 404);
+      }
+      
+      await writeMetadata(assetUuid, () => entry.new_value as unknown as MetaSnapshot, user, {
+        action: 'revert',
+        revertedFrom: entry.id
+      });
+      
+      // Keep the object under the path the new metadata implies
+      await relocateWithRetry(assetUuid, user.uuid);
+      
+      logger.info(`Metadata reverted successfully for asset: ${assetUuid}`, { historyId });
+      
+      return await prisma.asset.findUnique({
+        where: { uuid: assetUuid },
+        include: { meta_base: true }
+      });
+    } catch (error) {
+      logger.error('Metadata revert failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid,
+        historyId
+      });
+      
+      if (error instanceof ServerError) {
+        throw error;
+      }
+      
+      throw new ServerError('Failed to revert metadata', 500);
+    }
+  },
+
+  /**
+   * Get a single asset by UUID
+   * The stored presigned URL expires after 24 hours, so a fresh one is
+   * generated from MinIO on every read
+   * 
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user, needs viewer access
+   * @returns The asset with its metadata and a fresh stored_url
+   */
+  getAssetById: async (assetUuid: string, user: User) => {
+    const storage = getStorage();
+    
+    logger.info(`Getting asset: ${assetUuid}`);
+    
+    try {
+      const asset = await prisma.asset.findFirst({
+        where: { uuid: assetUuid, deleted_at: null },
+        include: {
+          meta_base: true,
+          meta_technical: true,
+          meta_video: true,
+          renditions: true,
+          tags: TAG_NAMES_INCLUDE
+        }
+      });
+      
+      if (!asset) {
+        logger.error(`Asset not found: ${assetUuid}`);
+        throw new ServerError('Asset not found', 404);
+      }
+      
+      await AccessController.assertAccess(assetUuid, user, 'viewer');
+      
+      const storedUrl = await storage.getPresignedUrl(asset.stored_fullpath);
+      
+      return {
+        ...asset,
+        tags: toTagNames(asset.tags),
+        stored_url: storedUrl
+      };
+    } catch (error) {
+      logger.error('Asset retrieval failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+      
+      if (error instanceof ServerError) {
+        throw error;
+      }
+      
+      throw new ServerError('Failed to get asset', 500);
+    }
+  },
+
+  /**
+   * List assets with optional filtering and cursor pagination
+   * Results are ordered by upload time (newest first) with the UUID as a
+   * tie-breaker so pages stay stable while new assets are ingested
+   * 
+   * @param filters - Metadata, extension, size, upload date and area filters
+   * @param user - The acting user, only assets they can view are listed
+   * @returns A page of assets, the total matching count and the next cursor
+   */
+  listAssets: async (filters: AssetListFilters, user: User) => {
+    const storage = getStorage();
+    const limit = Math.min(filters.limit || DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+    
+    logger.info('Listing assets', { filters });
+    
+    try {
+      // The filters, the area ones included, and the limit are applied by the database
+      const [ids, total] = await Promise.all([
+        // Fetch one extra record to know if there is a next page
+        findFilteredAssetIds(filters, user, { limit: limit + 1, cursor: filters.cursor }),
+        countFilteredAssets(filters, user)
+      ]);
+      
+      const hasMore = ids.length > limit;
+      const pageIds = hasMore ? ids.slice(0, limit) : ids;
+      
+      const rows = await prisma.asset.findMany({
+        where: { uuid: { in: pageIds } },
+        include: {
+          meta_base: true,
+          meta_technical: true,
+          meta_video: true,
+          tags: TAG_NAMES_INCLUDE
+        }
+      });
+      const rowsByUuid = new Map(rows.map((row) => [row.uuid, row]));
+      
+      // Keep the page order, an asset purged in between is skipped
+      const page = pageIds.filter((id) => rowsByUuid.has(id)).map((id) => rowsByUuid.get(id)!);
+      
+      // Stored URLs expire, so refresh them the same way getAssetById does
+      const items = await Promise.all(page.map(async (asset) => ({
+        ...asset,
+        tags: toTagNames(asset.tags),
+        stored_url: await storage.getPresignedUrl(asset.stored_fullpath)
+      })));
+      
+      const result: AssetListResult<typeof items[number]> = {
+        items,
+        total,
+        next_cursor: hasMore ? pageIds[pageIds.length - 1] : null
+      };
+      
+      return result;
+    } catch (error) {
+      logger.error('Asset listing failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filters
+      });
+      
+      if (error instanceof ServerError) {
+        throw error;
+      }
+      
+      throw new ServerError('Failed to list assets', 500);
+    }
+  },
+
+  /**
+   * Report groups of assets sharing the same content hash
+   * Groups are ordered by size, the ones with the most copies first
+   * 
+   * @param user - The acting user, only assets they can view are reported
+   * @param limit - Maximum number of groups to return
+   * @returns Duplicate groups with their assets and the storage they waste
+   */
+  findDuplicates: async (user: User, limit: number = DEFAULT_LIST_LIMIT) => {
+    logger.info('Finding duplicate assets');
+    
+    try {
+      const where: Prisma.AssetWhereInput = {
+        AND: [
+          { deleted_at: null, hash: { not: null } },
+          AccessController.accessibleAssetsWhere(user)
+        ]
+      };
+      
+      const groups = await prisma.asset.groupBy({
+        by: ['hash'],
+        where,
+        _count: { _all: true },
+        having: {
+          hash: { _count: { gt: 1 } }
+        },
+        orderBy: {
+          _count: { hash: 'desc' }
+        },
+        take: Math.min(limit, MAX_LIST_LIMIT)
+      });
+      
+      const hashes = groups.map((group) => group.hash as string);
+      const assets = await prisma.asset.findMany({
+        where: {
+          AND: [where, { hash: { in: hashes } }]
+        },
+        include: { meta_base: true },
+        orderBy: { uploaded_at: 'asc' }
+      });
+      
+      return groups.map((group) => {
+        const groupAssets = assets.filter((asset) => asset.hash === group.hash);
+        const storedObjects = new Set(groupAssets.map((asset) => asset.stored_fullpath));
+        
+        return {
+          hash: group.hash,
+          count: group._count._all,
+          stored_objects: storedObjects.size,
+          // Every stored copy beyond the first one is wasted space
+          wasted_bytes: Number(groupAssets[0]?.size || 0) * Math.max(storedObjects.size - 1, 0),
+          assets: groupAssets
+        };
+      });
+    } catch (error) {
+      logger.error('Duplicate search failed:', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      
+      if (error instanceof ServerError) {
+        throw error;
+      }
+      
+      throw new ServerError('Failed to find duplicate assets', 500);
+    }
+  },
+
+  /**
+   * Delete an asset
+   * - By default the asset is moved to the trash and can be restored within
+   *   the configured retention window
+   * - A permanent delete removes the stored object, the metadata row and
+   *   the asset row together
+   * - Emits an asset_deleted Redis event
+   * 
+   * @param assetUuid - UUID of the asset
+   * @param options - Set permanent to skip the trash
+   * @param user - The acting user, needs owner access
+   * @returns The trashed asset, or null if it was permanently deleted
+   */
+  deleteAsset: async (
+    assetUuid: string,
+    options: { permanent?: boolean },
+    user: User
+  ) => {
+    const redisClient = RedisClient.getInstance();
+    const permanent = options.permanent || false;
+    
+    logger.info(`Deleting asset: ${assetUuid}`, { permanent });
+    
+    try {
+      const existingAsset = await prisma.asset.findUnique({
+        where: { uuid: assetUuid }
+      });
+      
+      if (!existingAsset) {
+        logger.error(`Asset not found: ${assetUuid}`);
+        throw new ServerError('Asset not found', 404);
+      }
+      
+      await AccessController.assertAccess(assetUuid, user, 'owner');
+      
+      let trashedAsset = null;
+      
+      if (permanent) {
+        await purgeAsset(existingAsset);
+      } else {
+        if (existingAsset.deleted_at) {
+          throw new ServerError('Asset is already in the trash', 409);
+        }
+        
+        trashedAsset = await prisma.asset.update({
+          where: { uuid: assetUuid },
+          data: { deleted_at: new Date() },
+          include: { meta_base: true }
+        });
+      }
+      
+      logger.info(`Emitting asset_deleted event for: ${assetUuid}`);
+      await redisClient.publish('asset_deleted', {
+        asset: {
+          uuid: existingAsset.uuid,
+          filename: existingAsset.imported_filename,
+          stored_fullpath: existingAsset.stored_fullpath
+        },
+        permanent
+      });
+      
+      logger.info(`Asset deleted successfully: ${assetUuid}`, { permanent });
+      
+      return trashedAsset;
+    } catch (error) {
+      logger.error('Asset deletion failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+      
+      if (error instanceof ServerError) {
+        throw error;
+      }
+      
+      throw new ServerError('Failed to delete asset', 500);
+    }
+  },
+
+  /**
+   * Restore an asset from the trash
+   * Only possible while the asset is still within the retention window
+   * 
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user, needs owner access
+   * @returns The restored asset with its metadata
+   */
+  restoreAsset: async (assetUuid: string, user: User) => {
+    const redisClient = RedisClient.getInstance();
+    
+    logger.info(`Restoring asset: ${assetUuid}`);
+    
+    try {
+      const existingAsset = await prisma.asset.findUnique({
+        where: { uuid: assetUuid }
+      });
+      
+      if (!existingAsset) {
+        logger.error(`Asset not found: ${assetUuid}`);
+        throw new ServerError('Asset not found', 404);
+      }
+      
+      await AccessController.assertAccess(assetUuid, user, 'owner');
+      
+      if (!existingAsset.deleted_at) {
+        throw new ServerError('Asset is not in the trash', 409);
+      }
+      
+      if (existingAsset.deleted_at < getTrashCutoff()) {
+        throw new ServerError('Asset retention window has expired', 410);
+      }
+      
+      const asset = await prisma.asset.update({
+        where: { uuid: assetUuid },
+        data: { deleted_at: null },
+        include: { meta_base: true }
+      });
+      
+      await redisClient.publish('asset_restored', {
+        asset: {
+          uuid: asset.uuid,
+          filename: asset.imported_filename
+        }
+      });
+      
+      logger.info(`Asset restored successfully: ${assetUuid}`);
+      
+      return asset;
+    } catch (error) {
+      logger.error('Asset restore failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+      
+      if (error instanceof ServerError) {
+        throw error;
+      }
+      
+      throw new ServerError('Failed to restore asset', 500);
+    }
+  },
+
+  /**
+   * Permanently delete every trashed asset past the retention window
+   * 
+   * @returns The number of purged assets
+   */
+  purgeExpiredTrash: async () => {
+    const redisClient = RedisClient.getInstance();
+    
+    const expiredAssets = await prisma.asset.findMany({
+      where: {
+        deleted_at: { lt: getTrashCutoff() }
+      }
+    });
+    
+    let purged = 0;
+    
+    for (const asset of expiredAssets) {
+      try {
+        await purgeAsset(asset);
+        await redisClient.publish('asset_deleted', {
+          asset: {
+            uuid: asset.uuid,
+            filename: asset.imported_filename,
+            stored_fullpath: asset.stored_fullpath
+          },
+          permanent: true
+        });
+        purged++;
+      } catch (error) {
+        // Keep going, the asset will be retried on the next purge
+        logger.error(`Failed to purge expired asset: ${asset.uuid}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    
+    if (purged > 0) {
+      logger.info(`Purged ${purged} expired assets from the trash`);
+    }
+    
+    return purged;
   }
 };
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { User } from '@prisma/client';
+import crypto from 'crypto';
+import { prisma } from '../clients/prisma';
+import { RedisClient } from '../clients/redis';
+import { ServerError } from '../core/errors';
+import logger from '../logger';
+
+// Sessions are stored in Redis as session:<id> -> user uuid
+const SESSION_KEY_PREFIX = 'session:';
+
+/**
+ * Claims carried by session and API tokens
+ */
+export interface SessionClaims {
+  sub?: string;
+  sid?: string | number;
+}
+
+/**
+ * Controller for logging users in and out
+ * Token signing happens in the routes through the JWT plugin, this
+ * controller owns passwords and the server-side session records
+ */
+export const AuthController = {
+  /**
+   * Check a user's credentials
+   *
+   * @param email - Email address
+   * @param password - Plain text password
+   * @returns The authenticated user
+   */
+  verifyCredentials: async (email: string, password: string) => {
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() }
+    });
+
+    // Same error for unknown users and wrong passwords
+    if (!user || !user.password_hash || !(await Bun.password.verify(password, user.password_hash))) {
+      logger.warn(`Failed login attempt for: ${email}`);
+      throw new ServerError('Invalid email or password', 401);
+    }
+
+    return user;
+  },
+
+  /**
+   * Create a server-side session so tokens can be revoked before they expire
+   *
+   * @param user - The user the session belongs to
+   * @param ttl - Lifetime of the session in seconds
+   * @returns The session id and its expiry date
+   */
+  createSession: async (user: User, ttl: number) => {
+    const redisClient = RedisClient.getInstance();
+    const sessionId = crypto.randomUUID();
+
+    await redisClient.set(`${SESSION_KEY_PREFIX}${sessionId}`, user.uuid, ttl);
+
+    logger.info(`Created session for user: ${user.uuid}`);
+
+    return {
+      session_id: sessionId,
+      expires_at: new Date(Date.now() + ttl * 1000)
+    };
+  },
+
+  /**
+   * Resolve the user behind verified token claims
+   *
+   * @param claims - Claims of a verified token
+   * @returns The user and session id, or null if the session is gone
+   */
+  resolveSession: async (claims: SessionClaims) => {
+    if (!claims.sub || !claims.sid) {
+      return null;
+    }
+
+    const redisClient = RedisClient.getInstance();
+    const sessionId = String(claims.sid);
+
+    const sessionUser = await redisClient.get(`${SESSION_KEY_PREFIX}${sessionId}`);
+    if (sessionUser !== claims.sub) {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { uuid: claims.sub }
+    });
+    if (!user) {
+      return null;
+    }
+
+    return { user, sessionId };
+  },
+
+  /**
+   * Revoke a session
+   *
+   * @param sessionId - The session to revoke
+   */
+  destroySession: async (sessionId: string) => {
+    const redisClient = RedisClient.getInstance();
+
+    await redisClient.delete(`${SESSION_KEY_PREFIX}${sessionId}`);
+
+    logger.info(`Destroyed session: ${sessionId}`);
+  }
+};
@@ -0,0 +1,267 @@
+import { User } from '@prisma/client';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { ServerError } from '../core/errors';
+import { parseCoordinates } from '../core/geo';
+import { Manifest, lookupManifest, normalizeManifestPath, parseManifest } from '../core/manifest';
+import { SpooledFile, SpooledUpload } from '../core/multipart';
+import { ZipArchive } from '../core/zip_utils';
+import logger from '../logger';
+import { AssetMetaInput, BulkIngestItemResult, BulkIngestReport } from '../types/asset';
+import { DedupePolicy } from '../types/config';
+import { AssetController, META_FIELDS } from './asset.controller';
+import { VocabularyController } from './vocabulary.controller';
+
+// Files inside an archive that are read as the manifest instead of being ingested
+const MANIFEST_FILENAMES = ['manifest.json', 'manifest.csv'];
+
+// Fields a manifest may leave out, they are read from the file's EXIF data
+const EXTRACTED_FIELDS: (typeof META_FIELDS[number])[] = ['asset_camera', 'asset_date_label'];
+
+// Manifest columns named custom.<field> hold custom metadata
+const CUSTOM_PREFIX = 'custom.';
+
+// Archive entries carry no content type, so guess it for the common camera formats
+// (also used for uploads sent as application/octet-stream)
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.dng': 'image/x-adobe-dng',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.srt': 'application/x-subrip',
+  '.json': 'application/json',
+  '.csv': 'text/csv'
+};
+
+interface BulkSource {
+  // Path inside the archive or upload, stored as imported_fullpath
+  path: string;
+  contentType: string;
+  open: () => Promise<Readable>;
+}
+
+const guessContentType = (filename: string): string => {
+  return CONTENT_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+};
+
+const isZip = (file: SpooledFile): boolean => {
+  return path.extname(file.filename).toLowerCase() === '.zip' ||
+    file.mimeType === 'application/zip' ||
+    file.mimeType === 'application/x-zip-compressed';
+};
+
+const isManifestName = (filePath: string): boolean => {
+  return MANIFEST_FILENAMES.includes(path.posix.basename(normalizeManifestPath(filePath)));
+};
+
+/**
+ * Clean up a client supplied path, dropping drive letters and parent references
+ */
+const toImportedPath = (filePath: string): string => {
+  return filePath
+    .replace(/\\/g, '/')
+    .replace(/^[a-zA-Z]:/, '')
+    .split('/')
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+    .join('/');
+};
+
+/**
+ * Turn a manifest row into ingest metadata
+ * Only the fields that can be extracted from the file may be left out,
+ * latitude / longitude / altitude and custom.<field> columns are optional
+ */
+const toMetadata = (row: Record<string, string>): Partial<AssetMetaInput> => {
+  const missingFields = META_FIELDS.filter((field) => !row[field] && !EXTRACTED_FIELDS.includes(field));
+  if (missingFields.length > 0) {
+    throw new ServerError(`Manifest entry is missing fields: ${missingFields.join(', ')}`, 400);
+  }
+
+  const metadata: Partial<AssetMetaInput> = parseCoordinates(row);
+  for (const field of META_FIELDS) {
+    if (row[field]) {
+      metadata[field] = row[field];
+    }
+  }
+
+  // Values are strings here, ingest coerces them to the schema's field types
+  const custom = Object.fromEntries(
+    Object.entries(row)
+      .filter(([column]) => column.startsWith(CUSTOM_PREFIX))
+      .map(([column, value]) => [column.slice(CUSTOM_PREFIX.length), value])
+  );
+  if (Object.keys(custom).length > 0) {
+    metadata.custom = custom;
+  }
+
+  return metadata;
+};
+
+/**
+ * Run every source through the regular ingest one after the other
+ * A failing file is recorded in the report and doesn't stop the others
+ */
+const ingestSources = async (
+  sources: BulkSource[],
+  manifest: Manifest,
+  user: User,
+  dedupePolicy?: DedupePolicy
+): Promise<BulkIngestReport> => {
+  const items: BulkIngestItemResult[] = [];
+  const matchedRows = new Set<string>();
+  // Read once, every file of the batch is normalized against the same vocabularies
+  const vocabularies = await VocabularyController.loadIndexes();
+
+  for (const source of sources) {
+    try {
+      const match = lookupManifest(manifest, source.path);
+      if (match) {
+        matchedRows.add(match[0]);
+      }
+
+      const metadata = match ? toMetadata(match[1]) : undefined;
+      const stream = await source.open();
+
+      const asset = await AssetController.ingestAsset(
+        {
+          stream,
+          filename: path.posix.basename(source.path),
+          importedPath: source.path,
+          contentType: source.contentType
+        },
+        metadata,
+        user,
+        { dedupePolicy, vocabularies }
+      );
+
+      items.push({ path: source.path, success: true, asset_uuid: asset.uuid });
+    } catch (error) {
+      items.push({
+        path: source.path,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        status: error instanceof ServerError ? error.statusCode : 500
+      });
+    }
+  }
+
+  const succeeded = items.filter((item) => item.success).length;
+
+  return {
+    total: items.length,
+    succeeded,
+    failed: items.length - succeeded,
+    items,
+    unmatched_manifest_entries: [...manifest.keys()].filter((key) => !matchedRows.has(key))
+  };
+};
+
+/**
+ * Controller for ingesting many files at once
+ */
+export const BulkController = {
+  /**
+   * Ingest every file of a spooled bulk upload
+   *
+   * Zip files are expanded and each entry is ingested with its path inside
+   * the archive as imported_fullpath, other files are ingested as they are.
+   * Metadata comes from a manifest, either the `manifest` form field (file or
+   * text) or a manifest.json / manifest.csv inside the archive.
+   *
+   * @param upload - The spooled upload, its files must stay on disk until this returns
+   * @param user - The uploading user
+   * @param options - Deduplication policy applied to every file
+   * @returns A per-file success / failure report
+   */
+  ingestUpload: async (
+    upload: SpooledUpload,
+    user: User,
+    options: { dedupePolicy?: DedupePolicy } = {}
+  ): Promise<BulkIngestReport> => {
+    const archives: ZipArchive[] = [];
+
+    try {
+      const manifestFile = upload.files.find((file) => file.field === 'manifest');
+      const contentFiles = upload.files.filter((file) => file !== manifestFile);
+
+      if (contentFiles.length === 0) {
+        throw new ServerError('No files provided', 400);
+      }
+
+      let manifestText: string | undefined = upload.fields.manifest;
+      let manifestName: string | undefined;
+      if (manifestFile) {
+        manifestText = await fs.promises.readFile(manifestFile.path, 'utf8');
+        manifestName = manifestFile.filename;
+      }
+
+      const sources: BulkSource[] = [];
+
+      for (const file of contentFiles) {
+        if (!isZip(file)) {
+          sources.push({
+            path: toImportedPath(file.filename) || path.basename(file.path),
+            contentType: file.mimeType === 'application/octet-stream'
+              ? guessContentType(file.filename)
+              : file.mimeType,
+            open: async () => fs.createReadStream(file.path)
+          });
+          continue;
+        }
+
+        const archive = await ZipArchive.open(file.path);
+        archives.push(archive);
+
+        for (const entry of archive.files()) {
+          // A manifest inside the archive is only used when none was sent alongside
+          if (isManifestName(entry.fileName)) {
+            if (manifestText === undefined) {
+              manifestText = await archive.readEntryText(entry);
+              manifestName = entry.fileName;
+            }
+            continue;
+          }
+
+          sources.push({
+            path: toImportedPath(entry.fileName),
+            contentType: guessContentType(entry.fileName),
+            open: () => archive.openEntry(entry)
+          });
+        }
+      }
+
+      const manifest = manifestText ? parseManifest(manifestText, manifestName) : new Map();
+
+      logger.info(`Starting bulk ingest of ${sources.length} files`, {
+        manifestRows: manifest.size
+      });
+
+      const report = await ingestSources(sources, manifest, user, options.dedupePolicy);
+
+      logger.info('Bulk ingest finished', {
+        total: report.total,
+        succeeded: report.succeeded,
+        failed: report.failed
+      });
+
+      return report;
+    } catch (error) {
+      logger.error('Bulk ingest failed:', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to ingest files', 500);
+    } finally {
+      archives.forEach((archive) => archive.close());
+    }
+  }
+};
@@ -0,0 +1,445 @@
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { ServerError } from '../core/errors';
+import logger from '../logger';
+import { CollectionInput, CollectionItemsResult, CollectionPatch } from '../types/collection';
+import { AccessController } from './access.controller';
+
+// Most assets added to or removed from a collection in one request
+export const MAX_COLLECTION_BATCH = 1000;
+
+/**
+ * Assets of a collection the user is shown, trashed ones stay in but are hidden
+ */
+const visibleAssetsWhere = (user: User): Prisma.AssetWhereInput => ({
+  deleted_at: null,
+  ...AccessController.accessibleAssetsWhere(user)
+});
+
+/**
+ * Find a collection, readable by every user
+ */
+const findCollection = async (collectionId: string) => {
+  const collection = await prisma.collection.findUnique({
+    where: { id: collectionId }
+  });
+
+  if (!collection) {
+    throw new ServerError('Collection not found', 404);
+  }
+
+  return collection;
+};
+
+/**
+ * Find a collection the user may change, only its owner and admins can
+ */
+const findEditableCollection = async (collectionId: string, user: User) => {
+  const collection = await findCollection(collectionId);
+
+  if (!user.is_admin && collection.owner_id !== user.uuid) {
+    throw new ServerError('Only the owner of a collection can change it', 403);
+  }
+
+  return collection;
+};
+
+const checkBatch = (assetUuids: string[]) => {
+  if (assetUuids.length === 0) {
+    throw new ServerError('asset_uuids must not be empty', 400);
+  }
+
+  if (assetUuids.length > MAX_COLLECTION_BATCH) {
+    throw new ServerError(`At most ${MAX_COLLECTION_BATCH} assets can be changed at once`, 400);
+  }
+};
+
+/**
+ * Controller for named collections of assets
+ */
+export const CollectionController = {
+  /**
+   * List every collection with the number of its assets the user can view
+   */
+  listCollections: async (user: User) => {
+    return prisma.collection.findMany({
+      include: {
+        owner: {
+          select: { uuid: true, email: true, name: true }
+        },
+        _count: {
+          select: {
+            items: { where: { asset: visibleAssetsWhere(user) } }
+          }
+        }
+      },
+      orderBy: [
+        { name: 'asc' },
+        { id: 'asc' }
+      ]
+    });
+  },
+
+  /**
+   * Get a collection with the assets the user can view, in collection order
+   *
+   * @param collectionId - ID of the collection
+   * @param user - The acting user
+   * @returns The collection with its items and their base metadata
+   */
+  getCollection: async (collectionId: string, user: User) => {
+    const collection = await prisma.collection.findUnique({
+      where: { id: collectionId },
+      include: {
+        owner: {
+          select: { uuid: true, email: true, name: true }
+        },
+        items: {
+          where: { asset: visibleAssetsWhere(user) },
+          include: {
+            asset: {
+              include: { meta_base: true }
+            }
+          },
+          orderBy: [
+            { position: 'asc' },
+            { added_at: 'asc' }
+          ]
+        }
+      }
+    });
+
+    if (!collection) {
+      throw new ServerError('Collection not found', 404);
+    }
+
+    return collection;
+  },
+
+  /**
+   * Create an empty collection owned by the acting user
+   *
+   * @param data - Name and optional description
+   * @param user - The acting user
+   * @returns The created collection
+   */
+  createCollection: async (data: CollectionInput, user: User) => {
+    logger.info(`Creating collection: ${data.name}`);
+
+    try {
+      if (!data.name.trim()) {
+        throw new ServerError('name must not be empty', 400);
+      }
+
+      return await prisma.collection.create({
+        data: {
+          name: data.name.trim(),
+          description: data.description,
+          owner: { connect: { uuid: user.uuid } }
+        }
+      });
+    } catch (error) {
+      logger.error('Collection creation failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        name: data.name
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to create collection', 500);
+    }
+  },
+
+  /**
+   * Rename a collection, change its description or pick its cover asset
+   *
+   * @param collectionId - ID of the collection
+   * @param patch - Fields to change, null clears description and cover
+   * @param user - The acting user, must own the collection
+   * @returns The updated collection
+   */
+  updateCollection: async (collectionId: string, patch: CollectionPatch, user: User) => {
+    try {
+      await findEditableCollection(collectionId, user);
+
+      if (patch.name !== undefined && !patch.name.trim()) {
+        throw new ServerError('name must not be empty', 400);
+      }
+
+      if (patch.cover_asset_uuid) {
+        const item = await prisma.collectionItem.findUnique({
+          where: {
+            collection_id_asset_id: {
+              collection_id: collectionId,
+              asset_id: patch.cover_asset_uuid
+            }
+          }
+        });
+
+        if (!item) {
+          throw new ServerError('The cover asset must be in the collection', 400);
+        }
+      }
+
+      return await prisma.collection.update({
+        where: { id: collectionId },
+        data: {
+          name: patch.name?.trim(),
+          description: patch.description,
+          cover_asset_id: patch.cover_asset_uuid
+        }
+      });
+    } catch (error) {
+      logger.error('Collection update failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        collectionId
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to update collection', 500);
+    }
+  },
+
+  /**
+   * Delete a collection, its assets are not touched
+   *
+   * @param collectionId - ID of the collection
+   * @param user - The acting user, must own the collection
+   * @returns The deleted collection
+   */
+  deleteCollection: async (collectionId: string, user: User) => {
+    const collection = await findEditableCollection(collectionId, user);
+
+    await prisma.collection.delete({
+      where: { id: collectionId }
+    });
+
+    logger.info(`Collection deleted: ${collectionId}`);
+
+    return collection;
+  },
+
+  /**
+   * Append assets to the end of a collection, in the given order
+   * Every asset must be live and viewable by the user, assets already in
+   * the collection keep their position
+   *
+   * @param collectionId - ID of the collection
+   * @param assetUuids - Assets to add
+   * @param user - The acting user, must own the collection
+   * @returns Which assets were added and which were already in
+   */
+  addAssets: async (
+    collectionId: string,
+    assetUuids: string[],
+    user: User
+  ): Promise<CollectionItemsResult> => {
+    try {
+      checkBatch(assetUuids);
+      await findEditableCollection(collectionId, user);
+
+      const uniqueUuids = [...new Set(assetUuids)];
+      const assets = await prisma.asset.findMany({
+        where: {
+          AND: [
+            { uuid: { in: uniqueUuids } },
+            visibleAssetsWhere(user)
+          ]
+        },
+        select: { uuid: true }
+      });
+
+      // Unknown and inaccessible assets look the same, like everywhere else
+      const found = new Set(assets.map((asset) => asset.uuid));
+      const missing = uniqueUuids.filter((uuid) => !found.has(uuid));
+      if (missing.length > 0) {
+        throw new ServerError(`Assets not found: ${missing.join(', ')}`, 404);
+      }
+
+      return await prisma.$transaction(async (tx) => {
+        const existing = await tx.collectionItem.findMany({
+          where: { collection_id: collectionId, asset_id: { in: uniqueUuids } },
+          select: { asset_id: true }
+        });
+        const existingUuids = new Set(existing.map((item) => item.asset_id));
+        const added = uniqueUuids.filter((uuid) => !existingUuids.has(uuid));
+
+        const last = await tx.collectionItem.aggregate({
+          where: { collection_id: collectionId },
+          _max: { position: true }
+        });
+        const start = (last._max.position ?? -1) + 1;
+
+        await tx.collectionItem.createMany({
+          data: added.map((assetUuid, offset) => ({
+            collection_id: collectionId,
+            asset_id: assetUuid,
+            position: start + offset
+          })),
+          // A concurrent request may have added the same asset
+          skipDuplicates: true
+        });
+
+        await tx.collection.update({
+          where: { id: collectionId },
+          data: { updated_at: new Date() }
+        });
+
+        logger.info(`Added ${added.length} assets to collection: ${collectionId}`);
+
+        return { changed: added, unchanged: [...existingUuids] };
+      });
+    } catch (error) {
+      logger.error('Adding assets to collection failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        collectionId
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to add assets to collection', 500);
+    }
+  },
+
+  /**
+   * Remove assets from a collection, the cover is cleared when it is removed
+   *
+   * @param collectionId - ID of the collection
+   * @param assetUuids - Assets to remove
+   * @param user - The acting user, must own the collection
+   * @returns Which assets were removed and which weren't in the collection
+   */
+  removeAssets: async (
+    collectionId: string,
+    assetUuids: string[],
+    user: User
+  ): Promise<CollectionItemsResult> => {
+    try {
+      checkBatch(assetUuids);
+      const collection = await findEditableCollection(collectionId, user);
+
+      const uniqueUuids = [...new Set(assetUuids)];
+
+      return await prisma.$transaction(async (tx) => {
+        const items = await tx.collectionItem.findMany({
+          where: { collection_id: collectionId, asset_id: { in: uniqueUuids } },
+          select: { asset_id: true }
+        });
+        const removed = items.map((item) => item.asset_id);
+
+        await tx.collectionItem.deleteMany({
+          where: { collection_id: collectionId, asset_id: { in: removed } }
+        });
+
+        const clearsCover = collection.cover_asset_id !== null &&
+          removed.includes(collection.cover_asset_id);
+
+        await tx.collection.update({
+          where: { id: collectionId },
+          data: {
+            updated_at: new Date(),
+            ...(clearsCover ? { cover_asset_id: null } : {})
+          }
+        });
+
+        logger.info(`Removed ${removed.length} assets from collection: ${collectionId}`);
+
+        return {
+          changed: removed,
+          unchanged: uniqueUuids.filter((uuid) => !removed.includes(uuid))
+        };
+      });
+    } catch (error) {
+      logger.error('Removing assets from collection failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        collectionId
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to remove assets from collection', 500);
+    }
+  },
+
+  /**
+   * Reorder a collection
+   * The given assets move to the front in the given order, the others
+   * follow in the order they had, so users who can't see every asset can
+   * still sort the ones they can
+   *
+   * @param collectionId - ID of the collection
+   * @param assetUuids - Assets of the collection in their new order
+   * @param user - The acting user, must own the collection
+   * @returns The collection with its items
+   */
+  reorderAssets: async (collectionId: string, assetUuids: string[], user: User) => {
+    try {
+      checkBatch(assetUuids);
+      await findEditableCollection(collectionId, user);
+
+      await prisma.$transaction(async (tx) => {
+        const items = await tx.collectionItem.findMany({
+          where: { collection_id: collectionId },
+          select: { id: true, asset_id: true, position: true },
+          orderBy: [
+            { position: 'asc' },
+            { added_at: 'asc' }
+          ]
+        });
+
+        const itemUuids = new Set(items.map((item) => item.asset_id));
+        const unknown = assetUuids.filter((uuid) => !itemUuids.has(uuid));
+        if (unknown.length > 0) {
+          throw new ServerError(`Assets not in the collection: ${unknown.join(', ')}`, 400);
+        }
+
+        const rank = new Map([...new Set(assetUuids)].map((uuid, index) => [uuid, index]));
+        const ordered = [
+          ...items.filter((item) => rank.has(item.asset_id))
+            .sort((a, b) => rank.get(a.asset_id)! - rank.get(b.asset_id)!),
+          ...items.filter((item) => !rank.has(item.asset_id))
+        ];
+
+        // Only rows that actually move are written
+        for (const [position, item] of ordered.entries()) {
+          if (item.position === position) {
+            continue;
+          }
+          await tx.collectionItem.update({
+            where: { id: item.id },
+            data: { position }
+          });
+        }
+
+        await tx.collection.update({
+          where: { id: collectionId },
+          data: { updated_at: new Date() }
+        });
+      });
+
+      logger.info(`Reordered collection: ${collectionId}`);
+
+      return await CollectionController.getCollection(collectionId, user);
+    } catch (error) {
+      logger.error('Reordering collection failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        collectionId
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to reorder collection', 500);
+    }
+  }
+};
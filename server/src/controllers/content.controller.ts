@@ -0,0 +1,160 @@
+import { User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
+import { ServerError } from '../core/errors';
+import { contentDisposition, matchesETag, parseRange } from '../core/http_utils';
+import logger from '../logger';
+import { AssetContent, AssetContentRequest } from '../types/asset';
+import { AccessController } from './access.controller';
+
+// Seconds a content redirect stays valid, only long enough to start the download
+const CONTENT_URL_EXPIRY = 300;
+
+/**
+ * Find a live asset the user may view
+ */
+const findViewableAsset = async (assetUuid: string, user: User) => {
+  const asset = await prisma.asset.findFirst({
+    where: { uuid: assetUuid, deleted_at: null },
+    select: { uuid: true, imported_filename: true, stored_fullpath: true, hash: true }
+  });
+
+  if (!asset) {
+    throw new ServerError('Asset not found', 404);
+  }
+
+  await AccessController.assertAccess(assetUuid, user, 'viewer');
+
+  return asset;
+};
+
+/**
+ * Controller for the stored bytes of assets, served through the server so
+ * access grants apply to every read
+ */
+export const ContentController = {
+  /**
+   * Open the content of an asset for streaming
+   *
+   * The ETag is the content hash, so it survives relocation, and falls back
+   * to the object's etag for assets stored before hashing. A matching
+   * If-None-Match gives a 304, a single byte range gives a 206 unless
+   * If-Range names another version, a range past the end gives a 416.
+   *
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user, needs viewer access
+   * @param request - Range and conditional headers and the disposition
+   * @returns Status, headers and the stream to send
+   */
+  openContent: async (
+    assetUuid: string,
+    user: User,
+    request: AssetContentRequest
+  ): Promise<AssetContent> => {
+    const storage = getStorage();
+
+    try {
+      const asset = await findViewableAsset(assetUuid, user);
+      const stat = await storage.statObject(asset.stored_fullpath);
+
+      const etag = `"${asset.hash || stat.etag}"`;
+      const headers: Record<string, string> = {
+        'etag': etag,
+        'last-modified': stat.lastModified.toUTCString(),
+        'accept-ranges': 'bytes',
+        // Responses depend on the user's grants
+        'cache-control': 'private, no-cache'
+      };
+
+      if (matchesETag(request.if_none_match, etag)) {
+        return { status: 304, headers };
+      }
+
+      headers['content-type'] = stat.metaData?.['content-type'] || 'application/octet-stream';
+      headers['content-disposition'] = contentDisposition(asset.imported_filename, request.disposition);
+
+      // A stale If-Range means the client's partial copy is outdated
+      const rangeApplies = !request.if_range || matchesETag(request.if_range, etag);
+      const range = rangeApplies ? parseRange(request.range, stat.size) : undefined;
+
+      if (range === 'unsatisfiable') {
+        return {
+          status: 416,
+          headers: { ...headers, 'content-range': `bytes */${stat.size}` }
+        };
+      }
+
+      if (range) {
+        const length = range.end - range.start + 1;
+
+        return {
+          status: 206,
+          headers: {
+            ...headers,
+            'content-range': `bytes ${range.start}-${range.end}/${stat.size}`,
+            'content-length': String(length)
+          },
+          body: await storage.getPartialObject(asset.stored_fullpath, range.start, length)
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { ...headers, 'content-length': String(stat.size) },
+        body: await storage.getObject(asset.stored_fullpath)
+      };
+    } catch (error) {
+      logger.error('Content retrieval failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      // The record exists but its object is gone
+      if ((error as any)?.code === 'NotFound') {
+        throw new ServerError('Content of asset not found', 404);
+      }
+
+      throw new ServerError('Failed to get content', 500);
+    }
+  },
+
+  /**
+   * Get a short-lived presigned URL for the content of an asset
+   * Access is checked here, the URL only outlives it by CONTENT_URL_EXPIRY
+   *
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user, needs viewer access
+   * @param disposition - Whether the browser should display or save the file
+   * @returns The presigned URL to redirect to
+   */
+  getContentUrl: async (
+    assetUuid: string,
+    user: User,
+    disposition: AssetContentRequest['disposition'] = 'inline'
+  ) => {
+    const storage = getStorage();
+
+    try {
+      const asset = await findViewableAsset(assetUuid, user);
+
+      return await storage.getPresignedUrl(asset.stored_fullpath, CONTENT_URL_EXPIRY, {
+        'response-content-disposition': contentDisposition(asset.imported_filename, disposition)
+      });
+    } catch (error) {
+      logger.error('Content URL generation failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to get content URL', 500);
+    }
+  }
+};
@@ -0,0 +1,388 @@
+import archiver from 'archiver';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
+import { config } from '../config';
+import { buildAssetFilterSql, findFilteredAssetIds } from '../core/asset_filters';
+import { ServerError } from '../core/errors';
+import { contentDisposition } from '../core/http_utils';
+import { PathUtils } from '../core/path_utils';
+import { uploadStream } from '../core/stream_utils';
+import { JobQueue } from '../jobs/queue';
+import logger from '../logger';
+import {
+  AssetExportFilters,
+  ExportAssetsPayload,
+  ExportAssetsResult,
+  ExportManifestRow
+} from '../types/export';
+import { Job } from '../types/job';
+
+export const EXPORT_JOB_TYPE = 'assets.export';
+
+// Background exports are written under this prefix, one zip per job
+const EXPORT_PREFIX = 'exports/';
+// Presigned URLs can't be valid for longer than 7 days
+const MAX_URL_EXPIRY = 7 * 24 * 60 * 60;
+
+const MANIFEST_COLUMNS: (keyof ExportManifestRow)[] = [
+  'file',
+  'uuid',
+  'imported_fullpath',
+  'imported_filename',
+  'stored_fullpath',
+  'stored_filename',
+  'extension',
+  'size',
+  'hash',
+  'uploaded_at',
+  'asset_type',
+  'asset_class',
+  'asset_location_name',
+  'asset_camera',
+  'asset_date_label',
+  'latitude',
+  'longitude',
+  'altitude',
+  'custom'
+];
+
+/**
+ * Find the assets of an export, the same ones listing returns for the filters
+ */
+const findExportAssets = async (filters: AssetExportFilters, user: User) => {
+  // One extra to know the limit was passed
+  const ids = await findFilteredAssetIds(filters, user, { limit: config.exports.maxAssets + 1 });
+
+  if (ids.length > config.exports.maxAssets) {
+    throw new ServerError(`An export can contain at most ${config.exports.maxAssets} assets, narrow the filters`, 400);
+  }
+
+  const rows = await prisma.asset.findMany({
+    where: { uuid: { in: ids } },
+    include: { meta_base: true }
+  });
+  const rowsByUuid = new Map(rows.map((row) => [row.uuid, row]));
+
+  // Same order as the listing, an asset purged in between is skipped
+  return ids.filter((id) => rowsByUuid.has(id)).map((id) => rowsByUuid.get(id)!);
+};
+
+type ExportAsset = Awaited<ReturnType<typeof findExportAssets>>[number];
+
+/**
+ * Name of an asset's file inside the zip, following PathUtils.generateFilename
+ * numbered by its position in the export, or its imported filename when it
+ * has no base metadata. Suffixed when another asset already took the name.
+ */
+const toEntryName = (asset: ExportAsset, position: number, taken: Set<string>): string => {
+  const filename = asset.meta_base
+    ? PathUtils.generateFilename(asset.meta_base, position, asset.extension, { uuid: asset.uuid, hash: asset.hash })
+    : asset.imported_filename.replace(/[\\/]/g, '_');
+  const extension = path.extname(filename);
+  const base = filename.slice(0, filename.length - extension.length);
+
+  let name = `files/${filename}`;
+  for (let suffix = 2; taken.has(name.toLowerCase()); suffix++) {
+    name = `files/${base}-${suffix}${extension}`;
+  }
+
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+const toManifestRow = (asset: ExportAsset, file: string | null): ExportManifestRow => ({
+  file,
+  uuid: asset.uuid,
+  imported_fullpath: asset.imported_fullpath,
+  imported_filename: asset.imported_filename,
+  stored_fullpath: asset.stored_fullpath,
+  stored_filename: asset.stored_filename,
+  extension: asset.extension,
+  // BigInt doesn't survive JSON.stringify
+  size: asset.size.toString(),
+  hash: asset.hash,
+  uploaded_at: asset.uploaded_at.toISOString(),
+  asset_type: asset.meta_base?.asset_type ?? null,
+  asset_class: asset.meta_base?.asset_class ?? null,
+  asset_location_name: asset.meta_base?.asset_location_name ?? null,
+  asset_camera: asset.meta_base?.asset_camera ?? null,
+  asset_date_label: asset.meta_base?.asset_date_label ?? null,
+  latitude: asset.meta_base?.latitude ?? null,
+  longitude: asset.meta_base?.longitude ?? null,
+  altitude: asset.meta_base?.altitude ?? null,
+  custom: (asset.meta_base?.custom as Record<string, unknown> | null) ?? null
+});
+
+/**
+ * Quote a CSV value when needed, text that spreadsheets would run as a
+ * formula is prefixed with a quote
+ */
+const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: ExportManifestRow[]): string => {
+  const lines = rows.map((row) => MANIFEST_COLUMNS.map((column) => toCsvValue(row[column])).join(','));
+  return [MANIFEST_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+};
+
+/**
+ * Write the zip of an export to a stream
+ *
+ * Files go under files/ next to manifest.csv and manifest.json, which
+ * describe every asset with its Asset and AssetMetaBase fields. Objects are
+ * read one at a time and stored uncompressed, media files don't shrink. An
+ * object that can't be opened is left out and listed with an empty file.
+ *
+ * @param assets - The assets with their base metadata
+ * @param output - Stream the zip is piped into
+ * @returns The number of files written and the assets left out
+ */
+const writeExportZip = async (
+  assets: ExportAsset[],
+  output: NodeJS.WritableStream
+) => {
+  const storage = getStorage();
+  const archive = archiver('zip', { store: true });
+
+  let archiveError: Error | undefined;
+  archive.on('error', (error) => {
+    archiveError = error;
+  });
+  archive.pipe(output);
+
+  // Resolves once the entry is fully written, so only one object is open at a time
+  const waitForEntry = () => new Promise<void>((resolve, reject) => {
+    const onError = (error: Error) => {
+      archive.off('entry', onDone);
+      reject(error);
+    };
+    const onDone = () => {
+      archive.off('error', onError);
+      resolve();
+    };
+    archive.once('entry', onDone);
+    archive.once('error', onError);
+  });
+
+  const rows: ExportManifestRow[] = [];
+  const missing: string[] = [];
+  const taken = new Set<string>();
+
+  for (const asset of assets) {
+    if (archiveError) {
+      throw archiveError;
+    }
+
+    let stream: NodeJS.ReadableStream;
+    try {
+      stream = await storage.getObject(asset.stored_fullpath);
+    } catch (error) {
+      logger.warn(`Leaving asset out of export, its object can't be read: ${asset.uuid}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      missing.push(asset.uuid);
+      rows.push(toManifestRow(asset, null));
+      continue;
+    }
+
+    const name = toEntryName(asset, rows.length + 1, taken);
+    const written = waitForEntry();
+    archive.append(stream as Readable, { name, date: asset.uploaded_at });
+    await written;
+
+    rows.push(toManifestRow(asset, name));
+  }
+
+  archive.append(toCsv(rows), { name: 'manifest.csv' });
+  archive.append(JSON.stringify(rows, null, 2), { name: 'manifest.json' });
+  await archive.finalize();
+
+  if (archiveError) {
+    throw archiveError;
+  }
+
+  return { files: rows.length - missing.length, missing };
+};
+
+const exportFilename = (date: Date = new Date()) => `assets-${date.toISOString().slice(0, 10)}.zip`;
+
+/**
+ * Controller for zip exports of filtered asset sets
+ */
+export const ExportController = {
+  /**
+   * Export the assets matching listing filters
+   *
+   * Small exports are streamed right away. Exports past the configured
+   * number of assets or bytes, or any when background is set, are written
+   * to storage by a job instead, its result links to the zip once done.
+   *
+   * @param filters - The asset listing filters, collection included
+   * @param user - The acting user, only assets they can view are exported
+   * @param background - Always run the export as a job
+   * @returns The zip stream and its filename, or the queued job
+   */
+  openExport: async (filters: AssetExportFilters, user: User, background: boolean = false) => {
+    try {
+      const assets = await findExportAssets(filters, user);
+      const bytes = assets.reduce((total, asset) => total + asset.size, BigInt(0));
+
+      if (background || assets.length > config.exports.syncMaxAssets || bytes > BigInt(config.exports.syncMaxBytes)) {
+        return { job: await ExportController.startExport(filters, user) };
+      }
+
+      logger.info(`Streaming export of ${assets.length} assets`, { user: user.uuid });
+
+      const stream = new PassThrough();
+      writeExportZip(assets, stream).catch((error) => {
+        // Headers are sent already, the client sees a truncated download
+        logger.error('Export streaming failed:', error);
+        stream.destroy(error);
+      });
+
+      return { filename: exportFilename(), stream };
+    } catch (error) {
+      logger.error('Export failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filters
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to export assets', 500);
+    }
+  },
+
+  /**
+   * Queue a background export, the assets are looked up when it runs
+   *
+   * @param filters - The asset listing filters, collection included
+   * @param user - The acting user, the job runs with their access
+   * @returns The queued job
+   */
+  startExport: async (filters: AssetExportFilters, user: User) => {
+    // Reject bad filters now rather than in the job
+    buildAssetFilterSql(filters);
+
+    const payload: ExportAssetsPayload = { filters };
+    const job = await JobQueue.getInstance().enqueue(EXPORT_JOB_TYPE, payload, {
+      user_uuid: user.uuid
+    });
+
+    logger.info(`Queued export: ${job.id}`, { user: user.uuid });
+
+    return job;
+  },
+
+  /**
+   * Write the zip of a background export to storage
+   *
+   * @param job - The export job
+   * @param user - The user who started it
+   * @returns Where the zip is, what it holds and a link to it
+   */
+  writeExport: async (job: Job<ExportAssetsPayload>, user: User): Promise<ExportAssetsResult> => {
+    const storage = getStorage();
+    const storedPath = `${EXPORT_PREFIX}${job.id}.zip`;
+
+    const assets = await findExportAssets(job.payload.filters, user);
+
+    const stream = new PassThrough();
+    const [zip] = await Promise.all([
+      writeExportZip(assets, stream).catch((error) => {
+        stream.destroy(error);
+        throw error;
+      }),
+      uploadStream(storage, storedPath, stream, 'application/zip')
+    ]);
+
+    const expiry = Math.min(config.exports.retention, MAX_URL_EXPIRY);
+    const url = await storage.getPresignedUrl(storedPath, expiry, {
+      'response-content-disposition': contentDisposition(exportFilename(new Date(job.created_at)), 'attachment')
+    });
+
+    logger.info(`Export written: ${storedPath}`, { files: zip.files, missing: zip.missing.length });
+
+    return {
+      stored_path: storedPath,
+      files: zip.files,
+      missing: zip.missing,
+      url,
+      expires_at: new Date(Date.now() + expiry * 1000).toISOString()
+    };
+  },
+
+  /**
+   * Get a fresh link to a finished background export
+   *
+   * @param jobId - ID of the export job
+   * @param user - The acting user, must have started it or be an admin
+   * @returns The presigned URL to redirect to
+   */
+  getExportUrl: async (jobId: string, user: User) => {
+    const storage = getStorage();
+    const job = await JobQueue.getInstance().getJob(jobId);
+
+    if (!job || job.type !== EXPORT_JOB_TYPE || (!user.is_admin && job.user_uuid !== user.uuid)) {
+      throw new ServerError('Export not found', 404);
+    }
+
+    if (job.status !== 'completed') {
+      throw new ServerError(`Export is not ready, its job is ${job.status}`, 409);
+    }
+
+    const result = job.result as ExportAssetsResult;
+    const stat = await storage.statObject(result.stored_path).catch(() => null);
+
+    if (!stat) {
+      throw new ServerError('Export has expired', 410);
+    }
+
+    // Links never outlive the export itself
+    const remaining = Math.floor((stat.lastModified.getTime() + config.exports.retention * 1000 - Date.now()) / 1000);
+    if (remaining <= 0) {
+      throw new ServerError('Export has expired', 410);
+    }
+
+    return storage.getPresignedUrl(result.stored_path, Math.min(remaining, MAX_URL_EXPIRY), {
+      'response-content-disposition': contentDisposition(exportFilename(new Date(job.created_at)), 'attachment')
+    });
+  },
+
+  /**
+   * Delete background exports older than the retention time
+   * @returns The number of deleted exports
+   */
+  purgeExpiredExports: async () => {
+    const storage = getStorage();
+    const cutoff = Date.now() - config.exports.retention * 1000;
+
+    const objects = await storage.listObjects(EXPORT_PREFIX);
+    const expired = objects.filter((object) => new Date(object.lastModified).getTime() < cutoff);
+
+    for (const object of expired) {
+      await storage.deleteObject(object.name);
+    }
+
+    if (expired.length > 0) {
+      logger.info(`Purged ${expired.length} expired exports`);
+    }
+
+    return expired.length;
+  }
+};
@@ -0,0 +1,118 @@
+import { User } from '@prisma/client';
+import { ServerError } from '../core/errors';
+import { JobQueue } from '../jobs/queue';
+import logger from '../logger';
+import { Job } from '../types/job';
+import { AccessController } from './access.controller';
+
+/**
+ * Check whether a user may see a job
+ * Admins see every job, others the jobs they caused or of assets they can view
+ */
+const canViewJob = async (job: Job, user: User): Promise<boolean> => {
+  if (user.is_admin || job.user_uuid === user.uuid) {
+    return true;
+  }
+
+  if (!job.asset_uuid) {
+    return false;
+  }
+
+  return AccessController.assertAccess(job.asset_uuid, user, 'viewer')
+    .then(() => true, () => false);
+};
+
+/**
+ * Controller for querying and managing background jobs
+ */
+export const JobController = {
+  /**
+   * Get the status of a job
+   *
+   * @param jobId - ID of the job
+   * @param user - The acting user
+   * @returns The job
+   */
+  getJob: async (jobId: string, user: User) => {
+    const job = await JobQueue.getInstance().getJob(jobId);
+
+    if (!job || !(await canViewJob(job, user))) {
+      throw new ServerError('Job not found', 404);
+    }
+
+    return job;
+  },
+
+  /**
+   * List the jobs of an asset
+   *
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user, needs viewer access
+   * @returns The jobs, oldest first
+   */
+  listAssetJobs: async (assetUuid: string, user: User) => {
+    await AccessController.assertAccess(assetUuid, user, 'viewer');
+
+    try {
+      return await JobQueue.getInstance().listAssetJobs(assetUuid);
+    } catch (error) {
+      logger.error('Listing asset jobs failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+
+      throw new ServerError('Failed to list asset jobs', 500);
+    }
+  },
+
+  /**
+   * List the jobs in the dead-letter list
+   *
+   * @param user - The acting user, must be an admin
+   * @returns The dead jobs, most recent first
+   */
+  listDeadJobs: async (user: User) => {
+    if (!user.is_admin) {
+      throw new ServerError('Only admins can list failed jobs', 403);
+    }
+
+    try {
+      return await JobQueue.getInstance().listDeadJobs();
+    } catch (error) {
+      logger.error('Listing dead jobs failed:', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw new ServerError('Failed to list failed jobs', 500);
+    }
+  },
+
+  /**
+   * Requeue a job from the dead-letter list
+   *
+   * @param jobId - ID of the job
+   * @param user - The acting user, must be an admin
+   * @returns The requeued job
+   */
+  retryJob: async (jobId: string, user: User) => {
+    if (!user.is_admin) {
+      throw new ServerError('Only admins can retry jobs', 403);
+    }
+
+    const jobQueue = JobQueue.getInstance();
+
+    const job = await jobQueue.getJob(jobId);
+    if (!job) {
+      throw new ServerError('Job not found', 404);
+    }
+
+    const requeued = await jobQueue.retryDeadJob(jobId);
+    if (!requeued) {
+      throw new ServerError('Only jobs in the dead-letter list can be retried', 409);
+    }
+
+    logger.info(`User ${user.uuid} requeued job: ${jobId}`);
+
+    return requeued;
+  }
+};
@@ -0,0 +1,136 @@
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { parseFieldDefinitions, validateCustomMetadata } from '../core/custom_metadata';
+import { ServerError } from '../core/errors';
+import logger from '../logger';
+import { CustomMetadata, MetadataFieldDefinition } from '../types/metadata';
+
+/**
+ * Controller for the admin-defined custom metadata of asset types
+ */
+export const MetadataSchemaController = {
+  /**
+   * List the metadata schemas of every asset type
+   */
+  listSchemas: async () => {
+    return prisma.metadataSchema.findMany({
+      orderBy: { asset_type: 'asc' }
+    });
+  },
+
+  /**
+   * Get the metadata schema of an asset type
+   *
+   * @param assetType - The asset_type the schema applies to
+   * @returns The schema
+   */
+  getSchema: async (assetType: string) => {
+    const schema = await prisma.metadataSchema.findUnique({
+      where: { asset_type: assetType }
+    });
+
+    if (!schema) {
+      throw new ServerError(`No metadata schema for asset_type: ${assetType}`, 404);
+    }
+
+    return schema;
+  },
+
+  /**
+   * Create or replace the metadata schema of an asset type
+   * Values already stored are not revalidated, the schema applies to
+   * metadata written from now on
+   *
+   * @param assetType - The asset_type the schema applies to
+   * @param data - Field definitions and an optional description
+   * @param actor - The acting user, must be an admin
+   * @returns The saved schema
+   */
+  putSchema: async (
+    assetType: string,
+    data: { fields: unknown; description?: string },
+    actor: User
+  ) => {
+    logger.info(`Saving metadata schema: ${assetType}`);
+
+    try {
+      if (!actor.is_admin) {
+        throw new ServerError('Only admins can manage metadata schemas', 403);
+      }
+
+      const fields = parseFieldDefinitions(data.fields) as unknown as Prisma.InputJsonValue;
+
+      return await prisma.metadataSchema.upsert({
+        where: { asset_type: assetType },
+        create: { asset_type: assetType, description: data.description, fields },
+        update: { description: data.description, fields }
+      });
+    } catch (error) {
+      logger.error('Metadata schema save failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetType
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to save metadata schema', 500);
+    }
+  },
+
+  /**
+   * Delete the metadata schema of an asset type
+   * Custom values already stored on assets are kept
+   *
+   * @param assetType - The asset_type the schema applies to
+   * @param actor - The acting user, must be an admin
+   * @returns The deleted schema
+   */
+  deleteSchema: async (assetType: string, actor: User) => {
+    if (!actor.is_admin) {
+      throw new ServerError('Only admins can manage metadata schemas', 403);
+    }
+
+    const schema = await MetadataSchemaController.getSchema(assetType);
+
+    await prisma.metadataSchema.delete({
+      where: { id: schema.id }
+    });
+
+    logger.info(`Metadata schema deleted: ${assetType}`);
+
+    return schema;
+  },
+
+  /**
+   * Validate custom metadata against the schema of its asset type
+   * Asset types without a schema take no custom metadata
+   *
+   * @param assetType - The asset_type of the metadata
+   * @param custom - The custom values, if any
+   * @returns The values coerced to their field types, or undefined when there are none
+   */
+  validateCustom: async (
+    assetType: string,
+    custom?: Record<string, unknown>
+  ): Promise<CustomMetadata | undefined> => {
+    const schema = await prisma.metadataSchema.findUnique({
+      where: { asset_type: assetType }
+    });
+
+    if (!schema) {
+      if (custom && Object.keys(custom).length > 0) {
+        throw new ServerError(`No metadata schema for asset_type: ${assetType}`, 400);
+      }
+      return undefined;
+    }
+
+    const values = validateCustomMetadata(
+      schema.fields as unknown as MetadataFieldDefinition[],
+      custom || {}
+    );
+
+    return Object.keys(values).length > 0 ? values : undefined;
+  }
+};
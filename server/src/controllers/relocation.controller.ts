@@ -0,0 +1,238 @@
+import path from 'path';
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
+import { ServerError } from '../core/errors';
+import { PathUtils, StoredPathContext } from '../core/path_utils';
+import logger from '../logger';
+
+export interface RelocationResult {
+  asset_uuid: string;
+  relocated: boolean;
+  from: string;
+  to: string;
+}
+
+export interface RelayoutReport {
+  checked: number;
+  relocated: number;
+  failed: number;
+  failures: { asset_uuid: string; error: string }[];
+}
+
+// Assets loaded per query while re-laying out the bucket
+const RELAYOUT_BATCH_SIZE = 100;
+
+/**
+ * Describe an asset the way PathUtils generates its stored path
+ * The extension is taken from the current object so its casing is kept
+ */
+const pathContextOf = (asset: {
+  uuid: string;
+  stored_fullpath: string;
+  hash: string | null;
+  meta_base: StoredPathContext['meta'];
+}): StoredPathContext => ({
+  uuid: asset.uuid,
+  extension: path.posix.extname(asset.stored_fullpath),
+  hash: asset.hash,
+  meta: asset.meta_base
+});
+
+/**
+ * Delete objects that are no longer referenced, failures only leave orphans behind
+ */
+const deleteQuietly = async (objectNames: string[]) => {
+  const storage = getStorage();
+
+  for (const objectName of objectNames) {
+    try {
+      await storage.deleteObject(objectName);
+    } catch (error) {
+      logger.warn(`Failed to delete relocated object, it is orphaned: ${objectName}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+};
+
+/**
+ * Controller for keeping stored object paths in line with asset metadata
+ */
+export const RelocationController = {
+  /**
+   * Move an asset's object, and its renditions, to the path its metadata implies
+   *
+   * The objects are copied first, then stored_fullpath, stored_filename,
+   * stored_url and the rendition paths are updated in one transaction, and
+   * only then are the old objects deleted. When the update fails the copies
+   * are removed again, so the asset always points at a complete object. An
+   * object still shared with a deduplicated asset is copied and left in place.
+   *
+   * @param assetUuid - UUID of the asset
+   * @returns Where the object was and where it is now
+   */
+  relocateAsset: async (assetUuid: string): Promise<RelocationResult> => {
+    const storage = getStorage();
+
+    const asset = await prisma.asset.findUnique({
+      where: { uuid: assetUuid },
+      include: { meta_base: true, renditions: true }
+    });
+
+    if (!asset) {
+      throw new ServerError('Asset not found', 404);
+    }
+
+    const from = asset.stored_fullpath;
+    const context = pathContextOf(asset);
+
+    // Only a path that doesn't fit the templates is regenerated, which keeps
+    // an allocated {index} and objects shared with a deduplicated asset
+    if (PathUtils.matchesStoredPath(from, context)) {
+      return { asset_uuid: asset.uuid, relocated: false, from, to: from };
+    }
+
+    const to = await PathUtils.generateStoredPath(context);
+
+    logger.info(`Relocating asset: ${asset.uuid}`, { from, to });
+
+    const renditionMoves = asset.renditions.map((rendition) => ({
+      id: rendition.id,
+      from: rendition.stored_fullpath,
+      to: PathUtils.generateRenditionPath(
+        to,
+        asset.uuid,
+        rendition.name,
+        path.posix.extname(rendition.stored_fullpath).replace('.', '')
+      )
+    }));
+
+    // 1. Copy everything to the new paths
+    const copied: string[] = [];
+    try {
+      await storage.copyObject(from, to);
+      copied.push(to);
+
+      for (const move of renditionMoves) {
+        await storage.copyObject(move.from, move.to);
+        copied.push(move.to);
+      }
+    } catch (error) {
+      await deleteQuietly(copied);
+      throw error;
+    }
+
+    // 2. Point the asset at the copies, unless it was moved in the meantime
+    let sharedCount: number;
+    try {
+      const storedUrl = await storage.getPresignedUrl(to);
+
+      sharedCount = await prisma.$transaction(async (tx) => {
+        const updated = await tx.asset.updateMany({
+          where: { uuid: asset.uuid, stored_fullpath: from },
+          data: {
+            stored_fullpath: to,
+            stored_filename: path.posix.basename(to),
+            stored_url: storedUrl
+          }
+        });
+
+        if (updated.count === 0) {
+          throw new ServerError('Asset was moved while it was being relocated', 409);
+        }
+
+        for (const move of renditionMoves) {
+          await tx.assetRendition.update({
+            where: { id: move.id },
+            data: { stored_fullpath: move.to }
+          });
+        }
+
+        return tx.asset.count({
+          where: { stored_fullpath: from }
+        });
+      });
+    } catch (error) {
+      logger.error(`Relocation of asset rolled back: ${asset.uuid}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      // A concurrent relocation to the same path owns the copies now
+      const current = await prisma.asset.findUnique({
+        where: { uuid: asset.uuid },
+        select: { stored_fullpath: true }
+      });
+      if (current?.stored_fullpath !== to) {
+        await deleteQuietly(copied);
+      }
+
+      throw error;
+    }
+
+    // 3. Remove the old objects, the original only when no other asset uses it
+    await deleteQuietly([
+      ...(sharedCount === 0 ? [from] : []),
+      ...renditionMoves.map((move) => move.from)
+    ]);
+
+    logger.info(`Asset relocated: ${asset.uuid}`, { from, to });
+
+    return { asset_uuid: asset.uuid, relocated: true, from, to };
+  },
+
+  /**
+   * Relocate every asset whose object isn't where its metadata says it should be
+   * Assets are handled one at a time, a failure is reported and doesn't stop the run
+   *
+   * @param options - dryRun only reports what would move
+   * @returns How many assets were checked, moved and failed
+   */
+  relayoutAll: async (options: { dryRun?: boolean } = {}): Promise<RelayoutReport> => {
+    const report: RelayoutReport = { checked: 0, relocated: 0, failed: 0, failures: [] };
+    let cursor: string | undefined;
+
+    while (true) {
+      const assets = await prisma.asset.findMany({
+        select: { uuid: true, stored_fullpath: true, hash: true, meta_base: true },
+        orderBy: { uuid: 'asc' },
+        take: RELAYOUT_BATCH_SIZE,
+        ...(cursor ? { cursor: { uuid: cursor }, skip: 1 } : {})
+      });
+
+      if (assets.length === 0) {
+        break;
+      }
+      cursor = assets[assets.length - 1].uuid;
+
+      for (const asset of assets) {
+        report.checked++;
+
+        if (PathUtils.matchesStoredPath(asset.stored_fullpath, pathContextOf(asset))) {
+          continue;
+        }
+
+        // The target isn't generated here, that would use up an {index}
+        if (options.dryRun) {
+          logger.info(`Would relocate asset: ${asset.uuid}`, { from: asset.stored_fullpath });
+          report.relocated++;
+          continue;
+        }
+
+        try {
+          const result = await RelocationController.relocateAsset(asset.uuid);
+          if (result.relocated) {
+            report.relocated++;
+          }
+        } catch (error) {
+          report.failed++;
+          report.failures.push({
+            asset_uuid: asset.uuid,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    return report;
+  }
+};
@@ -0,0 +1,105 @@
+import { User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
+import { ServerError } from '../core/errors';
+import { POSTER_RENDITIONS, RENDITIONS } from '../jobs/render_asset.job';
+import logger from '../logger';
+import { AccessController } from './access.controller';
+
+// Seconds a rendition redirect stays valid, short since it is requested per view
+const RENDITION_URL_EXPIRY = 3600;
+
+/**
+ * Find a live asset the user may view
+ */
+const findViewableAsset = async (assetUuid: string, user: User) => {
+  const asset = await prisma.asset.findFirst({
+    where: { uuid: assetUuid, deleted_at: null },
+    select: { uuid: true }
+  });
+
+  if (!asset) {
+    throw new ServerError('Asset not found', 404);
+  }
+
+  await AccessController.assertAccess(assetUuid, user, 'viewer');
+
+  return asset;
+};
+
+/**
+ * Controller for the generated previews of assets
+ */
+export const RenditionController = {
+  /**
+   * List the renditions generated for an asset
+   *
+   * @param assetUuid - UUID of the asset
+   * @param user - The acting user, needs viewer access
+   * @returns The renditions, without URLs
+   */
+  listRenditions: async (assetUuid: string, user: User) => {
+    try {
+      await findViewableAsset(assetUuid, user);
+
+      return await prisma.assetRendition.findMany({
+        where: { asset_id: assetUuid },
+        orderBy: { width: 'asc' }
+      });
+    } catch (error) {
+      logger.error('Listing renditions failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to list renditions', 500);
+    }
+  },
+
+  /**
+   * Get a presigned URL for one rendition of an asset
+   *
+   * @param assetUuid - UUID of the asset
+   * @param name - Rendition name, one of the presets or `poster` for videos
+   * @param user - The acting user, needs viewer access
+   * @returns The presigned URL to redirect to
+   */
+  getRenditionUrl: async (assetUuid: string, name: string, user: User) => {
+    const storage = getStorage();
+
+    try {
+      if (!(name in RENDITIONS) && !(name in POSTER_RENDITIONS)) {
+        throw new ServerError(`Unknown rendition: ${name}`, 404);
+      }
+
+      await findViewableAsset(assetUuid, user);
+
+      const rendition = await prisma.assetRendition.findUnique({
+        where: { asset_id_name: { asset_id: assetUuid, name } }
+      });
+
+      // Not generated yet, or the asset isn't an image
+      if (!rendition) {
+        throw new ServerError('Rendition not found', 404);
+      }
+
+      return await storage.getPresignedUrl(rendition.stored_fullpath, RENDITION_URL_EXPIRY);
+    } catch (error) {
+      logger.error('Rendition retrieval failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        assetUuid,
+        name
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to get rendition', 500);
+    }
+  }
+};
@@ -0,0 +1,203 @@
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
+import { ServerError } from '../core/errors';
+import { FUZZY_THRESHOLD, highlightField, parseSearchTerms } from '../core/search';
+import { TAG_NAMES_INCLUDE, toTagNames } from '../core/tags';
+import logger from '../logger';
+import { AssetSearchFilters, AssetSearchResult, SearchFacets, SearchHighlight } from '../types/search';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+// Fields highlights are reported for, the ones search_text is generated from
+const ASSET_FIELDS = ['imported_filename', 'imported_fullpath'] as const;
+const META_FIELDS = [
+  'asset_type',
+  'asset_class',
+  'asset_location_name',
+  'asset_camera',
+  'asset_date_label'
+] as const;
+
+// GROUPING() bits of the facet queries, one per column that isn't grouped on
+const FACET_GROUPINGS: Record<number, keyof SearchFacets> = {
+  3: 'asset_type',
+  5: 'asset_class',
+  6: 'asset_camera'
+};
+const TOTAL_GROUPING = 7;
+
+interface FacetRow {
+  asset_type: string | null;
+  asset_class: string | null;
+  asset_camera: string | null;
+  grouping: number;
+  count: number;
+}
+
+/**
+ * Conditions shared by the page and the facet queries
+ * Every term must match the asset or its base metadata, as a word prefix
+ * through the full-text index or fuzzily through the trigram index. %> holds
+ * when word_similarity reaches pg_trgm.word_similarity_threshold, which the
+ * search sets to FUZZY_THRESHOLD
+ */
+const buildSearchWhere = (terms: string[], filters: AssetSearchFilters, user: User): Prisma.Sql => {
+  const conditions: Prisma.Sql[] = [Prisma.sql`a."deleted_at" IS NULL`];
+
+  if (!user.is_admin) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "asset_access" x
+      WHERE x."asset_id" = a."uuid" AND x."user_id" = ${user.uuid}
+    )`);
+  }
+
+  if (filters.asset_type) conditions.push(Prisma.sql`m."asset_type" = ${filters.asset_type}`);
+  if (filters.asset_class) conditions.push(Prisma.sql`m."asset_class" = ${filters.asset_class}`);
+  if (filters.asset_camera) conditions.push(Prisma.sql`m."asset_camera" = ${filters.asset_camera}`);
+
+  for (const term of terms) {
+    // Terms are letters and digits only, so the prefix query always parses
+    const prefix = `${term}:*`;
+    conditions.push(Prisma.sql`(
+      a."search_vector" @@ to_tsquery('simple', ${prefix})
+      OR m."search_vector" @@ to_tsquery('simple', ${prefix})
+      OR a."search_text" %> ${term}
+      OR m."search_text" %> ${term}
+    )`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+};
+
+/**
+ * Rank of a match: full-text rank over both tables plus the average best
+ * trigram similarity of the terms, so exact words beat fuzzy ones
+ */
+const buildSearchScore = (terms: string[]): Prisma.Sql => {
+  const anyPrefix = terms.map((term) => `${term}:*`).join(' | ');
+  const similarities = terms.map((term) => Prisma.sql`GREATEST(
+    word_similarity(${term}, a."search_text"),
+    COALESCE(word_similarity(${term}, m."search_text"), 0)
+  )`);
+
+  return Prisma.sql`(
+    ts_rank(a."search_vector" || COALESCE(m."search_vector", ''::tsvector), to_tsquery('simple', ${anyPrefix}))
+    + (${Prisma.join(similarities, ' + ')}) / ${terms.length}
+  )`;
+};
+
+/**
+ * Controller for ranked full-text search over assets
+ */
+export const SearchController = {
+  /**
+   * Search assets by filename, path and base metadata text
+   *
+   * Every word of the query has to match, as the start of a word or
+   * fuzzily, so "bridg nrth" finds north_bridge. Results are ranked, carry
+   * the matched words of each field and come with facet counts over all
+   * matches by asset_type, asset_class and asset_camera.
+   *
+   * @param filters - The query, optional exact facet filters and the page
+   * @param user - The acting user, only assets they can view are searched
+   * @returns A page of ranked assets, the total number of matches and the facets
+   */
+  searchAssets: async (filters: AssetSearchFilters, user: User) => {
+    const storage = getStorage();
+    const limit = Math.min(filters.limit || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+    const offset = filters.offset || 0;
+
+    try {
+      const terms = parseSearchTerms(filters.q);
+      const where = buildSearchWhere(terms, filters, user);
+      const from = Prisma.sql`"assets" a LEFT JOIN "asset_meta_base" m ON m."asset_id" = a."uuid"`;
+
+      // One transaction, so the threshold applies to both queries and nothing else
+      const [, matches, facetRows] = await prisma.$transaction([
+        prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_THRESHOLD)}, true)`,
+        prisma.$queryRaw<{ uuid: string; score: number }[]>`
+          SELECT a."uuid", ${buildSearchScore(terms)}::float8 AS "score"
+          FROM ${from}
+          WHERE ${where}
+          ORDER BY "score" DESC, a."uploaded_at" DESC, a."uuid" DESC
+          LIMIT ${limit} OFFSET ${offset}
+        `,
+        prisma.$queryRaw<FacetRow[]>`
+          SELECT m."asset_type", m."asset_class", m."asset_camera",
+            GROUPING(m."asset_type", m."asset_class", m."asset_camera")::int AS "grouping",
+            COUNT(*)::int AS "count"
+          FROM ${from}
+          WHERE ${where}
+          GROUP BY GROUPING SETS ((m."asset_type"), (m."asset_class"), (m."asset_camera"), ())
+        `
+      ]);
+
+      const facets: SearchFacets = { asset_type: [], asset_class: [], asset_camera: [] };
+      let total = 0;
+
+      for (const row of facetRows) {
+        if (row.grouping === TOTAL_GROUPING) {
+          total = row.count;
+          continue;
+        }
+
+        // Unclassified assets have no value to facet on
+        const facet = FACET_GROUPINGS[row.grouping];
+        const value = facet ? row[facet] : null;
+        if (facet && value !== null) {
+          facets[facet].push({ value, count: row.count });
+        }
+      }
+
+      for (const facet of Object.keys(facets) as (keyof SearchFacets)[]) {
+        facets[facet].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+      }
+
+      const assets = await prisma.asset.findMany({
+        where: { uuid: { in: matches.map((match) => match.uuid) } },
+        include: { meta_base: true, tags: TAG_NAMES_INCLUDE }
+      });
+      const assetsByUuid = new Map(assets.map((asset) => [asset.uuid, asset]));
+
+      // Keep the rank order, an asset purged in between is skipped
+      const items = await Promise.all(matches
+        .filter((match) => assetsByUuid.has(match.uuid))
+        .map(async (match) => {
+          const asset = assetsByUuid.get(match.uuid)!;
+          const highlights = [
+            ...ASSET_FIELDS.map((field) => highlightField(field, asset[field], terms)),
+            ...META_FIELDS.map((field) => highlightField(field, asset.meta_base?.[field], terms))
+          ].filter((highlight): highlight is SearchHighlight => highlight !== undefined);
+
+          return {
+            ...asset,
+            tags: toTagNames(asset.tags),
+            stored_url: await storage.getPresignedUrl(asset.stored_fullpath),
+            score: match.score,
+            highlights
+          };
+        }));
+
+      const result: AssetSearchResult<typeof items[number]> = {
+        items,
+        total,
+        facets
+      };
+
+      return result;
+    } catch (error) {
+      logger.error('Asset search failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        q: filters.q
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to search assets', 500);
+    }
+  }
+};
@@ -0,0 +1,89 @@
+import { getStorage } from '../clients/storage';
+import { ServerError } from '../core/errors';
+import { parseRange } from '../core/http_utils';
+import { verifyStorageUrl } from '../core/signed_urls';
+import logger from '../logger';
+import { AssetContent } from '../types/asset';
+
+/**
+ * Controller for reads through presigned URLs of the local and memory
+ * storage providers, MinIO serves its own
+ */
+export const StorageController = {
+  /**
+   * Open an object a signed URL points at
+   * Byte ranges are served, exifr and ffprobe read files through these URLs
+   *
+   * @param objectName - Name of the object, decoded from the path
+   * @param query - Expiry, signature and response header overrides
+   * @param rangeHeader - The Range header, if any
+   * @returns Status, headers and the stream to send
+   */
+  openSignedObject: async (
+    objectName: string,
+    query: Record<string, string | undefined>,
+    rangeHeader?: string
+  ): Promise<AssetContent> => {
+    const storage = getStorage();
+
+    try {
+      const responseHeaders = verifyStorageUrl(objectName, query);
+      const stat = await storage.statObject(objectName);
+
+      const headers: Record<string, string> = {
+        'etag': `"${stat.etag}"`,
+        'last-modified': stat.lastModified.toUTCString(),
+        'accept-ranges': 'bytes',
+        'content-type': responseHeaders['response-content-type'] ||
+          stat.metaData['content-type'] || 'application/octet-stream'
+      };
+      if (responseHeaders['response-content-disposition']) {
+        headers['content-disposition'] = responseHeaders['response-content-disposition'];
+      }
+
+      const range = parseRange(rangeHeader, stat.size);
+
+      if (range === 'unsatisfiable') {
+        return {
+          status: 416,
+          headers: { ...headers, 'content-range': `bytes */${stat.size}` }
+        };
+      }
+
+      if (range) {
+        const length = range.end - range.start + 1;
+
+        return {
+          status: 206,
+          headers: {
+            ...headers,
+            'content-range': `bytes ${range.start}-${range.end}/${stat.size}`,
+            'content-length': String(length)
+          },
+          body: await storage.getPartialObject(objectName, range.start, length)
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { ...headers, 'content-length': String(stat.size) },
+        body: await storage.getObject(objectName)
+      };
+    } catch (error) {
+      logger.error('Signed object read failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        objectName
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      if ((error as any)?.code === 'NotFound') {
+        throw new ServerError('Object not found', 404);
+      }
+
+      throw new ServerError('Failed to read object', 500);
+    }
+  }
+};
@@ -0,0 +1,188 @@
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { buildAccessSql } from '../core/asset_filters';
+import { ServerError } from '../core/errors';
+import { normalizeTag, normalizeTags } from '../core/tags';
+import logger from '../logger';
+import { TagChangeResult, TagCount } from '../types/tag';
+
+// Most assets and tags changed in one request
+export const MAX_TAGGED_ASSETS = 1000;
+export const MAX_TAGS = 50;
+
+const DEFAULT_AUTOCOMPLETE_LIMIT = 10;
+
+const checkBatch = (assetUuids: string[], tags: string[]) => {
+  if (assetUuids.length === 0 || tags.length === 0) {
+    throw new ServerError('asset_uuids and tags must not be empty', 400);
+  }
+
+  if (assetUuids.length > MAX_TAGGED_ASSETS || tags.length > MAX_TAGS) {
+    throw new ServerError(`At most ${MAX_TAGS} tags on ${MAX_TAGGED_ASSETS} assets can be changed at once`, 400);
+  }
+};
+
+/**
+ * Ensure the user may edit every one of the assets
+ * Unknown, trashed and inaccessible assets look the same, like everywhere else
+ */
+const assertEditableAssets = async (assetUuids: string[], user: User) => {
+  const assets = await prisma.asset.findMany({
+    where: {
+      uuid: { in: assetUuids },
+      deleted_at: null,
+      ...(user.is_admin ? {} : {
+        access: {
+          some: { user_id: user.uuid, role: { in: ['editor', 'owner'] } }
+        }
+      })
+    },
+    select: { uuid: true }
+  });
+
+  const found = new Set(assets.map((asset) => asset.uuid));
+  const missing = assetUuids.filter((uuid) => !found.has(uuid));
+  if (missing.length > 0) {
+    throw new ServerError(`Assets not found or not editable: ${missing.join(', ')}`, 404);
+  }
+};
+
+/**
+ * Controller for free-form asset tags
+ */
+export const TagController = {
+  /**
+   * Count the live assets the user can view per tag, for facets
+   * Tags none of those assets carry are left out
+   *
+   * @param user - The acting user
+   * @param options - Only tags starting with prefix, at most limit of them
+   * @returns The tags, most used first
+   */
+  listTags: async (
+    user: User,
+    options: { prefix?: string; limit?: number } = {}
+  ): Promise<TagCount[]> => {
+    const prefix = options.prefix?.trim() ? normalizeTag(options.prefix) : undefined;
+
+    // Grouped in the database so only the returned tags are read
+    return prisma.$queryRaw<TagCount[]>`
+      SELECT t."name", COUNT(*)::int AS "count"
+      FROM "tags" t
+      JOIN "asset_tags" atg ON atg."tag_id" = t."id"
+      JOIN "assets" a ON a."uuid" = atg."asset_id"
+      WHERE a."deleted_at" IS NULL AND ${buildAccessSql(user)}
+      ${prefix ? Prisma.sql`AND starts_with(t."name", ${prefix})` : Prisma.empty}
+      GROUP BY t."name"
+      ORDER BY "count" DESC, t."name" ASC
+      ${options.limit ? Prisma.sql`LIMIT ${options.limit}` : Prisma.empty}
+    `;
+  },
+
+  /**
+   * Suggest tags starting with what was typed so far, most used first
+   *
+   * @param prefix - Start of the tag, normalized like a tag
+   * @param user - The acting user
+   * @param limit - Most suggestions returned
+   */
+  autocomplete: async (prefix: string, user: User, limit: number = DEFAULT_AUTOCOMPLETE_LIMIT) => {
+    return TagController.listTags(user, { prefix, limit });
+  },
+
+  /**
+   * Put tags on assets, tags that don't exist yet are created
+   *
+   * @param assetUuids - Assets to tag, the user needs editor access to each
+   * @param tagNames - Tags as typed in, they are normalized
+   * @param user - The acting user
+   * @returns The normalized tags and how many were new on an asset
+   */
+  addTags: async (assetUuids: string[], tagNames: string[], user: User): Promise<TagChangeResult> => {
+    try {
+      const uniqueUuids = [...new Set(assetUuids)];
+      const tags = normalizeTags(tagNames);
+      checkBatch(uniqueUuids, tags);
+
+      await assertEditableAssets(uniqueUuids, user);
+
+      const changed = await prisma.$transaction(async (tx) => {
+        await tx.tag.createMany({
+          data: tags.map((name) => ({ name })),
+          skipDuplicates: true
+        });
+
+        const tagRows = await tx.tag.findMany({
+          where: { name: { in: tags } },
+          select: { id: true }
+        });
+
+        const created = await tx.assetTag.createMany({
+          data: uniqueUuids.flatMap((assetUuid) => tagRows.map((tag) => ({
+            asset_id: assetUuid,
+            tag_id: tag.id,
+            tagged_by_id: user.uuid
+          }))),
+          skipDuplicates: true
+        });
+
+        return created.count;
+      });
+
+      logger.info(`Tagged ${uniqueUuids.length} assets`, { tags, changed });
+
+      return { asset_uuids: uniqueUuids, tags, changed };
+    } catch (error) {
+      logger.error('Tagging assets failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        tags: tagNames
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to tag assets', 500);
+    }
+  },
+
+  /**
+   * Take tags off assets, the tags themselves are kept
+   *
+   * @param assetUuids - Assets to untag, the user needs editor access to each
+   * @param tagNames - Tags as typed in, they are normalized
+   * @param user - The acting user
+   * @returns The normalized tags and how many were removed from an asset
+   */
+  removeTags: async (assetUuids: string[], tagNames: string[], user: User): Promise<TagChangeResult> => {
+    try {
+      const uniqueUuids = [...new Set(assetUuids)];
+      const tags = normalizeTags(tagNames);
+      checkBatch(uniqueUuids, tags);
+
+      await assertEditableAssets(uniqueUuids, user);
+
+      const deleted = await prisma.assetTag.deleteMany({
+        where: {
+          asset_id: { in: uniqueUuids },
+          tag: { name: { in: tags } }
+        }
+      });
+
+      logger.info(`Untagged ${uniqueUuids.length} assets`, { tags, changed: deleted.count });
+
+      return { asset_uuids: uniqueUuids, tags, changed: deleted.count };
+    } catch (error) {
+      logger.error('Untagging assets failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        tags: tagNames
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to untag assets', 500);
+    }
+  }
+};
@@ -0,0 +1,434 @@
+import { User } from '@prisma/client';
+import crypto from 'crypto';
+import path from 'path';
+import { getStorage } from '../clients/storage';
+import { RedisClient } from '../clients/redis';
+import { config } from '../config';
+import { ServerError } from '../core/errors';
+import { PathUtils } from '../core/path_utils';
+import { DigestStream } from '../core/stream_utils';
+import logger from '../logger';
+import { AssetMetaInput } from '../types/asset';
+import { DedupePolicy } from '../types/config';
+import { UploadSession, UploadSessionStatus } from '../types/upload';
+import { AssetController, isCompleteMetadata, validateMetadata } from './asset.controller';
+
+// MinIO rejects multipart parts under 5 MiB, except for the last one
+const MIN_CHUNK_SIZE = 5 * 1024 * 1024;
+// Chunks are read into memory whole, so keep them small enough for that
+const MAX_CHUNK_SIZE = 128 * 1024 * 1024;
+// S3 multipart uploads are limited to 10000 parts
+const MAX_CHUNKS = 10000;
+
+// The session itself is a JSON value, received chunks are a hash of part number -> etag
+const sessionKey = (sessionId: string) => `upload_session:${sessionId}`;
+const chunksKey = (sessionId: string) => `upload_session:${sessionId}:chunks`;
+// Multipart upload of every open session, it outlives the expiring session so
+// the upload can still be aborted once the session is gone
+const MULTIPART_UPLOADS_KEY = 'upload_sessions:multipart';
+
+interface SessionMultipartUpload {
+  stored_path: string;
+  multipart_upload_id: string;
+}
+
+/**
+ * Get the expected byte length of a chunk, only the last one may be shorter
+ */
+const getChunkLength = (session: UploadSession, index: number): number => {
+  if (index < session.total_chunks) {
+    return session.chunk_size;
+  }
+  return session.size - (session.total_chunks - 1) * session.chunk_size;
+};
+
+/**
+ * Load a session owned by the user, refusing everybody else
+ */
+const loadSession = async (sessionId: string, user: User): Promise<UploadSession> => {
+  const redisClient = RedisClient.getInstance();
+
+  const raw = await redisClient.get(sessionKey(sessionId));
+  if (!raw) {
+    throw new ServerError('Upload session not found or expired', 404);
+  }
+
+  const session: UploadSession = JSON.parse(raw);
+  if (session.user_uuid !== user.uuid) {
+    throw new ServerError('Upload session not found or expired', 404);
+  }
+
+  return session;
+};
+
+/**
+ * Get the part numbers received so far with their etags
+ */
+const getReceivedChunks = async (session: UploadSession) => {
+  const redisClient = RedisClient.getInstance();
+
+  const chunks = await redisClient.hashGetAll(chunksKey(session.id));
+
+  return Object.entries(chunks)
+    .map(([part, etag]) => ({ part: parseInt(part), etag }))
+    .sort((a, b) => a.part - b.part);
+};
+
+/**
+ * Remove a session and its chunk records from Redis
+ */
+const clearSession = async (session: UploadSession) => {
+  const redisClient = RedisClient.getInstance();
+
+  await redisClient.delete(chunksKey(session.id));
+  await redisClient.delete(sessionKey(session.id));
+  await redisClient.hashDelete(MULTIPART_UPLOADS_KEY, session.id);
+};
+
+/**
+ * Controller for resumable, chunked uploads
+ *
+ * A session maps onto a MinIO multipart upload, each chunk is one part.
+ * Session state lives in Redis and expires after the configured idle time,
+ * every received chunk extends it.
+ */
+export const UploadController = {
+  /**
+   * Start a new upload session
+   *
+   * @param options - File name, type and total size, optional chunk size, metadata and dedupe policy
+   * @param user - The uploading user
+   * @returns The session with the chunk layout the client has to follow
+   */
+  createSession: async (
+    options: {
+      filename: string;
+      content_type?: string;
+      size: number;
+      chunk_size?: number;
+      metadata?: Partial<AssetMetaInput>;
+      dedupe?: DedupePolicy;
+    },
+    user: User
+  ): Promise<UploadSession> => {
+    const storage = getStorage();
+    const redisClient = RedisClient.getInstance();
+
+    const size = options.size;
+    const chunkSize = options.chunk_size || config.uploads.defaultChunkSize;
+
+    if (size > config.assets.maxUploadSize) {
+      throw new ServerError(`File exceeds the maximum upload size of ${config.assets.maxUploadSize} bytes`, 413);
+    }
+
+    const totalChunks = Math.max(1, Math.ceil(size / chunkSize));
+
+    if (totalChunks > 1 && chunkSize < MIN_CHUNK_SIZE) {
+      throw new ServerError(`Chunk size must be at least ${MIN_CHUNK_SIZE} bytes`, 400);
+    }
+
+    if (chunkSize > MAX_CHUNK_SIZE) {
+      throw new ServerError(`Chunk size can be at most ${MAX_CHUNK_SIZE} bytes`, 400);
+    }
+
+    if (totalChunks > MAX_CHUNKS) {
+      throw new ServerError(`Chunk size too small, a file can have at most ${MAX_CHUNKS} chunks`, 400);
+    }
+
+    const metadata = await validateMetadata(options.metadata);
+
+    try {
+      const assetUuid = crypto.randomUUID();
+      const contentType = options.content_type || 'application/octet-stream';
+      const storedPath = await PathUtils.generateStoredPath({
+        uuid: assetUuid,
+        extension: path.extname(options.filename),
+        meta: isCompleteMetadata(metadata) ? metadata : undefined
+      });
+
+      const uploadId = await storage.createMultipartUpload(storedPath, contentType);
+
+      const session: UploadSession = {
+        id: crypto.randomUUID(),
+        user_uuid: user.uuid,
+        asset_uuid: assetUuid,
+        filename: options.filename,
+        content_type: contentType,
+        size,
+        chunk_size: chunkSize,
+        total_chunks: totalChunks,
+        stored_path: storedPath,
+        multipart_upload_id: uploadId,
+        metadata,
+        dedupe: options.dedupe,
+        created_at: new Date().toISOString()
+      };
+
+      // The session first, the sweeper aborts uploads whose session is missing
+      await redisClient.set(sessionKey(session.id), session, config.uploads.sessionTtl);
+      const multipartUpload: SessionMultipartUpload = { stored_path: storedPath, multipart_upload_id: uploadId };
+      await redisClient.hashSet(MULTIPART_UPLOADS_KEY, session.id, JSON.stringify(multipartUpload));
+
+      logger.info(`Created upload session: ${session.id}`, {
+        filename: session.filename,
+        size,
+        totalChunks
+      });
+
+      return session;
+    } catch (error) {
+      logger.error('Upload session creation failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filename: options.filename
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to create upload session', 500);
+    }
+  },
+
+  /**
+   * Store one chunk of an upload session
+   * Re-sending a chunk that was already received replaces it
+   *
+   * @param sessionId - The upload session
+   * @param index - Chunk number, starting at 1
+   * @param data - The chunk bytes
+   * @param user - The uploading user
+   * @returns The session status after storing the chunk
+   */
+  uploadChunk: async (
+    sessionId: string,
+    index: number,
+    data: Buffer,
+    user: User
+  ): Promise<UploadSessionStatus> => {
+    const storage = getStorage();
+    const redisClient = RedisClient.getInstance();
+
+    const session = await loadSession(sessionId, user);
+
+    if (!Number.isInteger(index) || index < 1 || index > session.total_chunks) {
+      throw new ServerError(`Chunk index must be between 1 and ${session.total_chunks}`, 400);
+    }
+
+    const expectedLength = getChunkLength(session, index);
+    if (data.length !== expectedLength) {
+      throw new ServerError(`Chunk ${index} must be ${expectedLength} bytes, received ${data.length}`, 400);
+    }
+
+    try {
+      const etag = await storage.uploadPart(
+        session.stored_path,
+        session.multipart_upload_id,
+        index,
+        data
+      );
+
+      // Every chunk keeps the whole session alive for another idle period
+      await redisClient.hashSet(chunksKey(session.id), String(index), etag, config.uploads.sessionTtl);
+      await redisClient.expire(sessionKey(session.id), config.uploads.sessionTtl);
+
+      logger.debug(`Stored chunk ${index}/${session.total_chunks} of upload session: ${session.id}`);
+
+      return UploadController.getSessionStatus(sessionId, user);
+    } catch (error) {
+      logger.error('Chunk upload failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        sessionId,
+        index
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to store chunk', 500);
+    }
+  },
+
+  /**
+   * Get which chunks of a session were received
+   *
+   * @param sessionId - The upload session
+   * @param user - The uploading user
+   * @returns The session with received and missing chunk numbers
+   */
+  getSessionStatus: async (sessionId: string, user: User): Promise<UploadSessionStatus> => {
+    const redisClient = RedisClient.getInstance();
+
+    const session = await loadSession(sessionId, user);
+    const received = (await getReceivedChunks(session)).map((chunk) => chunk.part);
+    const receivedSet = new Set(received);
+
+    const missingChunks: number[] = [];
+    for (let index = 1; index <= session.total_chunks; index++) {
+      if (!receivedSet.has(index)) {
+        missingChunks.push(index);
+      }
+    }
+
+    const ttl = await redisClient.ttl(sessionKey(session.id));
+
+    return {
+      ...session,
+      received_chunks: received,
+      missing_chunks: missingChunks,
+      expires_at: new Date(Date.now() + Math.max(ttl, 0) * 1000).toISOString()
+    };
+  },
+
+  /**
+   * Complete an upload session
+   * Assembles the chunks in MinIO and records the asset exactly like a
+   * regular ingest would
+   *
+   * @param sessionId - The upload session
+   * @param user - The uploading user
+   * @returns The created asset with its metadata
+   */
+  completeSession: async (sessionId: string, user: User) => {
+    const storage = getStorage();
+
+    const session = await loadSession(sessionId, user);
+    const receivedChunks = await getReceivedChunks(session);
+
+    if (receivedChunks.length !== session.total_chunks) {
+      throw new ServerError(
+        `Upload incomplete, received ${receivedChunks.length} of ${session.total_chunks} chunks`,
+        409
+      );
+    }
+
+    let assembled = false;
+    let registered = false;
+
+    try {
+      await storage.completeMultipartUpload(
+        session.stored_path,
+        session.multipart_upload_id,
+        receivedChunks
+      );
+      assembled = true;
+
+      // Chunks can arrive in any order, so hash the assembled object
+      const digestStream = new DigestStream();
+      const objectStream = await storage.getObject(session.stored_path);
+      objectStream.pipe(digestStream);
+      for await (const _chunk of digestStream) {
+        // Drain the stream, only the digest is needed
+      }
+
+      const asset = await AssetController.registerStoredAsset({
+        assetUuid: session.asset_uuid,
+        importedPath: session.filename,
+        storedPath: session.stored_path,
+        size: digestStream.bytes,
+        hash: digestStream.digest(),
+        metaData: session.metadata,
+        user,
+        dedupePolicy: session.dedupe
+      });
+      registered = true;
+
+      // The session expires by itself, a failure to clear it must not fail the upload
+      await clearSession(session).catch((clearError) => {
+        logger.error('Failed to clear completed upload session:', {
+          error: clearError instanceof Error ? clearError.message : String(clearError),
+          sessionId
+        });
+      });
+
+      logger.info(`Completed upload session: ${session.id}`, { assetUuid: asset.uuid });
+
+      return asset;
+    } catch (error) {
+      logger.error('Upload session completion failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+
+      // Once assembled the parts are gone, so a retry is impossible and the
+      // object is orphaned, unless an asset record already points at it
+      if (assembled && !registered) {
+        await storage.deleteObject(session.stored_path).catch(() => undefined);
+        await clearSession(session);
+      }
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to complete upload session', 500);
+    }
+  },
+
+  /**
+   * Abort an upload session, discarding every received chunk
+   *
+   * @param sessionId - The upload session
+   * @param user - The uploading user
+   */
+  abortSession: async (sessionId: string, user: User) => {
+    const storage = getStorage();
+
+    const session = await loadSession(sessionId, user);
+
+    try {
+      await storage.abortMultipartUpload(session.stored_path, session.multipart_upload_id);
+      await clearSession(session);
+
+      logger.info(`Aborted upload session: ${session.id}`);
+    } catch (error) {
+      logger.error('Upload session abort failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+
+      throw new ServerError('Failed to abort upload session', 500);
+    }
+  },
+
+  /**
+   * Abort the multipart uploads of sessions that expired without being
+   * completed or aborted, so their parts don't pile up in storage
+   *
+   * @returns The number of uploads aborted
+   */
+  abortExpiredSessions: async (): Promise<number> => {
+    const storage = getStorage();
+    const redisClient = RedisClient.getInstance();
+
+    const uploads = await redisClient.hashGetAll(MULTIPART_UPLOADS_KEY);
+    let aborted = 0;
+
+    for (const [sessionId, raw] of Object.entries(uploads)) {
+      if (await redisClient.get(sessionKey(sessionId))) {
+        continue;
+      }
+
+      const upload: SessionMultipartUpload = JSON.parse(raw);
+
+      try {
+        await storage.abortMultipartUpload(upload.stored_path, upload.multipart_upload_id);
+        aborted++;
+      } catch (error) {
+        // Completed between the two reads, or already cleaned up in storage
+        logger.warn(`Could not abort multipart upload of expired session: ${sessionId}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      await redisClient.hashDelete(MULTIPART_UPLOADS_KEY, sessionId);
+    }
+
+    if (aborted > 0) {
+      logger.info(`Aborted ${aborted} multipart uploads of expired upload sessions`);
+    }
+
+    return aborted;
+  }
+};
@@ -0,0 +1,127 @@
+import { User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { config } from '../config';
+import { ServerError } from '../core/errors';
+import logger from '../logger';
+
+/**
+ * Strip secrets from a user before it leaves the server
+ */
+export const toPublicUser = (user: User) => {
+  const { password_hash, ...publicUser } = user;
+  return publicUser;
+};
+
+/**
+ * Controller for managing users
+ */
+export const UserController = {
+  /**
+   * Create a new user
+   *
+   * @param data - Email, password and optional name / admin flag
+   * @param actor - The acting user, must be an admin
+   * @returns The created user without its password hash
+   */
+  createUser: async (
+    data: {
+      email: string;
+      password: string;
+      name?: string;
+      is_admin?: boolean;
+    },
+    actor: User
+  ) => {
+    logger.info(`Creating user: ${data.email}`);
+
+    try {
+      if (!actor.is_admin) {
+        throw new ServerError('Only admins can create users', 403);
+      }
+
+      const email = data.email.trim().toLowerCase();
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email }
+      });
+
+      if (existingUser) {
+        throw new ServerError('A user with this email already exists', 409);
+      }
+
+      const user = await prisma.user.create({
+        data: {
+          email,
+          name: data.name,
+          is_admin: data.is_admin || false,
+          password_hash: await Bun.password.hash(data.password)
+        }
+      });
+
+      logger.info(`User created successfully: ${user.uuid}`);
+
+      return toPublicUser(user);
+    } catch (error) {
+      logger.error('User creation failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        email: data.email
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to create user', 500);
+    }
+  },
+
+  /**
+   * List all users
+   *
+   * @param actor - The acting user, must be an admin
+   * @returns Users without their password hashes
+   */
+  listUsers: async (actor: User) => {
+    if (!actor.is_admin) {
+      throw new ServerError('Only admins can list users', 403);
+    }
+
+    const users = await prisma.user.findMany({
+      orderBy: { created_at: 'asc' }
+    });
+
+    return users.map(toPublicUser);
+  },
+
+  /**
+   * Create the configured admin account if it doesn't exist yet
+   * Lets a fresh deployment log in without touching the database
+   */
+  ensureBootstrapAdmin: async () => {
+    const { adminEmail, adminPassword } = config.auth;
+
+    if (!adminEmail || !adminPassword) {
+      return;
+    }
+
+    const email = adminEmail.trim().toLowerCase();
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (existingUser) {
+      return;
+    }
+
+    await prisma.user.create({
+      data: {
+        email,
+        is_admin: true,
+        password_hash: await Bun.password.hash(adminPassword)
+      }
+    });
+
+    logger.info(`Created bootstrap admin user: ${email}`);
+  }
+};
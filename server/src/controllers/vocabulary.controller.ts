@@ -0,0 +1,474 @@
+import { User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { config } from '../config';
+import { ServerError } from '../core/errors';
+import { JobQueue } from '../jobs/queue';
+import logger from '../logger';
+import { Job } from '../types/job';
+import {
+  MergeVocabularyPayload,
+  VocabularyEntryInput,
+  VocabularyEntryPatch,
+  VocabularyField,
+  VocabularyIndexes,
+  VocabularyKind,
+  VocabularyMergeReport,
+  VocabularyValueCount
+} from '../types/vocabulary';
+import { AssetController } from './asset.controller';
+
+// The three tables have the same columns, so one delegate type serves them all
+type VocabularyDelegate = typeof prisma.location;
+type VocabularyClient = Pick<typeof prisma, 'location' | 'camera' | 'assetClass'>;
+
+const VOCABULARIES: Record<VocabularyKind, {
+  field: VocabularyField;
+  delegate: (client?: VocabularyClient) => VocabularyDelegate;
+}> = {
+  locations: {
+    field: 'asset_location_name',
+    delegate: (client = prisma) => client.location
+  },
+  cameras: {
+    field: 'asset_camera',
+    delegate: (client = prisma) => client.camera as unknown as VocabularyDelegate
+  },
+  classes: {
+    field: 'asset_class',
+    delegate: (client = prisma) => client.assetClass as unknown as VocabularyDelegate
+  }
+};
+
+export const VOCABULARY_KINDS = Object.keys(VOCABULARIES) as VocabularyKind[];
+
+export const MERGE_JOB_TYPE = 'vocabulary.merge';
+
+// Asset metadata rows updated per query while merging
+const MERGE_BATCH_SIZE = 100;
+
+/**
+ * Key values are matched on, ignoring case, accents and separators
+ * "North Bridge", "north_bridge" and "North-Bridge" share north_bridge
+ */
+const toVocabularyKey = (value: string): string => {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '_')
+    .replace(/^_+|_+$/g, '');
+};
+
+/**
+ * Map the key of every name and alias of a vocabulary to its entry
+ */
+const loadVocabularyIndex = async (kind: VocabularyKind, excludeId?: string) => {
+  const entries = await VOCABULARIES[kind].delegate().findMany({
+    where: excludeId ? { id: { not: excludeId } } : {},
+    select: { name: true, aliases: true }
+  });
+
+  const index = new Map<string, string>();
+  for (const entry of entries) {
+    for (const value of [entry.name, ...entry.aliases]) {
+      index.set(toVocabularyKey(value), entry.name);
+    }
+  }
+
+  return index;
+};
+
+const assertAdmin = (actor: User) => {
+  if (!actor.is_admin) {
+    throw new ServerError('Only admins can manage vocabularies', 403);
+  }
+};
+
+/**
+ * Trim the name and aliases, drop empty aliases and the ones matching the
+ * name or each other, and make sure none of them belongs to another entry
+ */
+const prepareEntry = async (kind: VocabularyKind, name: string, aliases: string[], excludeId?: string) => {
+  const trimmedName = name.trim();
+  const nameKey = toVocabularyKey(trimmedName);
+
+  if (!nameKey) {
+    throw new ServerError('name must contain a letter or digit', 400);
+  }
+
+  const keys = new Set([nameKey]);
+  const cleanAliases: string[] = [];
+  for (const alias of aliases.map((value) => value.trim())) {
+    const key = toVocabularyKey(alias);
+    if (key && !keys.has(key)) {
+      keys.add(key);
+      cleanAliases.push(alias);
+    }
+  }
+
+  const index = await loadVocabularyIndex(kind, excludeId);
+  for (const key of keys) {
+    const owner = index.get(key);
+    if (owner) {
+      throw new ServerError(`"${key}" already matches the ${kind} entry "${owner}"`, 409);
+    }
+  }
+
+  return { name: trimmedName, aliases: cleanAliases };
+};
+
+/**
+ * Controller for the managed location, camera and class values
+ */
+export const VocabularyController = {
+  /**
+   * List the entries of a vocabulary
+   */
+  listEntries: async (kind: VocabularyKind) => {
+    return VOCABULARIES[kind].delegate().findMany({
+      orderBy: { name: 'asc' }
+    });
+  },
+
+  /**
+   * List the distinct values stored on assets with the entry each resolves to
+   * Values resolving to the same entry, or to none, are what merge cleans up
+   *
+   * @param kind - The vocabulary
+   * @param actor - The acting user, must be an admin
+   * @returns The values, most used first
+   */
+  listValues: async (kind: VocabularyKind, actor: User): Promise<VocabularyValueCount[]> => {
+    assertAdmin(actor);
+
+    const field = VOCABULARIES[kind].field;
+    const [groups, index] = await Promise.all([
+      prisma.assetMetaBase.groupBy({
+        by: [field],
+        _count: { _all: true }
+      }),
+      loadVocabularyIndex(kind)
+    ]);
+
+    return groups
+      .map((group) => {
+        const value = (group as Record<VocabularyField, string>)[field];
+        return {
+          value,
+          count: group._count._all,
+          entry: index.get(toVocabularyKey(value)) ?? null
+        };
+      })
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  },
+
+  /**
+   * Add an entry to a vocabulary
+   *
+   * @param kind - The vocabulary
+   * @param data - Canonical name, aliases and description
+   * @param actor - The acting user, must be an admin
+   * @returns The created entry
+   */
+  createEntry: async (kind: VocabularyKind, data: VocabularyEntryInput, actor: User) => {
+    logger.info(`Creating ${kind} entry: ${data.name}`);
+
+    try {
+      assertAdmin(actor);
+
+      const entry = await prepareEntry(kind, data.name, data.aliases || []);
+
+      return await VOCABULARIES[kind].delegate().create({
+        data: { ...entry, description: data.description }
+      });
+    } catch (error) {
+      logger.error('Vocabulary entry creation failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        kind,
+        name: data.name
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to create vocabulary entry', 500);
+    }
+  },
+
+  /**
+   * Update an entry of a vocabulary
+   * A renamed entry keeps its old name as an alias, so values already
+   * stored still resolve to it until they are merged
+   *
+   * @param kind - The vocabulary
+   * @param entryId - ID of the entry
+   * @param patch - Fields to change, aliases replace the stored ones
+   * @param actor - The acting user, must be an admin
+   * @returns The updated entry
+   */
+  updateEntry: async (kind: VocabularyKind, entryId: string, patch: VocabularyEntryPatch, actor: User) => {
+    try {
+      assertAdmin(actor);
+
+      const delegate = VOCABULARIES[kind].delegate();
+      const existing = await delegate.findUnique({ where: { id: entryId } });
+
+      if (!existing) {
+        throw new ServerError(`No ${kind} entry with ID: ${entryId}`, 404);
+      }
+
+      const name = patch.name ?? existing.name;
+      const aliases = [...(patch.aliases ?? existing.aliases), ...(name !== existing.name ? [existing.name] : [])];
+      const entry = await prepareEntry(kind, name, aliases, entryId);
+
+      return await delegate.update({
+        where: { id: entryId },
+        data: { ...entry, description: patch.description }
+      });
+    } catch (error) {
+      logger.error('Vocabulary entry update failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        kind,
+        entryId
+      });
+
+      if (error instanceof ServerError) {
+        throw error;
+      }
+
+      throw new ServerError('Failed to update vocabulary entry', 500);
+    }
+  },
+
+  /**
+   * Delete an entry of a vocabulary, values stored on assets are kept
+   *
+   * @param kind - The vocabulary
+   * @param entryId - ID of the entry
+   * @param actor - The acting user, must be an admin
+   * @returns The deleted entry
+   */
+  deleteEntry: async (kind: VocabularyKind, entryId: string, actor: User) => {
+    assertAdmin(actor);
+
+    const delegate = VOCABULARIES[kind].delegate();
+    const entry = await delegate.findUnique({ where: { id: entryId } });
+
+    if (!entry) {
+      throw new ServerError(`No ${kind} entry with ID: ${entryId}`, 404);
+    }
+
+    await delegate.delete({ where: { id: entryId } });
+
+    logger.info(`Deleted ${kind} entry: ${entry.name}`);
+
+    return entry;
+  },
+
+  /**
+   * Consolidate duplicate values into one entry
+   *
+   * The entry named `into` is created when it doesn't exist. Every given
+   * value becomes one of its aliases and entries named like a given value
+   * are folded into it right away. Changing the assets storing a value that
+   * matches one of them can take long, so it is queued as a job, see
+   * applyMerge.
+   *
+   * @param kind - The vocabulary
+   * @param values - The duplicate values, as stored or as entry names
+   * @param into - Name of the entry they are merged into
+   * @param actor - The acting user, must be an admin
+   * @returns The queued job, its result is the merge report
+   */
+  mergeValues: async (
+    kind: VocabularyKind,
+    values: string[],
+    into: string,
+    actor: User
+  ) => {
+    assertAdmin(actor);
+
+    const field = VOCABULARIES[kind].field;
+    const delegate = VOCABULARIES[kind].delegate();
+    const intoKey = toVocabularyKey(into);
+
+    if (!intoKey) {
+      throw new ServerError('into must contain a letter or digit', 400);
+    }
+
+    const entries = await delegate.findMany();
+    const target = entries.find((entry) => toVocabularyKey(entry.name) === intoKey);
+    const valueKeys = new Set(values.map(toVocabularyKey).filter((key) => key && key !== intoKey));
+
+    // Entries whose name is one of the values are absorbed, with their aliases
+    const absorbed = entries.filter((entry) => entry !== target && valueKeys.has(toVocabularyKey(entry.name)));
+    for (const entry of absorbed) {
+      entry.aliases.forEach((alias) => valueKeys.add(toVocabularyKey(alias)));
+    }
+    valueKeys.delete(intoKey);
+
+    const name = target?.name ?? into.trim();
+    const aliases = [
+      ...(target?.aliases ?? []),
+      ...values,
+      ...absorbed.flatMap((entry) => [entry.name, ...entry.aliases])
+    ];
+
+    await prisma.$transaction(async (tx) => {
+      const txDelegate = VOCABULARIES[kind].delegate(tx);
+
+      await txDelegate.deleteMany({
+        where: { id: { in: absorbed.map((entry) => entry.id) } }
+      });
+
+      // Deduplicate against the other entries only once the absorbed ones are gone
+      const otherKeys = new Set(entries
+        .filter((entry) => entry !== target && !absorbed.includes(entry))
+        .flatMap((entry) => [entry.name, ...entry.aliases].map(toVocabularyKey)));
+
+      const cleanAliases: string[] = [];
+      const seenKeys = new Set([intoKey]);
+      for (const alias of aliases.map((value) => value.trim())) {
+        const key = toVocabularyKey(alias);
+        if (key && !seenKeys.has(key) && !otherKeys.has(key)) {
+          seenKeys.add(key);
+          cleanAliases.push(alias);
+        }
+      }
+
+      if (target) {
+        await txDelegate.update({ where: { id: target.id }, data: { aliases: cleanAliases } });
+      } else {
+        await txDelegate.create({ data: { name, aliases: cleanAliases } });
+      }
+    });
+
+    // Stored values are matched by key, so every spelling is caught
+    const groups = await prisma.assetMetaBase.groupBy({ by: [field] });
+    const storedValues = groups
+      .map((group) => (group as Record<VocabularyField, string>)[field])
+      .filter((value) => value !== name && (valueKeys.has(toVocabularyKey(value)) || toVocabularyKey(value) === intoKey));
+
+    const payload: MergeVocabularyPayload = { kind, into: name, values: storedValues };
+    const job = await JobQueue.getInstance().enqueue(MERGE_JOB_TYPE, payload, {
+      user_uuid: actor.uuid
+    });
+
+    logger.info(`Queued merge of ${kind} values into "${name}": ${job.id}`, { values: storedValues });
+
+    return job;
+  },
+
+  /**
+   * Change the assets storing merged values to the name they were merged into
+   * Each change is recorded in the asset's metadata history and the asset is
+   * relocated, a failing asset is reported and doesn't stop the others.
+   *
+   * @param job - The merge job
+   * @param actor - The admin who started the merge
+   * @returns How many assets were changed and which failed
+   */
+  applyMerge: async (job: Job<MergeVocabularyPayload>, actor: User): Promise<VocabularyMergeReport> => {
+    const { kind, into: name, values } = job.payload;
+    const field = VOCABULARIES[kind].field;
+    const storedValues = values.filter((value) => value !== name);
+
+    logger.info(`Merging ${kind} values into "${name}"`, { values: storedValues, job: job.id });
+
+    const report: VocabularyMergeReport = { into: name, updated: 0, failed: 0, failures: [] };
+    const failedIds: string[] = [];
+
+    while (storedValues.length > 0) {
+      // Changed rows stop matching, failed ones are skipped
+      const rows = await prisma.assetMetaBase.findMany({
+        where: {
+          [field]: { in: storedValues },
+          asset_id: { notIn: failedIds }
+        },
+        take: MERGE_BATCH_SIZE
+      });
+
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        try {
+          // False when it changed in between and no longer stores a merged value
+          if (await AssetController.replaceVocabularyValue(row.asset_id, field, storedValues, name, actor)) {
+            report.updated++;
+          }
+        } catch (error) {
+          failedIds.push(row.asset_id);
+          report.failed++;
+          report.failures.push({
+            asset_uuid: row.asset_id,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    logger.info(`Merged ${kind} values into "${name}"`, { updated: report.updated, failed: report.failed });
+
+    return report;
+  },
+
+  /**
+   * Read every vocabulary for normalizeMetadata, once for a whole batch
+   *
+   * @returns The index of each vocabulary
+   */
+  loadIndexes: async (): Promise<VocabularyIndexes> => {
+    const indexes = await Promise.all(VOCABULARY_KINDS.map(async (kind) => [kind, await loadVocabularyIndex(kind)]));
+    return Object.fromEntries(indexes) as VocabularyIndexes;
+  },
+
+  /**
+   * Replace location, camera and class values with the canonical name of
+   * the entry they match, ignoring case, accents and separators
+   * Values matching no entry are kept as typed, unless strict mode is on
+   * and the vocabulary has entries, then they are rejected
+   *
+   * @param metadata - Metadata as given, fields that are missing are left alone
+   * @param options - strict overrides VOCABULARY_STRICT, jobs pass false.
+   *   indexes from loadIndexes are used instead of reading the vocabularies,
+   *   so a batch reads them once
+   * @returns The metadata with normalized values
+   */
+  normalizeMetadata: async <T extends { [field in VocabularyField]?: string | null }>(
+    metadata: T,
+    options: { strict?: boolean; indexes?: VocabularyIndexes } = {}
+  ): Promise<T> => {
+    const strict = options.strict ?? config.vocabularies.strict;
+    const normalized: T = { ...metadata };
+    const unknown: Partial<Record<VocabularyField, string>> = {};
+
+    for (const kind of VOCABULARY_KINDS) {
+      const field = VOCABULARIES[kind].field;
+      const value = metadata[field];
+      if (typeof value !== 'string' || !value.trim()) {
+        continue;
+      }
+
+      const index = options.indexes?.[kind] ?? await loadVocabularyIndex(kind);
+      const name = index.get(toVocabularyKey(value));
+
+      if (name) {
+        normalized[field] = name as T[VocabularyField];
+      } else if (strict && index.size > 0) {
+        unknown[field] = value;
+      } else {
+        normalized[field] = value.trim() as T[VocabularyField];
+      }
+    }
+
+    if (Object.keys(unknown).length > 0) {
+      const fields = Object.entries(unknown).map(([field, value]) => `${field} "${value}"`);
+      throw new ServerError(`Unknown vocabulary values: ${fields.join(', ')}`, 400, unknown);
+    }
+
+    return normalized;
+  }
+};
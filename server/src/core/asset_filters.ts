@@ -0,0 +1,216 @@
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { ServerError } from './errors';
+import { parseBBox, parseCoordinates, parsePolygon } from './geo';
+import { parseCustomFilter } from './custom_metadata';
+import { parseTagFilter } from './tags';
+import { AssetListFilters } from '../types/asset';
+
+/**
+ * Parse an optional date filter, rejecting anything Date can't make sense of
+ */
+const parseDateFilter = (value: string | undefined, field: string): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ServerError(`Invalid date for ${field}: ${value}`, 400);
+  }
+  return date;
+};
+
+// SQL operators of the custom metadata comparisons
+const CUSTOM_OPERATORS: Record<string, string> = {
+  equals: '=',
+  not: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<='
+};
+
+// Every listing query reads assets a joined with their base metadata m
+const FILTER_FROM = Prisma.sql`"assets" a LEFT JOIN "asset_meta_base" m ON m."asset_id" = a."uuid"`;
+
+/**
+ * Conditions of the metadata, tag, collection, file and date filters
+ */
+const buildAssetConditions = (filters: AssetListFilters): Prisma.Sql[] => {
+  // Trashed assets are only listed when explicitly asked for
+  const conditions: Prisma.Sql[] = [
+    filters.trashed ? Prisma.sql`a."deleted_at" IS NOT NULL` : Prisma.sql`a."deleted_at" IS NULL`
+  ];
+  
+  // Metadata filters
+  if (filters.asset_type) conditions.push(Prisma.sql`m."asset_type" = ${filters.asset_type}`);
+  if (filters.asset_class) conditions.push(Prisma.sql`m."asset_class" = ${filters.asset_class}`);
+  if (filters.asset_location_name) conditions.push(Prisma.sql`m."asset_location_name" = ${filters.asset_location_name}`);
+  if (filters.asset_camera) conditions.push(Prisma.sql`m."asset_camera" = ${filters.asset_camera}`);
+  if (filters.asset_date_label) conditions.push(Prisma.sql`m."asset_date_label" = ${filters.asset_date_label}`);
+  
+  // Every custom field condition must hold, ordering comparisons only
+  // between values of the same JSON type
+  if (filters.custom) {
+    for (const { field, ...comparison } of parseCustomFilter(filters.custom)) {
+      for (const [operator, operand] of Object.entries(comparison)) {
+        const value = JSON.stringify(operand);
+        conditions.push(Prisma.sql`(m."custom" -> ${field}) ${Prisma.raw(CUSTOM_OPERATORS[operator])} ${value}::jsonb`);
+        if (operator !== 'equals' && operator !== 'not') {
+          conditions.push(Prisma.sql`jsonb_typeof(m."custom" -> ${field}) = jsonb_typeof(${value}::jsonb)`);
+        }
+      }
+    }
+  }
+  
+  if (filters.unclassified) {
+    conditions.push(Prisma.sql`m."asset_id" IS NULL`);
+  }
+  
+  // all: every tag must be on the asset, any: at least one of them
+  if (filters.tags) {
+    const tags = parseTagFilter(filters.tags);
+    const hasTag = (names: string[]) => Prisma.sql`EXISTS (
+      SELECT 1 FROM "asset_tags" atg JOIN "tags" t ON t."id" = atg."tag_id"
+      WHERE atg."asset_id" = a."uuid" AND t."name" IN (${Prisma.join(names)})
+    )`;
+    
+    if (filters.tag_mode === 'any') {
+      conditions.push(hasTag(tags));
+    } else {
+      conditions.push(...tags.map((name) => hasTag([name])));
+    }
+  }
+  
+  if (filters.collection) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "collection_items" ci
+      WHERE ci."asset_id" = a."uuid" AND ci."collection_id" = ${filters.collection}
+    )`);
+  }
+  
+  // Extensions are stored without the leading dot and keep the original casing
+  if (filters.extension) {
+    conditions.push(Prisma.sql`lower(a."extension") = lower(${filters.extension.replace(/^\./, '')})`);
+  }
+  
+  if (filters.size_min !== undefined) conditions.push(Prisma.sql`a."size" >= ${filters.size_min}::float8`);
+  if (filters.size_max !== undefined) conditions.push(Prisma.sql`a."size" <= ${filters.size_max}::float8`);
+  
+  const uploadedAfter = parseDateFilter(filters.uploaded_after, 'uploaded_after');
+  const uploadedBefore = parseDateFilter(filters.uploaded_before, 'uploaded_before');
+  if (uploadedAfter) conditions.push(Prisma.sql`a."uploaded_at" >= ${uploadedAfter}`);
+  if (uploadedBefore) conditions.push(Prisma.sql`a."uploaded_at" <= ${uploadedBefore}`);
+  
+  return conditions;
+};
+
+/**
+ * Conditions of the area filters, evaluated by PostGIS
+ * Uses the GiST index on asset_meta_base.location
+ */
+const buildAreaConditions = (filters: AssetListFilters): Prisma.Sql[] => {
+  const conditions: Prisma.Sql[] = [];
+  
+  if (filters.lat !== undefined || filters.lon !== undefined || filters.radius !== undefined) {
+    if (filters.lat === undefined || filters.lon === undefined || filters.radius === undefined) {
+      throw new ServerError('lat, lon and radius must be given together', 400);
+    }
+    
+    parseCoordinates({ latitude: filters.lat, longitude: filters.lon });
+    if (filters.radius <= 0) {
+      throw new ServerError('radius must be a positive number of meters', 400);
+    }
+    
+    conditions.push(Prisma.sql`ST_DWithin(
+      m."location",
+      ST_SetSRID(ST_MakePoint(${filters.lon}::float8, ${filters.lat}::float8), 4326)::geography,
+      ${filters.radius}::float8
+    )`);
+  }
+  
+  if (filters.bbox) {
+    const [minLon, minLat, maxLon, maxLat] = parseBBox(filters.bbox);
+    conditions.push(Prisma.sql`ST_Intersects(
+      m."location",
+      ST_MakeEnvelope(${minLon}::float8, ${minLat}::float8, ${maxLon}::float8, ${maxLat}::float8, 4326)::geography
+    )`);
+  }
+  
+  if (filters.polygon) {
+    const polygon = parsePolygon(filters.polygon);
+    conditions.push(Prisma.sql`ST_Covers(
+      ST_SetSRID(ST_GeomFromGeoJSON(${polygon}), 4326)::geography,
+      m."location"
+    )`);
+  }
+  
+  return conditions;
+};
+
+/**
+ * Build the condition of every asset listing filter, the spatial ones
+ * included, over "assets" a left joined with "asset_meta_base" m
+ * Throws a 400 for invalid filters, so it also checks filters up front
+ */
+export const buildAssetFilterSql = (filters: AssetListFilters): Prisma.Sql => {
+  return Prisma.join([...buildAssetConditions(filters), ...buildAreaConditions(filters)], ' AND ');
+};
+
+/**
+ * Only the assets "assets" a the user has any access to, admins see everything
+ */
+export const buildAccessSql = (user: User): Prisma.Sql => {
+  if (user.is_admin) {
+    return Prisma.sql`TRUE`;
+  }
+  
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM "asset_access" x
+    WHERE x."asset_id" = a."uuid" AND x."user_id" = ${user.uuid}
+  )`;
+};
+
+/**
+ * Find a page of the assets matching the listing filters that the user can
+ * view, newest first with the UUID as tie-breaker, in a single query so
+ * the database applies the filters and the limit
+ * 
+ * @param options - Most assets to return and the UUID of the last asset of the previous page
+ * @returns The UUIDs of the page, in order
+ */
+export const findFilteredAssetIds = async (
+  filters: AssetListFilters,
+  user: User,
+  options: { limit: number; cursor?: string }
+): Promise<string[]> => {
+  const conditions = [buildAssetFilterSql(filters), buildAccessSql(user)];
+  
+  if (options.cursor) {
+    conditions.push(Prisma.sql`(a."uploaded_at", a."uuid") < (
+      SELECT c."uploaded_at", c."uuid" FROM "assets" c WHERE c."uuid" = ${options.cursor}
+    )`);
+  }
+  
+  const rows = await prisma.$queryRaw<{ uuid: string }[]>`
+    SELECT a."uuid" FROM ${FILTER_FROM}
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    ORDER BY a."uploaded_at" DESC, a."uuid" DESC
+    LIMIT ${options.limit}
+  `;
+  
+  return rows.map((row) => row.uuid);
+};
+
+/**
+ * Count the assets matching the listing filters that the user can view
+ */
+export const countFilteredAssets = async (filters: AssetListFilters, user: User): Promise<number> => {
+  const [row] = await prisma.$queryRaw<{ count: number }[]>`
+    SELECT COUNT(*)::int AS "count" FROM ${FILTER_FROM}
+    WHERE ${buildAssetFilterSql(filters)} AND ${buildAccessSql(user)}
+  `;
+  
+  return row.count;
+};
@@ -0,0 +1,250 @@
+import { ServerError } from './errors';
+import {
+  CustomFilterOperator,
+  CustomMetadata,
+  CustomMetadataFilter,
+  MetadataFieldDefinition,
+  MetadataFieldType
+} from '../types/metadata';
+
+export const FIELD_TYPES: MetadataFieldType[] = ['string', 'number', 'date', 'enum', 'bool'];
+
+const FIELD_NAME = /^[a-z][a-z0-9_]{0,62}$/;
+
+const FILTER_OPERATORS: CustomFilterOperator[] = ['equals', 'not', 'gt', 'gte', 'lt', 'lte'];
+
+const isFilterOperator = (value: string): value is CustomFilterOperator => {
+  return (FILTER_OPERATORS as string[]).includes(value);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Check the field definitions of a metadata schema
+ *
+ * @param fields - Field definitions as sent by an admin
+ * @returns The definitions, with unknown properties dropped
+ */
+export const parseFieldDefinitions = (fields: unknown): MetadataFieldDefinition[] => {
+  if (!Array.isArray(fields)) {
+    throw new ServerError('fields must be an array of field definitions', 400);
+  }
+
+  const names = new Set<string>();
+
+  return fields.map((field, index) => {
+    if (!isPlainObject(field)) {
+      throw new ServerError(`Field ${index + 1} must be an object`, 400);
+    }
+
+    const { name, type, required, values, min, max, description } = field;
+
+    if (typeof name !== 'string' || !FIELD_NAME.test(name)) {
+      throw new ServerError(`Field ${index + 1} needs a name of lower-case letters, digits and underscores`, 400);
+    }
+    if (names.has(name)) {
+      throw new ServerError(`Field ${name} is defined twice`, 400);
+    }
+    names.add(name);
+
+    if (!FIELD_TYPES.includes(type as MetadataFieldType)) {
+      throw new ServerError(`Field ${name} must have a type of: ${FIELD_TYPES.join(', ')}`, 400);
+    }
+
+    const definition: MetadataFieldDefinition = {
+      name,
+      type: type as MetadataFieldType,
+      required: required === true
+    };
+
+    if (typeof description === 'string' && description) {
+      definition.description = description;
+    }
+
+    if (definition.type === 'enum') {
+      if (!Array.isArray(values) || values.length === 0 || !values.every((value) => typeof value === 'string')) {
+        throw new ServerError(`Enum field ${name} needs a non-empty values list of strings`, 400);
+      }
+      definition.values = [...new Set(values as string[])];
+    }
+
+    if (definition.type === 'number') {
+      for (const [bound, value] of Object.entries({ min, max })) {
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+          throw new ServerError(`Field ${name} ${bound} must be a number`, 400);
+        }
+      }
+      if (typeof min === 'number' && typeof max === 'number' && min > max) {
+        throw new ServerError(`Field ${name} min must not be above max`, 400);
+      }
+      if (typeof min === 'number') definition.min = min;
+      if (typeof max === 'number') definition.max = max;
+    }
+
+    return definition;
+  });
+};
+
+/**
+ * Coerce a single value to its field type
+ * Form fields and manifest columns arrive as strings, so those are parsed
+ *
+ * @returns The stored value, or an error message
+ */
+const coerceValue = (field: MetadataFieldDefinition, value: unknown): string | number | boolean | { error: string } => {
+  switch (field.type) {
+    case 'string':
+      if (typeof value === 'string' || typeof value === 'number') {
+        return String(value);
+      }
+      return { error: `${field.name} must be a string` };
+
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return { error: `${field.name} must be a number` };
+      }
+      if (field.min !== undefined && number < field.min) {
+        return { error: `${field.name} must be at least ${field.min}` };
+      }
+      if (field.max !== undefined && number > field.max) {
+        return { error: `${field.name} must be at most ${field.max}` };
+      }
+      return number;
+    }
+
+    case 'date': {
+      const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+      if (!date || isNaN(date.getTime())) {
+        return { error: `${field.name} must be a date` };
+      }
+      return date.toISOString();
+    }
+
+    case 'enum':
+      if (typeof value !== 'string' || !field.values?.includes(value)) {
+        return { error: `${field.name} must be one of: ${(field.values || []).join(', ')}` };
+      }
+      return value;
+
+    case 'bool':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (value === 'true' || value === '1') {
+        return true;
+      }
+      if (value === 'false' || value === '0') {
+        return false;
+      }
+      return { error: `${field.name} must be true or false` };
+  }
+};
+
+/**
+ * Validate custom metadata against the fields of a schema
+ * Every problem is reported at once, so a client can fix them in one go
+ *
+ * @param fields - The schema's field definitions
+ * @param values - The custom values, empty strings count as missing
+ * @returns The values coerced to their field types
+ */
+export const validateCustomMetadata = (
+  fields: MetadataFieldDefinition[],
+  values: Record<string, unknown>
+): CustomMetadata => {
+  const custom: CustomMetadata = {};
+  const errors: string[] = [];
+
+  const known = new Set(fields.map((field) => field.name));
+  for (const name of Object.keys(values)) {
+    if (!known.has(name)) {
+      errors.push(`${name} is not a field of this asset_type`);
+    }
+  }
+
+  for (const field of fields) {
+    const value = values[field.name];
+
+    if (value === undefined || value === null || value === '') {
+      if (field.required) {
+        errors.push(`${field.name} is required`);
+      }
+      continue;
+    }
+
+    const coerced = coerceValue(field, value);
+    if (typeof coerced === 'object') {
+      errors.push(coerced.error);
+    } else {
+      custom[field.name] = coerced;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ServerError(`Invalid custom metadata: ${errors.join('; ')}`, 400, { errors });
+  }
+
+  return custom;
+};
+
+/**
+ * Parse custom metadata sent as a JSON form field
+ */
+export const parseCustomField = (value: string): Record<string, unknown> => {
+  let custom: unknown;
+  try {
+    custom = JSON.parse(value);
+  } catch (error) {
+    throw new ServerError('custom must be a JSON object', 400);
+  }
+
+  if (!isPlainObject(custom)) {
+    throw new ServerError('custom must be a JSON object', 400);
+  }
+
+  return custom;
+};
+
+/**
+ * Parse a custom metadata filter from the listing query
+ *
+ * Takes a JSON object keyed by field name, a plain value matches exactly and
+ * an object compares with equals / not / gt / gte / lt / lte, e.g.
+ * `{"sensor": "FLIR", "emissivity": {"gte": 0.9}}`
+ */
+export const parseCustomFilter = (value: string): CustomMetadataFilter[] => {
+  const filter = parseCustomField(value);
+
+  return Object.entries(filter).map(([field, condition]) => {
+    if (!FIELD_NAME.test(field)) {
+      throw new ServerError(`Invalid custom field name: ${field}`, 400);
+    }
+
+    if (!isPlainObject(condition)) {
+      if (!['string', 'number', 'boolean'].includes(typeof condition)) {
+        throw new ServerError(`custom.${field} must be a value or a comparison object`, 400);
+      }
+      return { field, equals: condition as string | number | boolean };
+    }
+
+    const comparison: CustomMetadataFilter = { field };
+    for (const [operator, operand] of Object.entries(condition)) {
+      if (!isFilterOperator(operator)) {
+        throw new ServerError(`custom.${field} operators are: ${FILTER_OPERATORS.join(', ')}`, 400);
+      }
+
+      const comparable = typeof operand === 'string' || typeof operand === 'number' ||
+        (typeof operand === 'boolean' && (operator === 'equals' || operator === 'not'));
+      if (!comparable) {
+        throw new ServerError(`custom.${field}.${operator} has an invalid value`, 400);
+      }
+
+      comparison[operator] = operand;
+    }
+
+    return comparison;
+  });
+};
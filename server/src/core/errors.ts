@@ -0,0 +1,23 @@
+/**
+ * Error thrown by controllers, carries the HTTP status code routes respond with
+ * and optional data to return alongside the error message
+ */
+export class ServerError extends Error {
+  statusCode: number;
+  details?: any;
+  
+  constructor(message: string, statusCode: number = 500, details?: any) {
+    super(message);
+    this.statusCode = statusCode;
+    this.details = details;
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Error of a storage provider for a missing object, with the code MinIO uses
+ * so callers handle every provider the same way
+ */
+export const objectNotFound = (objectName: string) => {
+  return Object.assign(new Error(`Object not found: ${objectName}`), { code: 'NotFound' });
+};
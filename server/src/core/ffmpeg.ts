@@ -0,0 +1,111 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { config } from '../config';
+
+// Largest output kept from a single run, a poster frame or a telemetry track
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+export interface ProbeStream {
+  index: number;
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  duration?: string;
+  disposition?: Record<string, number>;
+  tags?: Record<string, string>;
+  side_data_list?: Record<string, any>[];
+}
+
+export interface ProbeResult {
+  streams: ProbeStream[];
+  format: {
+    format_name?: string;
+    duration?: string;
+    bit_rate?: string;
+    tags?: Record<string, string>;
+  };
+}
+
+/**
+ * Run ffprobe / ffmpeg and collect its standard output
+ * Fails with the tool's error output when it exits non-zero or times out
+ */
+const run = (command: string, args: string[]): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, {
+      encoding: 'buffer',
+      timeout: config.media.timeout * 1000,
+      maxBuffer: MAX_OUTPUT
+    }, (error, stdout, stderr) => {
+      if (error) {
+        const message = stderr.toString().trim() || error.message;
+        reject(new Error(`${path.basename(command)} failed: ${message}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+};
+
+/**
+ * Read the container and stream information of a media file
+ *
+ * @param input - File path or URL, ffprobe only reads the parts it needs
+ */
+export const probeMedia = async (input: string): Promise<ProbeResult> => {
+  const output = await run(config.media.ffprobePath, [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format',
+    '-show_streams',
+    input
+  ]);
+
+  const result = JSON.parse(output.toString('utf8'));
+  return { streams: result.streams || [], format: result.format || {} };
+};
+
+/**
+ * Grab a single video frame as a PNG
+ *
+ * @param input - File path or URL
+ * @param seconds - Position of the frame, seeking happens before decoding
+ */
+export const extractFrame = async (input: string, seconds: number): Promise<Buffer> => {
+  const frame = await run(config.media.ffmpegPath, [
+    '-v', 'error',
+    '-ss', seconds.toFixed(3),
+    '-i', input,
+    '-frames:v', '1',
+    '-f', 'image2pipe',
+    '-c:v', 'png',
+    '-'
+  ]);
+
+  if (frame.length === 0) {
+    throw new Error(`No frame found at ${seconds} seconds`);
+  }
+
+  return frame;
+};
+
+/**
+ * Convert a subtitle stream to SRT text
+ *
+ * @param input - File path or URL
+ * @param streamIndex - Absolute index of the stream as reported by probeMedia
+ */
+export const extractSubtitles = async (input: string, streamIndex: number): Promise<string> => {
+  const subtitles = await run(config.media.ffmpegPath, [
+    '-v', 'error',
+    '-i', input,
+    '-map', `0:${streamIndex}`,
+    '-f', 'srt',
+    '-'
+  ]);
+
+  return subtitles.toString('utf8');
+};
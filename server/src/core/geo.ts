@@ -0,0 +1,156 @@
+import { ServerError } from './errors';
+
+export interface Coordinates {
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+}
+
+// Bounding box as minLon, minLat, maxLon, maxLat like GeoJSON
+export type BBox = [number, number, number, number];
+
+const parseNumber = (value: string | number, name: string): number => {
+  const number = typeof value === 'number' ? value : Number(value.trim());
+  if (!Number.isFinite(number)) {
+    throw new ServerError(`${name} must be a number`, 400);
+  }
+  return number;
+};
+
+const assertLatitude = (latitude: number, name: string = 'latitude') => {
+  if (latitude < -90 || latitude > 90) {
+    throw new ServerError(`${name} must be between -90 and 90`, 400);
+  }
+};
+
+const assertLongitude = (longitude: number, name: string = 'longitude') => {
+  if (longitude < -180 || longitude > 180) {
+    throw new ServerError(`${name} must be between -180 and 180`, 400);
+  }
+};
+
+/**
+ * Parse and validate a position from form fields or a JSON body
+ * Latitude and longitude must be given together, altitude is optional
+ *
+ * @param fields - Raw values, empty strings count as missing
+ * @returns Only the coordinates that were given
+ */
+export const parseCoordinates = (fields: {
+  latitude?: string | number;
+  longitude?: string | number;
+  altitude?: string | number;
+}): Coordinates => {
+  const given = (value?: string | number) => value !== undefined && value !== '';
+  const coordinates: Coordinates = {};
+
+  if (given(fields.latitude) !== given(fields.longitude)) {
+    throw new ServerError('latitude and longitude must be given together', 400);
+  }
+
+  if (given(fields.latitude) && given(fields.longitude)) {
+    coordinates.latitude = parseNumber(fields.latitude!, 'latitude');
+    coordinates.longitude = parseNumber(fields.longitude!, 'longitude');
+    assertLatitude(coordinates.latitude);
+    assertLongitude(coordinates.longitude);
+  }
+
+  if (given(fields.altitude)) {
+    coordinates.altitude = parseNumber(fields.altitude!, 'altitude');
+  }
+
+  return coordinates;
+};
+
+/**
+ * Parse a "minLon,minLat,maxLon,maxLat" bounding box
+ */
+export const parseBBox = (value: string): BBox => {
+  const parts = value.split(',');
+  if (parts.length !== 4) {
+    throw new ServerError('bbox must be minLon,minLat,maxLon,maxLat', 400);
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = parts.map((part) => parseNumber(part, 'bbox'));
+  assertLongitude(minLon, 'bbox longitude');
+  assertLongitude(maxLon, 'bbox longitude');
+  assertLatitude(minLat, 'bbox latitude');
+  assertLatitude(maxLat, 'bbox latitude');
+
+  if (minLon >= maxLon || minLat >= maxLat) {
+    throw new ServerError('bbox minimum must be below its maximum', 400);
+  }
+
+  return [minLon, minLat, maxLon, maxLat];
+};
+
+/**
+ * Check a GeoJSON Polygon / MultiPolygon geometry before it is handed to PostGIS
+ *
+ * @param value - The geometry as a JSON string
+ * @returns The geometry, re-serialized
+ */
+export const parsePolygon = (value: string): string => {
+  let geometry: any;
+  try {
+    geometry = JSON.parse(value);
+  } catch (error) {
+    throw new ServerError('polygon must be a GeoJSON geometry', 400);
+  }
+
+  if (!geometry || !['Polygon', 'MultiPolygon'].includes(geometry.type) || !Array.isArray(geometry.coordinates)) {
+    throw new ServerError('polygon must be a GeoJSON Polygon or MultiPolygon', 400);
+  }
+
+  const polygons: any[] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  for (const rings of polygons) {
+    for (const ring of Array.isArray(rings) ? rings : [null]) {
+      if (!Array.isArray(ring) || ring.length < 4) {
+        throw new ServerError('polygon rings need at least 4 positions', 400);
+      }
+
+      for (const position of ring) {
+        if (!Array.isArray(position) || position.length < 2) {
+          throw new ServerError('polygon positions must be [longitude, latitude]', 400);
+        }
+        assertLongitude(parseNumber(position[0], 'polygon longitude'), 'polygon longitude');
+        assertLatitude(parseNumber(position[1], 'polygon latitude'), 'polygon latitude');
+      }
+    }
+  }
+
+  return JSON.stringify({ type: geometry.type, coordinates: geometry.coordinates });
+};
+
+/**
+ * Turn assets into a GeoJSON FeatureCollection
+ * Assets without a position get a null geometry, which GeoJSON allows
+ *
+ * @param assets - Assets with their meta_base included
+ * @param extra - Foreign members added to the collection, like pagination
+ */
+export const toFeatureCollection = (
+  assets: Array<{
+    uuid: string;
+    meta_base?: { latitude: number | null; longitude: number | null; altitude: number | null } | null;
+  }>,
+  extra: Record<string, any> = {}
+) => {
+  return {
+    type: 'FeatureCollection',
+    ...extra,
+    features: assets.map((asset) => {
+      const meta = asset.meta_base;
+      const position = meta && meta.latitude !== null && meta.longitude !== null
+        ? [meta.longitude, meta.latitude, ...(meta.altitude !== null ? [meta.altitude] : [])]
+        : null;
+
+      return {
+        type: 'Feature',
+        id: asset.uuid,
+        geometry: position ? { type: 'Point', coordinates: position } : null,
+        properties: asset
+      };
+    })
+  };
+};
@@ -0,0 +1,73 @@
+// Inclusive byte range of a Range request
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a Range header against the size of the content
+ *
+ * Only single byte ranges are served, `bytes=0-99`, `bytes=100-` and the
+ * suffix form `bytes=-100`. Anything else, including several ranges, is
+ * ignored and the whole content is sent, as RFC 9110 allows.
+ *
+ * @returns The range clamped to the content, 'unsatisfiable' when it starts
+ * past the end, or undefined when the whole content should be sent
+ */
+export const parseRange = (header: string | undefined | null, size: number): ByteRange | 'unsatisfiable' | undefined => {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+
+  if (!match[1]) {
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? parseInt(match[2], 10) : size - 1;
+
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+
+  if (end < start) {
+    return undefined;
+  }
+
+  return { start, end: Math.min(end, size - 1) };
+};
+
+/**
+ * Check an If-None-Match or If-Range header against an ETag
+ * Weak validators match too, the comparison only decides whether to resend
+ */
+export const matchesETag = (header: string | undefined | null, etag: string): boolean => {
+  if (!header) {
+    return false;
+  }
+
+  const strip = (value: string) => value.trim().replace(/^W\//, '');
+  return header.split(',').some((value) => value.trim() === '*' || strip(value) === strip(etag));
+};
+
+/**
+ * Build a Content-Disposition header keeping the original filename
+ * An ASCII fallback goes in filename, the exact name in filename* (RFC 6266)
+ */
+export const contentDisposition = (filename: string, type: 'inline' | 'attachment' = 'inline'): string => {
+  const fallback = filename
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7e]/g, '')
+    .replace(/["\\]/g, '_')
+    .trim() || 'download';
+
+  const encoded = encodeURIComponent(filename)
+    .replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
@@ -0,0 +1,182 @@
+import path from 'path';
+import { ServerError } from './errors';
+
+// Manifest rows keyed by the normalized file path they describe
+export type Manifest = Map<string, Record<string, string>>;
+
+// Columns that can name the file a manifest row belongs to
+const PATH_KEYS = ['path', 'filename', 'file'];
+
+/**
+ * Normalize a path from a manifest, an archive or a client upload so they compare equal
+ */
+export const normalizeManifestPath = (filePath: string): string => {
+  return filePath
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/|\/)+/, '')
+    .toLowerCase();
+};
+
+/**
+ * Split CSV text into rows of fields
+ * Supports quoted fields with embedded commas, quotes and newlines
+ */
+const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+};
+
+/**
+ * Turn CSV text with a header row into records
+ */
+const csvToRecords = (content: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+
+  return rows.map((fields) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (fields[index] || '').trim();
+    });
+    return record;
+  });
+};
+
+/**
+ * Turn a JSON manifest into records
+ * Accepts an array of rows with a path column, or an object keyed by path
+ */
+const jsonToRecords = (content: string): Record<string, string>[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ServerError('Manifest is not valid JSON', 400);
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+
+  if (parsed && typeof parsed === 'object') {
+    return Object.entries(parsed).map(([filePath, fields]) => ({
+      ...(fields as Record<string, string>),
+      path: filePath
+    }));
+  }
+
+  throw new ServerError('Manifest must be an array or an object keyed by file path', 400);
+};
+
+/**
+ * Parse a JSON or CSV manifest mapping files to their metadata
+ *
+ * @param content - The manifest text
+ * @param filename - Manifest file name, used to pick the format when given
+ * @returns Rows keyed by normalized file path
+ */
+export const parseManifest = (content: string, filename?: string): Manifest => {
+  const text = content.replace(/^\uFEFF/, '');
+  const extension = filename ? path.extname(filename).toLowerCase() : '';
+  const isJson = extension === '.json' || (extension !== '.csv' && /^\s*[[{]/.test(text));
+
+  const records = isJson ? jsonToRecords(text) : csvToRecords(text);
+  const manifest: Manifest = new Map();
+
+  records.forEach((record, index) => {
+    const pathKey = PATH_KEYS.find((key) => record && typeof record[key] === 'string' && record[key]);
+    if (!pathKey) {
+      throw new ServerError(`Manifest row ${index + 1} has no ${PATH_KEYS.join(' or ')} column`, 400);
+    }
+
+    // A custom object in a JSON row becomes custom.<field> columns like in CSV
+    const { custom, ...fields } = record as Record<string, any>;
+    const columns = custom && typeof custom === 'object' && !Array.isArray(custom)
+      ? { ...fields, ...Object.fromEntries(Object.entries(custom).map(([key, value]) => [`custom.${key}`, value])) }
+      : record;
+
+    const values: Record<string, string> = {};
+    for (const [key, value] of Object.entries(columns)) {
+      if (value !== undefined && value !== null && String(value).trim()) {
+        values[key] = String(value).trim();
+      }
+    }
+
+    manifest.set(normalizeManifestPath(record[pathKey]), values);
+  });
+
+  return manifest;
+};
+
+/**
+ * Find the manifest row for a file
+ * Rows match on the full path first, rows naming only a file match on the base name
+ *
+ * @returns The key of the matching row and the row, or undefined
+ */
+export const lookupManifest = (
+  manifest: Manifest,
+  filePath: string
+): [string, Record<string, string>] | undefined => {
+  const normalized = normalizeManifestPath(filePath);
+
+  const exact = manifest.get(normalized);
+  if (exact) {
+    return [normalized, exact];
+  }
+
+  const basename = path.posix.basename(normalized);
+  const byName = manifest.get(basename);
+  if (byName) {
+    return [basename, byName];
+  }
+
+  return undefined;
+};
@@ -0,0 +1,108 @@
+import { Prisma } from '@prisma/client';
+import { MetaHistoryAction, MetaSnapshot } from '../types/asset';
+
+// Columns of asset_meta_base that are tracked, in the order they are reported
+export const SNAPSHOT_FIELDS = [
+  'asset_type',
+  'asset_class',
+  'asset_location_name',
+  'asset_camera',
+  'asset_date_label',
+  'latitude',
+  'longitude',
+  'altitude',
+  'custom'
+] as const;
+
+/**
+ * Serialize with sorted object keys, JSONB doesn't keep the key order it was given
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Take the tracked fields of an asset_meta_base row
+ *
+ * @returns The snapshot, or null when the asset has no base metadata
+ */
+export const toMetaSnapshot = (meta?: {
+  asset_type: string;
+  asset_class: string;
+  asset_location_name: string;
+  asset_camera: string;
+  asset_date_label: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  altitude?: number | null;
+  custom?: unknown;
+} | null): MetaSnapshot | null => {
+  if (!meta) {
+    return null;
+  }
+
+  return {
+    asset_type: meta.asset_type,
+    asset_class: meta.asset_class,
+    asset_location_name: meta.asset_location_name,
+    asset_camera: meta.asset_camera,
+    asset_date_label: meta.asset_date_label,
+    latitude: meta.latitude ?? null,
+    longitude: meta.longitude ?? null,
+    altitude: meta.altitude ?? null,
+    custom: (meta.custom as Record<string, unknown> | null | undefined) ?? null
+  };
+};
+
+/**
+ * List the tracked fields that differ between two snapshots
+ * Without a previous snapshot, every field that has a value counts as changed
+ */
+export const diffMetaSnapshots = (before: MetaSnapshot | null, after: MetaSnapshot): string[] => {
+  return SNAPSHOT_FIELDS.filter((field) => {
+    return stableStringify(before ? before[field] : null) !== stableStringify(after[field]);
+  });
+};
+
+/**
+ * Build the asset_meta_history row of a metadata change
+ *
+ * @param assetUuid - UUID of the changed asset
+ * @param before - Metadata before the change, null when it is being created
+ * @param after - Metadata after the change
+ * @param action - What caused the change
+ * @param actorUuid - The acting user, undefined for background jobs
+ * @param revertedFrom - ID of the history entry a revert restores
+ * @returns The row to create, or null when nothing changed
+ */
+export const buildMetaHistoryEntry = (
+  assetUuid: string,
+  before: MetaSnapshot | null,
+  after: MetaSnapshot,
+  action: MetaHistoryAction,
+  actorUuid?: string,
+  revertedFrom?: string
+): Prisma.AssetMetaHistoryUncheckedCreateInput | null => {
+  const changedFields = diffMetaSnapshots(before, after);
+  if (changedFields.length === 0) {
+    return null;
+  }
+
+  return {
+    asset_id: assetUuid,
+    action,
+    old_value: (before ?? Prisma.DbNull) as Prisma.InputJsonValue | typeof Prisma.DbNull,
+    new_value: after as unknown as Prisma.InputJsonValue,
+    changed_fields: changedFields,
+    reverted_from: revertedFrom,
+    actor_id: actorUuid
+  };
+};
@@ -0,0 +1,235 @@
+import busboy from 'busboy';
+import fs from 'fs';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { ServerError } from './errors';
+
+export interface MultipartFile {
+  stream: Readable;
+  filename: string;
+  mimeType: string;
+}
+
+export interface MultipartUpload {
+  // Form fields sent before the file part
+  fields: Record<string, string>;
+  file: MultipartFile | null;
+}
+
+export interface SpooledFile {
+  // Name of the form field the file was sent in
+  field: string;
+  // Client side file name, keeps relative directories of folder uploads
+  filename: string;
+  mimeType: string;
+  // Location of the spooled copy on disk
+  path: string;
+  size: number;
+}
+
+export interface SpooledUpload {
+  fields: Record<string, string>;
+  files: SpooledFile[];
+}
+
+/**
+ * Read a multipart/form-data request up to its file part without buffering
+ *
+ * Resolves as soon as the file part starts, handing over the file as a
+ * stream. Only fields sent before the file are returned, so clients must
+ * put their form fields first (curl -F and FormData keep insertion order).
+ * The file stream only ends once the whole body was read, and fails with a
+ * 400 when a field follows the file rather than dropping it silently.
+ *
+ * @param request - The raw request, its body must not have been parsed
+ * @param fileField - Name of the form field holding the file
+ */
+export const readMultipartUpload = (
+  request: Request,
+  fileField: string = 'file'
+): Promise<MultipartUpload> => {
+  return new Promise((resolve, reject) => {
+    if (!request.body) {
+      reject(new ServerError('Request has no body', 400));
+      return;
+    }
+
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: Object.fromEntries(request.headers),
+        limits: { files: 1 }
+      });
+    } catch (error) {
+      reject(new ServerError('Expected a multipart/form-data request', 400));
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    const output = new PassThrough();
+    let settled = false;
+    let fileEnded = false;
+    let parserClosed = false;
+    let lateField: string | null = null;
+
+    // End the file once the rest of the body is known to hold no fields
+    const finish = () => {
+      if (!fileEnded || !parserClosed) {
+        return;
+      }
+      if (lateField) {
+        output.destroy(new ServerError(`Form field ${lateField} must be sent before the file`, 400));
+      } else {
+        output.end();
+      }
+    };
+
+    parser.on('field', (name, value) => {
+      if (settled) {
+        lateField = lateField || name;
+        return;
+      }
+      fields[name] = value;
+    });
+
+    parser.on('file', (name, stream, info) => {
+      if (settled || name !== fileField) {
+        stream.resume();
+        return;
+      }
+
+      settled = true;
+      stream.on('error', (error) => output.destroy(error));
+      stream.on('end', () => {
+        fileEnded = true;
+        finish();
+      });
+      stream.pipe(output, { end: false });
+
+      resolve({
+        fields: { ...fields },
+        file: {
+          stream: output,
+          filename: info.filename,
+          mimeType: info.mimeType || 'application/octet-stream'
+        }
+      });
+    });
+
+    parser.on('close', () => {
+      parserClosed = true;
+      if (!settled) {
+        settled = true;
+        resolve({ fields, file: null });
+        return;
+      }
+      finish();
+    });
+
+    parser.on('error', () => {
+      if (!settled) {
+        settled = true;
+        reject(new ServerError('Malformed multipart body', 400));
+        return;
+      }
+      output.destroy(new ServerError('Malformed multipart body', 400));
+    });
+
+    Readable.fromWeb(request.body as any).pipe(parser);
+  });
+};
+
+/**
+ * Read a multipart/form-data request with any number of files to disk
+ *
+ * Unlike readMultipartUpload every part is consumed, so fields can come in
+ * any order. Files are written to the given directory under generated names,
+ * the caller owns the directory and has to remove it.
+ *
+ * @param request - The raw request, its body must not have been parsed
+ * @param directory - Existing directory to write the files to
+ * @param maxBytes - Largest total size of all files together
+ */
+export const spoolMultipartUpload = (
+  request: Request,
+  directory: string,
+  maxBytes: number
+): Promise<SpooledUpload> => {
+  return new Promise((resolve, reject) => {
+    if (!request.body) {
+      reject(new ServerError('Request has no body', 400));
+      return;
+    }
+
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: Object.fromEntries(request.headers),
+        preservePath: true
+      });
+    } catch (error) {
+      reject(new ServerError('Expected a multipart/form-data request', 400));
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    const files: SpooledFile[] = [];
+    const writes: Promise<void>[] = [];
+    let totalBytes = 0;
+    let failure: ServerError | null = null;
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (name, stream, info) => {
+      if (failure || !info.filename) {
+        stream.resume();
+        return;
+      }
+
+      const spooled: SpooledFile = {
+        field: name,
+        filename: info.filename,
+        mimeType: info.mimeType || 'application/octet-stream',
+        path: path.join(directory, String(files.length)),
+        size: 0
+      };
+      files.push(spooled);
+
+      const output = fs.createWriteStream(spooled.path);
+      writes.push(new Promise((resolveWrite, rejectWrite) => {
+        output.on('close', resolveWrite);
+        output.on('error', rejectWrite);
+        stream.on('error', rejectWrite);
+      }));
+
+      stream.on('data', (chunk: Buffer) => {
+        spooled.size += chunk.length;
+        totalBytes += chunk.length;
+
+        // Keep consuming the body so the parser doesn't stall, but stop writing
+        if (totalBytes > maxBytes && !failure) {
+          failure = new ServerError(`Upload exceeds the maximum bulk upload size of ${maxBytes} bytes`, 413);
+          stream.unpipe(output);
+          output.destroy();
+          stream.resume();
+        }
+      });
+
+      stream.pipe(output);
+    });
+
+    parser.on('close', () => {
+      Promise.all(writes)
+        .then(() => failure ? reject(failure) : resolve({ fields, files }))
+        .catch(() => reject(failure || new ServerError('Upload was interrupted', 400)));
+    });
+
+    parser.on('error', () => {
+      reject(new ServerError('Malformed multipart body', 400));
+    });
+
+    Readable.fromWeb(request.body as any).pipe(parser);
+  });
+};
@@ -1,26 +1,322 @@
+import { AssetMetaBase } from '@prisma/client';
+import { RedisClient } from '../clients/redis';
+import { getStorage } from '../clients/storage';
+import { config } from '../config';
 
+type StoredPathMeta = Pick<AssetMetaBase,
+    'asset_type' | 'asset_class' | 'asset_location_name' | 'asset_camera' | 'asset_date_label'>;
 
-import { AssetMetaBase } from '@prisma/client';
+/**
+ * What a stored path is generated from
+ */
+export interface StoredPathContext {
+    uuid: string;
+    // With the leading dot, empty when the file has none
+    extension: string;
+    // Content hash, unknown while the upload is still being streamed
+    hash?: string | null;
+    // Complete base metadata, assets without it are unclassified
+    meta?: StoredPathMeta | null;
+}
+
+interface TemplateToken {
+    name: string;
+    // Truncates text tokens, pads {index} with zeros
+    length?: number;
+    filters: string[];
+}
+
+type TemplatePart = string | TemplateToken;
+
+// {name}, {name:8}, {name|lower|alnum}, {name:3|upper}
+const TOKEN_PATTERN = /\{([a-z]+)(?::(\d+))?((?:\|[a-z]+)*)\}/g;
+
+// Metadata tokens with the value used when theirs is empty after sanitizing
+const META_TOKENS: Record<string, [keyof StoredPathMeta, string]> = {
+    type: ['asset_type', 'unknown'],
+    class: ['asset_class', 'unknown'],
+    location: ['asset_location_name', 'unknown'],
+    camera: ['asset_camera', 'unknown'],
+    date: ['asset_date_label', 'undated']
+};
+
+const PATH_TOKENS = [...Object.keys(META_TOKENS), 'uuid', 'hash'];
+// {ext} and the per-folder {index} only make sense in the filename
+const FILENAME_TOKENS = [...PATH_TOKENS, 'ext', 'index'];
+// At least one of these keeps two assets from sharing a filename
+const UNIQUE_TOKENS = ['uuid', 'hash', 'index'];
+
+const FILTERS: Record<string, (value: string) => string> = {
+    lower: (value) => value.toLowerCase(),
+    upper: (value) => value.toUpperCase(),
+    alnum: (value) => value.replace(/[^A-Za-z0-9]/g, ''),
+    compact: (value) => value.replace(/_/g, ''),
+    digits: (value) => value.replace(/[^0-9]/g, '')
+};
+
+const DEFAULT_HASH_LENGTH = 8;
+const DEFAULT_INDEX_WIDTH = 4;
+
+// Redis counter of the last index handed out in a directory
+const INDEX_KEY_PREFIX = 'paths:index:';
+
+/**
+ * Make a value safe to use in an object path
+ * Whitespace becomes _, accents are stripped, everything but letters, digits,
+ * _ - and . is dropped, and dots can neither lead nor repeat so no value
+ * can climb out of its folder
+ */
+const sanitizeValue = (value: string): string => {
+    return value
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .trim()
+        .replace(/\s+/g, '_')
+        .replace(/[^A-Za-z0-9_.-]/g, '')
+        .replace(/\.{2,}/g, '.')
+        .replace(/^\.+/, '');
+};
+
+const normalizeExtension = (extension: string): string => {
+    const cleaned = extension.replace(/[^A-Za-z0-9]/g, '');
+    return cleaned ? `.${cleaned}` : '';
+};
+
+const objectExists = async (objectName: string): Promise<boolean> => {
+    try {
+        await getStorage().statObject(objectName);
+        return true;
+    } catch (error) {
+        if ((error as any)?.code === 'NotFound') {
+            return false;
+        }
+        throw error;
+    }
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split a template into literal text and tokens, refusing anything that could
+ * produce an unsafe path: unknown tokens or filters, stray braces, characters
+ * outside letters, digits, _ - . and /, `..`, and empty or absolute segments
+ */
+const compileTemplate = (template: string, name: string, kind: 'path' | 'filename'): TemplatePart[] => {
+    const allowedTokens = kind === 'path' ? PATH_TOKENS : FILENAME_TOKENS;
+    const parts: TemplatePart[] = [];
+    let position = 0;
+
+    for (const match of template.matchAll(TOKEN_PATTERN)) {
+        const [placeholder, tokenName, length, filters] = match;
+
+        if (!allowedTokens.includes(tokenName)) {
+            throw new Error(`${name} uses the unsupported token {${tokenName}}`);
+        }
+
+        const filterNames = filters.split('|').filter(Boolean);
+        const unknownFilter = filterNames.find((filter) => !FILTERS[filter]);
+        if (unknownFilter) {
+            throw new Error(`${name} uses the unknown filter |${unknownFilter}`);
+        }
+
+        if (match.index! > position) {
+            parts.push(template.substring(position, match.index));
+        }
+        parts.push({
+            name: tokenName,
+            length: length ? parseInt(length) : undefined,
+            filters: filterNames
+        });
+        position = match.index! + placeholder.length;
+    }
+
+    if (position < template.length) {
+        parts.push(template.substring(position));
+    }
+
+    const literal = parts.filter((part): part is string => typeof part === 'string').join('');
+    const allowedCharacters = kind === 'path' ? /^[A-Za-z0-9_.\/-]*$/ : /^[A-Za-z0-9_.-]*$/;
+
+    if (!allowedCharacters.test(literal)) {
+        throw new Error(`${name} may only contain letters, digits, _ - .${kind === 'path' ? ' /' : ''} and tokens`);
+    }
+
+    if (template.includes('..')) {
+        throw new Error(`${name} may not contain ..`);
+    }
+
+    if (!template || template.startsWith('.') || template.split('/').some((segment) => !segment || segment === '.')) {
+        throw new Error(`${name} may not be empty, absolute or contain empty or hidden segments`);
+    }
+
+    return parts;
+};
+
+const compileTemplates = () => {
+    const path = compileTemplate(config.storage.pathTemplate, 'STORAGE_PATH_TEMPLATE', 'path');
+    const filename = compileTemplate(config.storage.filenameTemplate, 'STORAGE_FILENAME_TEMPLATE', 'filename');
+    const unclassifiedPath = compileTemplate(config.storage.unclassifiedPath, 'STORAGE_UNCLASSIFIED_PATH', 'path');
+
+    const tokens = [...path, ...filename].filter((part): part is TemplateToken => typeof part !== 'string');
+
+    if (unclassifiedPath.some((part) => typeof part !== 'string')) {
+        throw new Error('STORAGE_UNCLASSIFIED_PATH may not contain tokens');
+    }
+
+    if (!filename.some((part) => typeof part !== 'string' && UNIQUE_TOKENS.includes(part.name))) {
+        throw new Error('STORAGE_FILENAME_TEMPLATE must contain {uuid}, {hash} or {index}');
+    }
+
+    return {
+        path,
+        filename,
+        unclassifiedPath: config.storage.unclassifiedPath,
+        usesHash: tokens.some((token) => token.name === 'hash'),
+        usesIndex: tokens.some((token) => token.name === 'index')
+    };
+};
+
+// Compiled when the module loads, so a broken template stops the server from starting
+const TEMPLATES = compileTemplates();
+
+/**
+ * Value of a token, {index} is only known once it has been allocated
+ */
+const renderToken = (token: TemplateToken, context: StoredPathContext, index?: number): string => {
+    if (token.name === 'index') {
+        return String(index).padStart(token.length ?? DEFAULT_INDEX_WIDTH, '0');
+    }
+
+    if (token.name === 'ext') {
+        return normalizeExtension(context.extension);
+    }
+
+    let value: string;
+    let fallback = 'unknown';
+
+    if (token.name === 'uuid') {
+        value = context.uuid;
+    } else if (token.name === 'hash') {
+        value = (context.hash || '').substring(0, token.length ?? DEFAULT_HASH_LENGTH);
+    } else {
+        const [field, emptyValue] = META_TOKENS[token.name];
+        value = context.meta ? context.meta[field] : '';
+        fallback = emptyValue;
+    }
+
+    value = token.filters.reduce((filtered, filter) => FILTERS[filter](filtered), sanitizeValue(value));
+
+    if (token.length !== undefined && token.name !== 'hash') {
+        value = value.substring(0, token.length);
+    }
+
+    return value || fallback;
+};
+
+const renderTemplate = (parts: TemplatePart[], context: StoredPathContext, index?: number): string => {
+    return parts.map((part) => typeof part === 'string' ? part : renderToken(part, context, index)).join('');
+};
+
+/**
+ * Regex source matching anything the template renders to for this asset
+ * {uuid}, {hash} and {index} match any value, so an object shared with a
+ * deduplicated asset, or one numbered before, still counts as in place
+ */
+const templatePattern = (parts: TemplatePart[], context: StoredPathContext): string => {
+    return parts.map((part) => {
+        if (typeof part === 'string') {
+            return escapeRegExp(part);
+        }
+        if (part.name === 'index') {
+            return '[0-9]+';
+        }
+        if (part.name === 'uuid' || part.name === 'hash') {
+            return '[A-Za-z0-9-]+';
+        }
+        return escapeRegExp(renderToken(part, context));
+    }).join('');
+};
 
 export const PathUtils = {
     /**
-     * Generates a directory path based on asset metadata
-     * Following the structure: type/class/location/camera/date
+     * Generates the directory of an asset from STORAGE_PATH_TEMPLATE
+     * By default: assets/type/class/location/camera/date
      */
-    generatePathFromMetaBase: (asset: AssetMetaBase) => {
-        return `${asset.asset_type}/${asset.asset_class}/${asset.asset_location_name}/${asset.asset_camera}/${asset.asset_date_label}`;
+    generatePathFromMetaBase: (asset: StoredPathMeta) => {
+        return renderTemplate(TEMPLATES.path, { uuid: '', extension: '', meta: asset });
     },
     
     /**
-     * Generates a filename for an asset based on metadata
-     * Format: {type}_{class}_{loc}_{cam}_{date}_{index}
+     * Generates the filename of an asset from STORAGE_FILENAME_TEMPLATE
+     * By default: {type}_{class}_{loc}_{cam}_{date}_{index}_{uuid}
+     * Templates using {uuid} or {hash} need the full context, see generateStoredPath
      */
-    generateFilename: (asset: AssetMetaBase, index: number, extension: string) => {
-        const indexStr = index.toString().padStart(4, '0');
-        const shortType = asset.asset_type.substring(0, 3); // vid, img, etc.
-        const shortLoc = asset.asset_location_name.replace(/_/g, '').toLowerCase();
-        const shortCam = asset.asset_camera.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+    generateFilename: (asset: StoredPathMeta, index: number, extension: string, context: Partial<StoredPathContext> = {}) => {
+        return renderTemplate(TEMPLATES.filename, { uuid: '', ...context, extension, meta: asset }, index);
+    },
+    
+    /**
+     * Generates the MinIO object path of an asset from the configured templates
+     * Classified assets go under STORAGE_PATH_TEMPLATE / STORAGE_FILENAME_TEMPLATE,
+     * assets without metadata under STORAGE_UNCLASSIFIED_PATH as {uuid}{ext}.
+     * When the templates use {hash} and it isn't known yet the asset is stored
+     * unclassified too, and moved once its upload has been hashed.
+     * {index} is taken from a per-directory Redis counter, so concurrent
+     * ingests never get the same number, and numbers already taken in storage
+     * are skipped
+     */
+    generateStoredPath: async (context: StoredPathContext): Promise<string> => {
+        if (!context.meta || (TEMPLATES.usesHash && !context.hash)) {
+            return `${TEMPLATES.unclassifiedPath}/${sanitizeValue(context.uuid)}${normalizeExtension(context.extension)}`;
+        }
+        
+        const directory = renderTemplate(TEMPLATES.path, context);
+        
+        if (!TEMPLATES.usesIndex) {
+            return `${directory}/${renderTemplate(TEMPLATES.filename, context)}`;
+        }
+        
+        // A counter lost with Redis starts over at 1, so skip numbers whose
+        // object already exists rather than overwrite it
+        for (;;) {
+            const index = await RedisClient.getInstance().increment(`${INDEX_KEY_PREFIX}${directory}`);
+            const storedPath = `${directory}/${renderTemplate(TEMPLATES.filename, context, index)}`;
+            
+            if (!(await objectExists(storedPath))) {
+                return storedPath;
+            }
+        }
+    },
+    
+    /**
+     * Checks whether a stored path is one the templates could have produced
+     * for the asset, without allocating a new index
+     * Objects stored as {uuid}{ext} in the right directory, as ingest named
+     * them before filename templates existed, count as in place too
+     */
+    matchesStoredPath: (storedPath: string, context: StoredPathContext): boolean => {
+        const uuidFilename = `[A-Za-z0-9-]+${escapeRegExp(normalizeExtension(context.extension))}`;
+        const pattern = context.meta
+            ? `${templatePattern(TEMPLATES.path, context)}/(?:${templatePattern(TEMPLATES.filename, context)}|${uuidFilename})`
+            : `${escapeRegExp(TEMPLATES.unclassifiedPath)}/${uuidFilename}`;
         
-        return `${shortType}_${asset.asset_class}_${shortLoc}_${shortCam}_${asset.asset_date_label}_${indexStr}${extension}`;
+        return new RegExp(`^${pattern}$`).test(storedPath);
+    },
+    
+    /**
+     * Whether the templates need the content hash, which ingest only knows
+     * after the object has been stored
+     */
+    needsHash: (): boolean => TEMPLATES.usesHash,
+
+    /**
+     * Generates the object path of a rendition, next to the original
+     * Format: {original dir}/renditions/{asset uuid}/{name}.{extension}
+     */
+    generateRenditionPath: (storedPath: string, assetUuid: string, name: string, extension: string) => {
+        const directory = storedPath.includes('/') ? storedPath.substring(0, storedPath.lastIndexOf('/')) : '';
+        const renditionPath = `renditions/${assetUuid}/${name}.${extension}`;
+
+        return directory ? `${directory}/${renditionPath}` : renditionPath;
     }
 }
\ No newline at end of file
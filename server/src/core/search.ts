@@ -0,0 +1,92 @@
+import { ServerError } from './errors';
+import { SearchHighlight } from '../types/search';
+
+// Least share of a term's trigrams a word must contain to count as a fuzzy match,
+// "nrth" shares 3 of its 5 with "north"
+export const FUZZY_THRESHOLD = 0.5;
+
+export const MAX_SEARCH_TERMS = 10;
+
+// Letters and digits, the same words Postgres keeps in search_text
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split a search query into lower-case words
+ *
+ * @param query - The query as typed in
+ * @returns The distinct terms, every one of them must match
+ */
+export const parseSearchTerms = (query: string): string[] => {
+  const terms = [...new Set(query.toLowerCase().match(WORD) || [])];
+
+  if (terms.length === 0) {
+    throw new ServerError('q must contain a letter or digit', 400);
+  }
+
+  if (terms.length > MAX_SEARCH_TERMS) {
+    throw new ServerError(`q can have at most ${MAX_SEARCH_TERMS} words`, 400);
+  }
+
+  return terms;
+};
+
+/**
+ * Trigrams of a single word, padded the way pg_trgm pads them
+ */
+const trigrams = (word: string): Set<string> => {
+  const padded = `  ${word} `;
+  const result = new Set<string>();
+
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    result.add(padded.substring(i, i + 3));
+  }
+
+  return result;
+};
+
+/**
+ * Share of the term's trigrams found in the word, what pg_trgm's
+ * word_similarity gives for a term and a single word
+ */
+export const termSimilarity = (term: string, word: string): number => {
+  const termTrigrams = trigrams(term);
+  const wordTrigrams = trigrams(word);
+  let common = 0;
+
+  termTrigrams.forEach((trigram) => {
+    if (wordTrigrams.has(trigram)) {
+      common++;
+    }
+  });
+
+  return common / termTrigrams.size;
+};
+
+/**
+ * Find the words of a field value matched by any of the terms,
+ * either as a prefix or fuzzily
+ *
+ * @returns The highlight, or undefined when nothing in the value matched
+ */
+export const highlightField = (
+  field: string,
+  value: string | null | undefined,
+  terms: string[]
+): SearchHighlight | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const ranges: [number, number][] = [];
+
+  for (const match of value.matchAll(WORD)) {
+    const word = match[0].toLowerCase();
+    const matched = terms.some((term) => word.startsWith(term) || termSimilarity(term, word) >= FUZZY_THRESHOLD);
+
+    if (matched) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+
+  return ranges.length > 0 ? { field, value, ranges } : undefined;
+};
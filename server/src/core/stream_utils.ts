@@ -0,0 +1,113 @@
+import { Transform, TransformCallback } from 'stream';
+import crypto from 'crypto';
+import { StorageProvider } from '../types/storage';
+
+// Size of the parts streams of unknown length are uploaded in, S3 wants at least 5 MiB
+export const UPLOAD_PART_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Pass-through stream that hashes and counts the bytes flowing through it
+ *
+ * When maxBytes is exceeded the remaining input is still consumed (so the
+ * producer doesn't stall) but no longer forwarded, and `exceeded` is set.
+ * The consumer sees a normal end of stream and should check the flag.
+ */
+export class DigestStream extends Transform {
+  private hash: crypto.Hash;
+  private maxBytes?: number;
+
+  public bytes: number = 0;
+  public exceeded: boolean = false;
+
+  constructor(options: { algorithm?: string; maxBytes?: number } = {}) {
+    super();
+    this.hash = crypto.createHash(options.algorithm || 'sha256');
+    this.maxBytes = options.maxBytes;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    this.bytes += chunk.length;
+
+    if (this.maxBytes !== undefined && this.bytes > this.maxBytes) {
+      this.exceeded = true;
+      callback();
+      return;
+    }
+
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+
+  /**
+   * Get the hex digest, only valid once the stream has ended
+   */
+  digest(): string {
+    return this.hash.digest('hex');
+  }
+}
+
+/**
+ * Upload a stream of unknown length without buffering it whole
+ *
+ * MinIO's putObject reads a fresh stream into memory before sending it, so
+ * streams are cut into parts here and sent as a multipart upload, holding at
+ * most one part in memory. A stream that ends within the first part is sent
+ * with a single upload. A failed upload is aborted so no parts linger.
+ *
+ * @param storage - The storage provider to upload to
+ * @param objectName - Name to store the object as
+ * @param stream - The data, consumed with backpressure
+ * @param contentType - MIME type of the object
+ * @param partSize - Size of each part but the last
+ */
+export const uploadStream = async (
+  storage: StorageProvider,
+  objectName: string,
+  stream: NodeJS.ReadableStream,
+  contentType: string,
+  partSize: number = UPLOAD_PART_SIZE
+): Promise<void> => {
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  let uploadId: string | undefined;
+  const parts: { part: number; etag: string }[] = [];
+
+  const sendPart = async (data: Buffer) => {
+    if (!uploadId) {
+      uploadId = await storage.createMultipartUpload(objectName, contentType);
+    }
+    const part = parts.length + 1;
+    parts.push({ part, etag: await storage.uploadPart(objectName, uploadId, part, data) });
+  };
+
+  try {
+    for await (const chunk of stream) {
+      const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      pending.push(data);
+      pendingBytes += data.length;
+
+      while (pendingBytes >= partSize) {
+        const data = Buffer.concat(pending);
+        await sendPart(data.subarray(0, partSize));
+        pending = [data.subarray(partSize)];
+        pendingBytes = data.length - partSize;
+      }
+    }
+
+    const rest = Buffer.concat(pending);
+    if (!uploadId) {
+      await storage.uploadObject(objectName, rest, rest.length, contentType);
+      return;
+    }
+
+    if (rest.length > 0) {
+      await sendPart(rest);
+    }
+    await storage.completeMultipartUpload(objectName, uploadId, parts);
+  } catch (error) {
+    if (uploadId) {
+      await storage.abortMultipartUpload(objectName, uploadId).catch(() => undefined);
+    }
+    throw error;
+  }
+};
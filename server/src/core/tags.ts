@@ -0,0 +1,56 @@
+import { ServerError } from './errors';
+
+// Letters and digits, then also _ . : and -, e.g. vegetation-encroachment
+const TAG_NAME = /^[\p{L}\p{N}][\p{L}\p{N}_.:-]{0,63}$/u;
+
+// Include for asset queries that only need the names of the asset's tags
+export const TAG_NAMES_INCLUDE = {
+  select: { tag: { select: { name: true } } },
+  orderBy: { tag: { name: 'asc' } }
+} as const;
+
+/**
+ * Bring a tag into its stored form: trimmed, lower-case, whitespace as -
+ *
+ * @param name - The tag as typed in
+ * @returns The normalized tag
+ */
+export const normalizeTag = (name: string): string => {
+  const tag = name.trim().toLowerCase().replace(/\s+/g, '-');
+
+  if (!TAG_NAME.test(tag)) {
+    throw new ServerError(
+      `Invalid tag "${name}", tags are up to 64 letters, digits, _ . : and - starting with a letter or digit`,
+      400
+    );
+  }
+
+  return tag;
+};
+
+/**
+ * Normalize a list of tags, dropping the duplicates
+ */
+export const normalizeTags = (names: string[]): string[] => {
+  return [...new Set(names.map(normalizeTag))];
+};
+
+/**
+ * Parse the comma separated tags of a list filter
+ */
+export const parseTagFilter = (value: string): string[] => {
+  const tags = normalizeTags(value.split(',').filter((name) => name.trim()));
+
+  if (tags.length === 0) {
+    throw new ServerError('tags must name at least one tag', 400);
+  }
+
+  return tags;
+};
+
+/**
+ * Flatten the tags included with TAG_NAMES_INCLUDE into their names
+ */
+export const toTagNames = (tags: { tag: { name: string } }[]): string[] => {
+  return tags.map((assetTag) => assetTag.tag.name);
+};
@@ -0,0 +1,85 @@
+export interface GpsTrackPoint {
+  // Seconds from the start of the video
+  time: number;
+  latitude: number;
+  longitude: number;
+  // Meters above sea level
+  altitude?: number;
+  // Meters above the take-off point
+  relative_altitude?: number;
+}
+
+// DJI writes a cue per frame, the stored track keeps at most one point per second
+const MIN_POINT_INTERVAL = 1;
+
+const CUE_TIME = /(\d+):(\d{2}):(\d{2})[,.](\d{3})\s*-->/;
+
+// Newer DJI drones: [latitude: 47.373178] [longitude: 8.541694] [rel_alt: 1.200 abs_alt: 453.110]
+// Mavic 2 misspells the longitude and writes [altitude: 453.1]
+const LATITUDE = /\[\s*latitude\s*:\s*(-?[\d.]+)/i;
+const LONGITUDE = /\[\s*longt?itude\s*:\s*(-?[\d.]+)/i;
+const ABSOLUTE_ALTITUDE = /(?:abs_alt|\[\s*altitude)\s*:\s*(-?[\d.]+)/i;
+const RELATIVE_ALTITUDE = /rel_alt\s*:\s*(-?[\d.]+)/i;
+
+// Phantom 3 / 4: GPS(8.5417,47.3731,19) BAROMETER:26.4
+const LEGACY_GPS = /GPS\s*\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)/i;
+const LEGACY_BAROMETER = /BAROMETER\s*:\s*(-?[\d.]+)/i;
+
+const matchNumber = (text: string, pattern: RegExp, group: number = 1): number | undefined => {
+  const match = text.match(pattern);
+  const number = match ? parseFloat(match[group]) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const toSeconds = (match: RegExpMatchArray): number => {
+  const [, hours, minutes, seconds, milliseconds] = match.map(Number);
+  return hours * 3600 + minutes * 60 + seconds + milliseconds / 1000;
+};
+
+/**
+ * Parse the GPS track out of DJI telemetry subtitles
+ * Cues without a position fix (missing or 0, 0) are skipped
+ *
+ * @param srt - The subtitle track as SRT text
+ * @returns Points ordered by time, empty when the subtitles carry no telemetry
+ */
+export const parseSrtTelemetry = (srt: string): GpsTrackPoint[] => {
+  const track: GpsTrackPoint[] = [];
+
+  for (const cue of srt.replace(/\r/g, '').split(/\n\s*\n/)) {
+    const time = cue.match(CUE_TIME);
+    if (!time) {
+      continue;
+    }
+
+    // Some firmware wraps the telemetry in <font> tags
+    const text = cue.replace(/<[^>]*>/g, ' ');
+
+    const legacy = text.match(LEGACY_GPS);
+    const latitude = matchNumber(text, LATITUDE) ?? (legacy ? matchNumber(text, LEGACY_GPS, 2) : undefined);
+    const longitude = matchNumber(text, LONGITUDE) ?? (legacy ? matchNumber(text, LEGACY_GPS, 1) : undefined);
+
+    if (latitude === undefined || longitude === undefined || (latitude === 0 && longitude === 0) ||
+      Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      continue;
+    }
+
+    const point: GpsTrackPoint = { time: toSeconds(time), latitude, longitude };
+
+    const altitude = matchNumber(text, ABSOLUTE_ALTITUDE);
+    const relativeAltitude = matchNumber(text, RELATIVE_ALTITUDE) ?? matchNumber(text, LEGACY_BAROMETER);
+    if (altitude !== undefined) {
+      point.altitude = altitude;
+    }
+    if (relativeAltitude !== undefined) {
+      point.relative_altitude = relativeAltitude;
+    }
+
+    const previous = track[track.length - 1];
+    if (!previous || point.time - previous.time >= MIN_POINT_INTERVAL) {
+      track.push(point);
+    }
+  }
+
+  return track.sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,102 @@
+import yauzl from 'yauzl';
+import { Readable } from 'stream';
+import { ServerError } from './errors';
+
+/**
+ * Read-only view of a zip file on disk
+ *
+ * The central directory is read up front, entries are then streamed one at
+ * a time without extracting the archive. Call close() when done.
+ */
+export class ZipArchive {
+  private zipFile: yauzl.ZipFile;
+
+  public entries: yauzl.Entry[];
+
+  private constructor(zipFile: yauzl.ZipFile, entries: yauzl.Entry[]) {
+    this.zipFile = zipFile;
+    this.entries = entries;
+  }
+
+  /**
+   * Open a zip file and list its entries
+   *
+   * @param zipPath - Path of the zip file on disk
+   */
+  static open(zipPath: string): Promise<ZipArchive> {
+    return new Promise((resolve, reject) => {
+      yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (openError, zipFile) => {
+        if (openError || !zipFile) {
+          reject(new ServerError('Invalid or corrupt zip archive', 400));
+          return;
+        }
+
+        const entries: yauzl.Entry[] = [];
+
+        zipFile.on('entry', (entry: yauzl.Entry) => {
+          entries.push(entry);
+          zipFile.readEntry();
+        });
+
+        zipFile.on('end', () => {
+          resolve(new ZipArchive(zipFile, entries));
+        });
+
+        zipFile.on('error', () => {
+          zipFile.close();
+          reject(new ServerError('Invalid or corrupt zip archive', 400));
+        });
+
+        zipFile.readEntry();
+      });
+    });
+  }
+
+  /**
+   * Get the entries that are actual files
+   * Skips directories, hidden files and macOS resource forks
+   */
+  files(): yauzl.Entry[] {
+    return this.entries.filter((entry) => {
+      const name = entry.fileName;
+      const segments = name.split('/');
+
+      return !name.endsWith('/') &&
+        !segments.includes('__MACOSX') &&
+        !segments[segments.length - 1].startsWith('.');
+    });
+  }
+
+  /**
+   * Stream the decompressed content of an entry
+   */
+  openEntry(entry: yauzl.Entry): Promise<Readable> {
+    return new Promise((resolve, reject) => {
+      this.zipFile.openReadStream(entry, (error, stream) => {
+        if (error || !stream) {
+          reject(new ServerError(`Cannot read ${entry.fileName} from the archive`, 400));
+          return;
+        }
+        resolve(stream);
+      });
+    });
+  }
+
+  /**
+   * Read a small entry, like a manifest, as UTF-8 text
+   */
+  async readEntryText(entry: yauzl.Entry): Promise<string> {
+    const stream = await this.openEntry(entry);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  close() {
+    this.zipFile.close();
+  }
+}
@@ -1,9 +1,25 @@
 import { Elysia } from "elysia";
 import { Redis } from "ioredis";
-import { MinioClient } from "./clients/minio";
+import { getStorage } from "./clients/storage";
 import { config } from "./config";
 import logger from './logger';
 import { assetRoutes } from './routes/asset.routes';
+import { authRoutes } from './routes/auth.routes';
+import { userRoutes } from './routes/user.routes';
+import { uploadRoutes } from './routes/upload.routes';
+import { jobRoutes } from './routes/job.routes';
+import { metadataSchemaRoutes } from './routes/metadata_schema.routes';
+import { collectionRoutes } from './routes/collection.routes';
+import { tagRoutes } from './routes/tag.routes';
+import { vocabularyRoutes } from './routes/vocabulary.routes';
+import { exportRoutes } from './routes/export.routes';
+import { storageRoutes } from './routes/storage.routes';
+import { AssetController } from './controllers/asset.controller';
+import { ExportController } from './controllers/export.controller';
+import { UploadController } from './controllers/upload.controller';
+import { UserController } from './controllers/user.controller';
+import { JobQueue } from './jobs/queue';
+import { registerJobHandlers } from './jobs';
 import { cors } from '@elysiajs/cors';
 import { opentelemetry } from '@elysiajs/opentelemetry';
 import { swagger } from '@elysiajs/swagger';
@@ -12,16 +28,24 @@ import { cookie } from '@elysiajs/cookie';
 import { BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
 
+// Asset sizes are BigInt columns, serialize them as plain numbers
+BigInt.prototype.toJSON = function (this: bigint) {
+  return Number(this);
+};
+
 // Initialize Redis client
 const redis = new Redis(config.redis.url || 'redis://localhost:6379', {
   enableAutoPipelining: true, // Enable autopipelining for better performance
   showFriendlyErrorStack: process.env.NODE_ENV !== 'production'
 });
 
-// Initialize Minio client
-const storage = MinioClient.getInstance();
+// Initialize the configured storage provider
+const storage = getStorage();
 await storage.initialize();
 
+// Create the configured admin account on first start
+await UserController.ensureBootstrapAdmin();
+
 // Create base app with state
 const app = new Elysia();
 
@@ -37,7 +61,7 @@ app.use(swagger());
 
 app.use(jwt({
   name: 'jwt',
-  secret: process.env.JWT_SECRET || 'super-secret-key-change-in-production',
+  secret: config.auth.jwtSecret,
 }));
 
 app.use(cookie());
@@ -72,7 +96,22 @@ app.onRequest(({ request }) => {
   logger.info(`${method} ${path}`);
 });
 
+app.use(authRoutes);
+app.use(userRoutes);
 app.use(assetRoutes);
+app.use(uploadRoutes);
+app.use(jobRoutes);
+app.use(metadataSchemaRoutes);
+app.use(collectionRoutes);
+app.use(tagRoutes);
+app.use(vocabularyRoutes);
+app.use(exportRoutes);
+app.use(storageRoutes);
+
+// Start the background job workers
+registerJobHandlers();
+const jobQueue = JobQueue.getInstance();
+await jobQueue.start();
 
 // Start the server
 app.listen(4500);
@@ -81,9 +120,25 @@ logger.info(
   `🦊 Elysia is running at ${app.server?.hostname}:${app.server?.port}`
 );
 
+// Purge trashed assets and background exports past their retention window,
+// and the multipart uploads of expired upload sessions, every hour
+const trashPurgeInterval = setInterval(() => {
+  AssetController.purgeExpiredTrash().catch((error) => {
+    logger.error('Failed to purge expired trash:', error);
+  });
+  UploadController.abortExpiredSessions().catch((error) => {
+    logger.error('Failed to abort expired upload sessions:', error);
+  });
+  ExportController.purgeExpiredExports().catch((error) => {
+    logger.error('Failed to purge expired exports:', error);
+  });
+}, 60 * 60 * 1000);
+
 // Cleanup on exit
 process.on('SIGTERM', async () => {
   logger.info('Server is shutting down');
+  clearInterval(trashPurgeInterval);
+  await jobQueue.stop();
   await redis.quit();
   process.exit(0);
 });
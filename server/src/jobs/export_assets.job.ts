@@ -0,0 +1,20 @@
+import { prisma } from '../clients/prisma';
+import { ExportController } from '../controllers/export.controller';
+import { ExportAssetsPayload } from '../types/export';
+import { Job } from '../types/job';
+
+/**
+ * Write the zip of a large export to storage, with the access its user
+ * has when the job runs
+ */
+export const exportAssetsJob = async (job: Job<ExportAssetsPayload>) => {
+  const user = job.user_uuid
+    ? await prisma.user.findUnique({ where: { uuid: job.user_uuid } })
+    : null;
+
+  if (!user) {
+    throw new Error(`User of export no longer exists: ${job.user_uuid}`);
+  }
+
+  return ExportController.writeExport(job, user);
+};
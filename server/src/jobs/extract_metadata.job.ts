@@ -0,0 +1,237 @@
+import exifr from 'exifr';
+import { AssetMetaBase, Prisma } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { VocabularyController } from '../controllers/vocabulary.controller';
+import { getStorage } from '../clients/storage';
+import { buildMetaHistoryEntry, toMetaSnapshot } from '../core/meta_history';
+import logger from '../logger';
+import { AssetMetaInput } from '../types/asset';
+import { Job } from '../types/job';
+import { PostIngestPayload } from './index';
+import { relocateWithRetry } from './relocate_asset.job';
+
+// Seconds the presigned URL handed to exifr stays valid
+const READ_URL_EXPIRY = 600;
+
+// What the base metadata can be completed from, read out of the file
+export interface ExtractedMetadata {
+  captured_at?: Date;
+  camera_make?: string;
+  camera_model?: string;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+}
+
+const toNumber = (value: any): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const toDate = (value: any): Date | undefined => {
+  return value instanceof Date && !isNaN(value.getTime()) ? value : undefined;
+};
+
+/**
+ * Map the exifr output blocks onto the technical metadata columns
+ * EXIF values win over the DJI XMP copies of the same information
+ */
+const toTechnicalMetadata = (tags: Record<string, any>) => {
+  const ifd0 = tags.ifd0 || {};
+  const exif = tags.exif || {};
+  const gps = tags.gps || {};
+  const dji = tags['drone-dji'] || {};
+
+  const gpsAltitude = toNumber(gps.GPSAltitude);
+
+  return {
+    captured_at: toDate(exif.DateTimeOriginal) || toDate(exif.CreateDate) || toDate(ifd0.ModifyDate),
+    camera_make: ifd0.Make?.trim() || undefined,
+    camera_model: ifd0.Model?.trim() || undefined,
+    image_width: toNumber(exif.ExifImageWidth) ?? toNumber(ifd0.ImageWidth),
+    image_height: toNumber(exif.ExifImageHeight) ?? toNumber(ifd0.ImageHeight),
+    latitude: toNumber(gps.latitude) ?? toNumber(dji.GpsLatitude),
+    // Older DJI firmware misspells the longitude tag
+    longitude: toNumber(gps.longitude) ?? toNumber(dji.GpsLongitude) ?? toNumber(dji.GpsLongtitude),
+    altitude: gpsAltitude !== undefined
+      ? (gps.GPSAltitudeRef === 1 ? -gpsAltitude : gpsAltitude)
+      : toNumber(dji.AbsoluteAltitude),
+    relative_altitude: toNumber(dji.RelativeAltitude),
+    gimbal_pitch: toNumber(dji.GimbalPitchDegree),
+    gimbal_yaw: toNumber(dji.GimbalYawDegree),
+    gimbal_roll: toNumber(dji.GimbalRollDegree),
+    flight_pitch: toNumber(dji.FlightPitchDegree),
+    flight_yaw: toNumber(dji.FlightYawDegree),
+    flight_roll: toNumber(dji.FlightRollDegree),
+    xmp_dji: Object.keys(dji).length > 0 ? dji : undefined
+  };
+};
+
+/**
+ * Build the asset_camera label, "DJI FC6310" rather than "DJI DJI FC6310"
+ */
+const toCameraLabel = (make?: string, model?: string): string | undefined => {
+  if (model && make && !model.toLowerCase().startsWith(make.toLowerCase())) {
+    return `${make} ${model}`;
+  }
+  return model || make;
+};
+
+/**
+ * Build the asset_date_label from the capture time, in the camera's local time
+ */
+const toDateLabel = (date?: Date): string | undefined => {
+  if (!date) {
+    return undefined;
+  }
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Complete an asset's base metadata with what was read out of its file
+ *
+ * When the asset was ingested with metadata missing only asset_camera and
+ * asset_date_label, those are taken from the file and asset_meta_base is
+ * created. Existing base metadata is never overwritten, only a missing
+ * position is filled in from GPS. Both are recorded in the metadata history
+ * without an actor, a created asset_meta_base moves the object out of
+ * assets/unclassified.
+ *
+ * @param asset - The asset with its meta_base included
+ * @param pending - Incomplete metadata given at ingest, if any
+ * @param extracted - Metadata read out of the file
+ * @returns Whether asset_meta_base was created
+ */
+export const completeMetaBase = async (
+  asset: { uuid: string; meta_base: AssetMetaBase | null },
+  pending: Partial<AssetMetaInput> | undefined,
+  extracted: ExtractedMetadata
+): Promise<boolean> => {
+  // A position typed in by the caller wins over the GPS one
+  const gpsPosition = extracted.latitude !== undefined && extracted.longitude !== undefined
+    ? { latitude: extracted.latitude, longitude: extracted.longitude, altitude: extracted.altitude }
+    : {};
+
+  if (asset.meta_base && asset.meta_base.latitude === null && gpsPosition.latitude !== undefined) {
+    const before = toMetaSnapshot(asset.meta_base)!;
+    const entry = buildMetaHistoryEntry(asset.uuid, before, {
+      ...before,
+      latitude: gpsPosition.latitude,
+      longitude: gpsPosition.longitude,
+      altitude: gpsPosition.altitude ?? before.altitude
+    }, 'extract');
+
+    await prisma.$transaction([
+      prisma.assetMetaBase.update({
+        where: { asset_id: asset.uuid },
+        data: gpsPosition
+      }),
+      ...(entry ? [prisma.assetMetaHistory.create({ data: entry })] : [])
+    ]);
+  }
+
+  if (!pending || asset.meta_base) {
+    return false;
+  }
+
+  // Camera labels read out of files are mapped leniently, strict mode would
+  // leave the asset unclassified for a camera nobody added yet
+  const metadata: Partial<AssetMetaInput> = await VocabularyController.normalizeMetadata({
+    ...pending,
+    ...(pending.latitude === undefined ? gpsPosition : {}),
+    asset_camera: pending.asset_camera || toCameraLabel(extracted.camera_make, extracted.camera_model),
+    asset_date_label: pending.asset_date_label || toDateLabel(extracted.captured_at)
+  }, { strict: false });
+
+  if (!metadata.asset_type || !metadata.asset_class || !metadata.asset_location_name ||
+    !metadata.asset_camera || !metadata.asset_date_label) {
+    logger.warn(`Metadata of asset still incomplete after extraction: ${asset.uuid}`, { metadata });
+    return false;
+  }
+
+  // Every base field was checked above
+  const entry = buildMetaHistoryEntry(asset.uuid, null, toMetaSnapshot(metadata as AssetMetaInput)!, 'extract');
+
+  await prisma.$transaction([
+    prisma.assetMetaBase.create({
+      data: {
+        asset_type: metadata.asset_type,
+        asset_class: metadata.asset_class,
+        asset_location_name: metadata.asset_location_name,
+        asset_camera: metadata.asset_camera,
+        asset_date_label: metadata.asset_date_label,
+        latitude: metadata.latitude,
+        longitude: metadata.longitude,
+        altitude: metadata.altitude,
+        // Validated against the asset_type's schema at ingest
+        custom: metadata.custom as Prisma.InputJsonValue | undefined,
+        asset_id: asset.uuid
+      }
+    }),
+    ...(entry ? [prisma.assetMetaHistory.create({ data: entry })] : [])
+  ]);
+
+  await relocateWithRetry(asset.uuid);
+
+  return true;
+};
+
+/**
+ * Read EXIF / XMP from a stored image into asset_meta_technical
+ * and complete the base metadata from it
+ */
+export const extractMetadataJob = async (job: Job<PostIngestPayload>) => {
+  const storage = getStorage();
+
+  const asset = await prisma.asset.findUnique({
+    where: { uuid: job.payload.asset_uuid },
+    include: { meta_base: true }
+  });
+
+  // The asset may have been purged before the job ran
+  if (!asset) {
+    logger.info(`Skipping metadata extraction of missing asset: ${job.payload.asset_uuid}`);
+    return { skipped: true };
+  }
+
+  // exifr fetches only the byte ranges it needs
+  const url = await storage.getPresignedUrl(asset.stored_fullpath, READ_URL_EXPIRY);
+  const tags = await exifr.parse(url, {
+    tiff: true,
+    exif: true,
+    gps: true,
+    xmp: true,
+    ifd1: false,
+    mergeOutput: false
+  });
+
+  if (!tags) {
+    logger.info(`No EXIF or XMP metadata found in asset: ${asset.uuid}`);
+    return { extracted: false };
+  }
+
+  const technical = toTechnicalMetadata(tags);
+  const technicalData = {
+    ...technical,
+    xmp_dji: technical.xmp_dji as Prisma.InputJsonValue | undefined
+  };
+
+  await prisma.assetMetaTechnical.upsert({
+    where: { asset_id: asset.uuid },
+    create: { ...technicalData, asset_id: asset.uuid },
+    update: { ...technicalData, extracted_at: new Date() }
+  });
+
+  const metaBaseCreated = await completeMetaBase(asset, job.payload.metadata, technical);
+
+  logger.info(`Extracted metadata of asset: ${asset.uuid}`, {
+    captured_at: technical.captured_at,
+    camera: technical.camera_model,
+    metaBaseCreated
+  });
+
+  return { extracted: true, meta_base_created: metaBaseCreated };
+};
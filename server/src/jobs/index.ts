@@ -0,0 +1,67 @@
+import { AssetMetaInput } from '../types/asset';
+import { exportAssetsJob } from './export_assets.job';
+import { extractMetadataJob } from './extract_metadata.job';
+import { mergeVocabularyJob } from './merge_vocabulary.job';
+import { probeVideoJob } from './probe_video.job';
+import { JobQueue } from './queue';
+import { relocateAssetJob } from './relocate_asset.job';
+import { renderAssetJob } from './render_asset.job';
+import { verifyAssetJob } from './verify_asset.job';
+
+export interface PostIngestPayload {
+  asset_uuid: string;
+  // Metadata the caller gave at ingest when it was incomplete, extraction fills in the rest
+  metadata?: Partial<AssetMetaInput>;
+}
+
+// Jobs enqueued for every newly ingested asset, limited to some extensions when given
+export const POST_INGEST_JOBS: { type: string; extensions?: string[] }[] = [
+  { type: 'asset.verify' },
+  { type: 'asset.extract_metadata', extensions: ['jpg', 'jpeg', 'tif', 'tiff', 'dng'] },
+  { type: 'asset.render', extensions: ['jpg', 'jpeg', 'png', 'tif', 'tiff', 'webp'] },
+  { type: 'asset.probe_video', extensions: ['mp4', 'mov'] }
+];
+
+/**
+ * Register the handler of every job type with the queue
+ */
+export const registerJobHandlers = () => {
+  const jobQueue = JobQueue.getInstance();
+
+  jobQueue.registerHandler('asset.verify', verifyAssetJob);
+  jobQueue.registerHandler('asset.extract_metadata', extractMetadataJob);
+  jobQueue.registerHandler('asset.render', renderAssetJob);
+  jobQueue.registerHandler('asset.probe_video', probeVideoJob);
+  jobQueue.registerHandler('asset.relocate', relocateAssetJob);
+  jobQueue.registerHandler('assets.export', exportAssetsJob);
+  jobQueue.registerHandler('vocabulary.merge', mergeVocabularyJob);
+};
+
+export { relocateWithRetry } from './relocate_asset.job';
+
+/**
+ * Enqueue the processing jobs of a newly ingested asset
+ *
+ * @param asset - The ingested asset
+ * @param userUuid - The uploading user
+ * @param metadata - Incomplete metadata given at ingest, if any
+ * @returns The queued jobs
+ */
+export const enqueuePostIngestJobs = async (
+  asset: { uuid: string; extension: string },
+  userUuid: string,
+  metadata?: Partial<AssetMetaInput>
+) => {
+  const jobQueue = JobQueue.getInstance();
+  const payload: PostIngestPayload = { asset_uuid: asset.uuid, metadata };
+  const extension = asset.extension.toLowerCase();
+
+  const jobTypes = POST_INGEST_JOBS
+    .filter((job) => !job.extensions || job.extensions.includes(extension))
+    .map((job) => job.type);
+
+  return Promise.all(jobTypes.map((type) => jobQueue.enqueue(type, payload, {
+    user_uuid: userUuid,
+    asset_uuid: asset.uuid
+  })));
+};
@@ -0,0 +1,20 @@
+import { prisma } from '../clients/prisma';
+import { VocabularyController } from '../controllers/vocabulary.controller';
+import { Job } from '../types/job';
+import { MergeVocabularyPayload } from '../types/vocabulary';
+
+/**
+ * Change the assets storing merged vocabulary values, in the name of the
+ * admin who merged them
+ */
+export const mergeVocabularyJob = async (job: Job<MergeVocabularyPayload>) => {
+  const user = job.user_uuid
+    ? await prisma.user.findUnique({ where: { uuid: job.user_uuid } })
+    : null;
+
+  if (!user) {
+    throw new Error(`User of merge no longer exists: ${job.user_uuid}`);
+  }
+
+  return VocabularyController.applyMerge(job, user);
+};
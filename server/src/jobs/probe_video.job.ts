@@ -0,0 +1,197 @@
+import sharp from 'sharp';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
+import { ProbeResult, ProbeStream, extractFrame, extractSubtitles, probeMedia } from '../core/ffmpeg';
+import { GpsTrackPoint, parseSrtTelemetry } from '../core/telemetry';
+import logger from '../logger';
+import { Job } from '../types/job';
+import { completeMetaBase } from './extract_metadata.job';
+import { PostIngestPayload } from './index';
+import { POSTER_RENDITIONS, RENDITIONS, storeRenditions } from './render_asset.job';
+
+// Seconds the presigned URL handed to ffprobe / ffmpeg stays valid
+const READ_URL_EXPIRY = 3600;
+
+// Where the poster frame is taken, skipping black lead-in frames of short clips
+const POSTER_OFFSET = 1;
+
+// ISO 6709 position as written by phones and DJI drones: +47.3731+008.5416+453.110/
+const ISO6709 = /^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/;
+
+const toNumber = (value?: string | number): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Parse an ffprobe rational like "30000/1001"
+ */
+const toFrameRate = (value?: string): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const [numerator, denominator] = value.split('/').map(Number);
+  const rate = denominator ? numerator / denominator : numerator;
+  return Number.isFinite(rate) && rate > 0 ? Math.round(rate * 1000) / 1000 : undefined;
+};
+
+const toDate = (value?: string): Date | undefined => {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+/**
+ * Clockwise rotation of a video stream, from the legacy rotate tag or the display matrix
+ */
+const toRotation = (stream: ProbeStream): number | undefined => {
+  const displayMatrix = stream.side_data_list?.find((data) => data.rotation !== undefined);
+  // The display matrix rotation is counter-clockwise
+  const rotation = toNumber(stream.tags?.rotate) ?? (displayMatrix ? -displayMatrix.rotation : undefined);
+
+  return rotation !== undefined ? ((Math.round(rotation) % 360) + 360) % 360 : undefined;
+};
+
+/**
+ * Lower-case the container tags, ffprobe keeps the case they were written in
+ */
+const toTags = (tags: Record<string, string> = {}): Record<string, string> => {
+  return Object.fromEntries(Object.entries(tags).map(([key, value]) => [key.toLowerCase(), value]));
+};
+
+/**
+ * Map the ffprobe output onto the video metadata columns
+ */
+const toVideoMetadata = (probe: ProbeResult) => {
+  // Cover art is reported as a video stream too
+  const video = probe.streams.find((stream) => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+  const audio = probe.streams.find((stream) => stream.codec_type === 'audio');
+  const tags = toTags(probe.format.tags);
+
+  const rotation = video ? toRotation(video) : undefined;
+  const rotated = rotation === 90 || rotation === 270;
+
+  const location = (tags['com.apple.quicktime.location.iso6709'] || tags.location || '').match(ISO6709);
+
+  return {
+    duration: toNumber(probe.format.duration) ?? toNumber(video?.duration),
+    width: rotated ? video?.height : video?.width,
+    height: rotated ? video?.width : video?.height,
+    rotation,
+    video_codec: video?.codec_name,
+    audio_codec: audio?.codec_name,
+    frame_rate: toFrameRate(video?.avg_frame_rate) ?? toFrameRate(video?.r_frame_rate),
+    bit_rate: toNumber(probe.format.bit_rate) !== undefined ? BigInt(probe.format.bit_rate!) : undefined,
+    container: probe.format.format_name,
+    captured_at: toDate(tags['com.apple.quicktime.creationdate']) || toDate(tags.creation_time),
+    latitude: location ? toNumber(location[1]) : undefined,
+    longitude: location ? toNumber(location[2]) : undefined,
+    altitude: location ? toNumber(location[3]) : undefined,
+    camera_make: tags['com.apple.quicktime.make'] || tags.make,
+    camera_model: tags['com.apple.quicktime.model'] || tags.model,
+    tags: Object.keys(tags).length > 0 ? tags : undefined
+  };
+};
+
+/**
+ * Read the GPS track from the first subtitle stream carrying DJI telemetry
+ */
+const readGpsTrack = async (url: string, probe: ProbeResult): Promise<GpsTrackPoint[]> => {
+  const subtitleStreams = probe.streams.filter((stream) => stream.codec_type === 'subtitle');
+
+  for (const stream of subtitleStreams) {
+    try {
+      const track = parseSrtTelemetry(await extractSubtitles(url, stream.index));
+      if (track.length > 0) {
+        return track;
+      }
+    } catch (error) {
+      // Not every subtitle codec converts to SRT, a bad track shouldn't fail the job
+      logger.warn(`Failed to read subtitle stream ${stream.index}:`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return [];
+};
+
+/**
+ * Probe a stored video with ffprobe into asset_meta_video
+ *
+ * The embedded DJI telemetry track, when there is one, is stored as the GPS
+ * track and its first point is used when the container has no position.
+ * A poster frame is grabbed with ffmpeg and stored as the `poster` rendition
+ * together with the regular previews. The base metadata is completed like
+ * it is for images.
+ */
+export const probeVideoJob = async (job: Job<PostIngestPayload>) => {
+  const storage = getStorage();
+
+  const asset = await prisma.asset.findUnique({
+    where: { uuid: job.payload.asset_uuid },
+    include: { meta_base: true }
+  });
+
+  // The asset may have been purged before the job ran
+  if (!asset) {
+    logger.info(`Skipping video probe of missing asset: ${job.payload.asset_uuid}`);
+    return { skipped: true };
+  }
+
+  // ffprobe and ffmpeg read over HTTP with range requests, the video is never downloaded whole
+  const url = await storage.getPresignedUrl(asset.stored_fullpath, READ_URL_EXPIRY);
+  const probe = await probeMedia(url);
+  const { camera_make, camera_model, ...video } = toVideoMetadata(probe);
+
+  const gpsTrack = await readGpsTrack(url, probe);
+  if (video.latitude === undefined && gpsTrack.length > 0) {
+    video.latitude = gpsTrack[0].latitude;
+    video.longitude = gpsTrack[0].longitude;
+    video.altitude = gpsTrack[0].altitude;
+  }
+
+  const videoData = {
+    ...video,
+    gps_track: gpsTrack.length > 0 ? gpsTrack as unknown as Prisma.InputJsonValue : undefined,
+    tags: video.tags as Prisma.InputJsonValue | undefined
+  };
+
+  await prisma.assetMetaVideo.upsert({
+    where: { asset_id: asset.uuid },
+    create: { ...videoData, asset_id: asset.uuid },
+    update: { ...videoData, probed_at: new Date() }
+  });
+
+  // Audio-only files have nothing to show
+  let renditions: string[] = [];
+  if (video.video_codec) {
+    const offset = video.duration !== undefined ? Math.min(POSTER_OFFSET, video.duration / 2) : 0;
+    const frame = await extractFrame(url, offset);
+
+    const stored = await storeRenditions(asset, sharp(frame), { ...POSTER_RENDITIONS, ...RENDITIONS });
+    renditions = stored.map((rendition) => rendition.name);
+  }
+
+  // Last, a created asset_meta_base moves the object the URL points at
+  const metaBaseCreated = await completeMetaBase(asset, job.payload.metadata, {
+    ...video,
+    camera_make,
+    camera_model
+  });
+
+  logger.info(`Probed video asset: ${asset.uuid}`, {
+    duration: video.duration,
+    codec: video.video_codec,
+    trackPoints: gpsTrack.length,
+    metaBaseCreated
+  });
+
+  return {
+    duration: video.duration,
+    gps_track_points: gpsTrack.length,
+    meta_base_created: metaBaseCreated,
+    renditions
+  };
+};
@@ -0,0 +1,463 @@
+import Redis from 'ioredis';
+import crypto from 'crypto';
+import { RedisClient } from '../clients/redis';
+import { config } from '../config';
+import logger from '../logger';
+import { EnqueueOptions, Job, JobHandler } from '../types/job';
+
+// Ids waiting for a worker, workers take from the right
+const QUEUED_KEY = 'jobs:queued';
+// Ids currently held by a worker
+const ACTIVE_KEY = 'jobs:active';
+// Sorted set of ids waiting for a retry, scored by when they are due
+const DELAYED_KEY = 'jobs:delayed';
+// Ids that ran out of attempts, most recent first
+const DEAD_KEY = 'jobs:dead';
+// Longest the dead-letter list gets, older ids are dropped
+const MAX_DEAD_JOBS = 1000;
+
+const jobKey = (jobId: string) => `job:${jobId}`;
+// Exists while a live worker runs the job, renewed until the handler returns
+const leaseKey = (jobId: string) => `job:${jobId}:lease`;
+const assetJobsKey = (assetUuid: string) => `jobs:asset:${assetUuid}`;
+
+// Seconds a worker blocks waiting for a job, bounds how long stop() takes
+const BLOCK_TIMEOUT = 5;
+
+// Move the oldest queued id to the active list and lease it in one step, so
+// no maintenance run sees the job active without a lease
+// KEYS: queued, active  ARGV: lease seconds
+const TAKE_SCRIPT = `
+local jobId = redis.call('LMOVE', KEYS[1], KEYS[2], 'RIGHT', 'LEFT')
+if jobId then
+  redis.call('SET', 'job:' .. jobId .. ':lease', '1', 'EX', ARGV[1])
+end
+return jobId
+`;
+// How often delayed and stalled jobs are checked, in milliseconds
+const MAINTENANCE_INTERVAL = 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/**
+ * Durable job queue on Redis lists
+ *
+ * Jobs are JSON records under `job:<id>`, their ids move between the queued,
+ * active, delayed and dead lists. A worker atomically moves an id from queued
+ * to active and takes a lease on it, so a job taken by a crashed worker stays
+ * in the active list and is retried once its lease lapses. While a handler
+ * runs its worker keeps renewing the lease, so long jobs never count as
+ * stalled. Failed jobs are retried with exponential backoff and end up in the
+ * dead-letter list when out of attempts. Finished jobs and the per-asset
+ * lists expire after the retention time.
+ */
+export class JobQueue {
+  private static instance: JobQueue;
+  private handlers: Map<string, JobHandler> = new Map();
+  private workerConnections: Redis[] = [];
+  private workerLoops: Promise<void>[] = [];
+  private maintenanceTimer?: ReturnType<typeof setInterval>;
+  private running: boolean = false;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get the singleton instance of JobQueue
+   * @returns JobQueue instance
+   */
+  public static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  /**
+   * Get the shared Redis connection
+   */
+  private async redis(): Promise<Redis> {
+    const redisClient = RedisClient.getInstance();
+    await redisClient.initialize();
+    return redisClient.getClient();
+  }
+
+  /**
+   * Register the function that processes jobs of a type
+   * @param type - The job type
+   * @param handler - Resolves with the job result, throws to fail the attempt
+   */
+  public registerHandler<T = any>(type: string, handler: JobHandler<T>): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue
+   * @param type - The job type
+   * @param payload - Data handed to the handler, must be JSON serializable
+   * @param options - Owning user / asset and attempt limit
+   * @returns The queued job
+   */
+  public async enqueue<T = any>(type: string, payload: T, options: EnqueueOptions = {}): Promise<Job<T>> {
+    const redis = await this.redis();
+    const now = new Date().toISOString();
+
+    const job: Job<T> = {
+      id: crypto.randomUUID(),
+      type,
+      payload,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: options.max_attempts || config.jobs.maxAttempts,
+      user_uuid: options.user_uuid,
+      asset_uuid: options.asset_uuid,
+      created_at: now,
+      updated_at: now
+    };
+
+    const transaction = redis.multi()
+      .set(jobKey(job.id), JSON.stringify(job))
+      .lpush(QUEUED_KEY, job.id);
+
+    // The list expires once its jobs are finished, not while one is pending
+    if (job.asset_uuid) {
+      transaction
+        .rpush(assetJobsKey(job.asset_uuid), job.id)
+        .persist(assetJobsKey(job.asset_uuid));
+    }
+
+    await transaction.exec();
+
+    logger.debug(`Enqueued job: ${job.id}`, { type });
+
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   * @returns The job or null if it doesn't exist or has expired
+   */
+  public async getJob(jobId: string): Promise<Job | null> {
+    const redis = await this.redis();
+
+    const raw = await redis.get(jobKey(jobId));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /**
+   * Get several jobs by ID, skipping the ones that have expired
+   */
+  private async getJobs(jobIds: string[]): Promise<Job[]> {
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const redis = await this.redis();
+    const raws = await redis.mget(jobIds.map(jobKey));
+
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => JSON.parse(raw));
+  }
+
+  /**
+   * Get the jobs that were enqueued for an asset, oldest first
+   */
+  public async listAssetJobs(assetUuid: string): Promise<Job[]> {
+    const redis = await this.redis();
+
+    const jobIds = await redis.lrange(assetJobsKey(assetUuid), 0, -1);
+    return this.getJobs(jobIds);
+  }
+
+  /**
+   * Get the jobs in the dead-letter list, most recent first
+   */
+  public async listDeadJobs(): Promise<Job[]> {
+    const redis = await this.redis();
+
+    const jobIds = await redis.lrange(DEAD_KEY, 0, -1);
+    return this.getJobs(jobIds);
+  }
+
+  /**
+   * Move a dead job back to the queue with a fresh set of attempts
+   * @returns The requeued job or null if it isn't in the dead-letter list
+   */
+  public async retryDeadJob(jobId: string): Promise<Job | null> {
+    const redis = await this.redis();
+
+    // Only the caller that removes it from the dead-letter list requeues it
+    const removed = await redis.lrem(DEAD_KEY, 0, jobId);
+    const job = await this.getJob(jobId);
+    if (!removed || !job) {
+      return null;
+    }
+
+    job.status = 'queued';
+    job.attempts = 0;
+    job.updated_at = new Date().toISOString();
+    delete job.run_at;
+    delete job.finished_at;
+
+    const transaction = redis.multi()
+      .set(jobKey(job.id), JSON.stringify(job))
+      .lpush(QUEUED_KEY, job.id);
+
+    if (job.asset_uuid) {
+      transaction.persist(assetJobsKey(job.asset_uuid));
+    }
+
+    await transaction.exec();
+
+    logger.info(`Requeued dead job: ${job.id}`, { type: job.type });
+
+    return job;
+  }
+
+  /**
+   * Start processing jobs with the configured number of workers
+   */
+  public async start(): Promise<void> {
+    if (this.running || config.jobs.concurrency < 1) {
+      return;
+    }
+
+    const redis = await this.redis();
+    this.running = true;
+
+    // Blocking commands hold their connection, so every worker gets its own
+    for (let i = 0; i < config.jobs.concurrency; i++) {
+      const connection = redis.duplicate();
+      this.workerConnections.push(connection);
+      this.workerLoops.push(this.work(connection));
+    }
+
+    this.maintenanceTimer = setInterval(() => {
+      this.maintain().catch((error) => {
+        logger.error('Job queue maintenance failed:', error);
+      });
+    }, MAINTENANCE_INTERVAL);
+
+    logger.info(`Job queue started with ${config.jobs.concurrency} workers`, {
+      handlers: [...this.handlers.keys()]
+    });
+  }
+
+  /**
+   * Stop taking new jobs and wait for the running ones to finish
+   */
+  public async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    clearInterval(this.maintenanceTimer);
+
+    await Promise.all(this.workerLoops);
+    await Promise.all(this.workerConnections.map((connection) => connection.quit()));
+
+    this.workerLoops = [];
+    this.workerConnections = [];
+
+    logger.info('Job queue stopped');
+  }
+
+  /**
+   * Worker loop, takes one job at a time until the queue is stopped
+   */
+  private async work(connection: Redis): Promise<void> {
+    while (this.running) {
+      try {
+        // Blocking commands can't run in a script, so wait for a queued job
+        // without taking it (moving the tail onto itself), then take it
+        const queued = await connection.blmove(QUEUED_KEY, QUEUED_KEY, 'RIGHT', 'RIGHT', BLOCK_TIMEOUT);
+        if (!queued) {
+          continue;
+        }
+
+        // Null when another worker took it first
+        const jobId = await connection.eval(TAKE_SCRIPT, 2, QUEUED_KEY, ACTIVE_KEY, config.jobs.stallTimeout) as string | null;
+        if (jobId) {
+          await this.process(jobId);
+        }
+      } catch (error) {
+        logger.error('Job worker error:', error);
+        // Don't spin while Redis is unreachable
+        await new Promise((resolve) => setTimeout(resolve, MAINTENANCE_INTERVAL));
+      }
+    }
+  }
+
+  /**
+   * Run a job that a worker just took from the queue
+   */
+  private async process(jobId: string): Promise<void> {
+    const redis = await this.redis();
+
+    const job = await this.getJob(jobId);
+    if (!job) {
+      // The record expired or was removed, drop the orphaned id
+      await redis.lrem(ACTIVE_KEY, 0, jobId);
+      return;
+    }
+
+    job.status = 'active';
+    job.attempts += 1;
+    job.started_at = new Date().toISOString();
+    job.updated_at = job.started_at;
+    await redis.set(jobKey(job.id), JSON.stringify(job));
+
+    const handler = this.handlers.get(job.type);
+
+    // Taken with a lease, renewed well within the stall timeout, it lapses on
+    // its own when this process dies
+    const renewLease = () => redis.set(leaseKey(job.id), '1', 'EX', config.jobs.stallTimeout);
+    const leaseTimer = setInterval(() => {
+      renewLease().catch((error) => {
+        logger.warn(`Failed to renew lease of job: ${job.id}`, { error: error instanceof Error ? error.message : String(error) });
+      });
+    }, config.jobs.stallTimeout * 1000 / 3);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type: ${job.type}`);
+      }
+
+      job.result = await handler(job);
+      await this.complete(job);
+    } catch (error) {
+      await this.fail(job, error instanceof Error ? error.message : String(error), !handler);
+    } finally {
+      clearInterval(leaseTimer);
+      await redis.del(leaseKey(job.id));
+    }
+  }
+
+  /**
+   * Mark an active job as completed, it expires after the retention time
+   */
+  private async complete(job: Job): Promise<void> {
+    const redis = await this.redis();
+
+    job.status = 'completed';
+    job.finished_at = new Date().toISOString();
+    job.updated_at = job.finished_at;
+    delete job.last_error;
+
+    const transaction = redis.multi()
+      .set(jobKey(job.id), JSON.stringify(job), 'EX', config.jobs.retention)
+      .lrem(ACTIVE_KEY, 0, job.id);
+
+    if (job.asset_uuid) {
+      transaction.expire(assetJobsKey(job.asset_uuid), config.jobs.retention);
+    }
+
+    await transaction.exec();
+
+    logger.debug(`Completed job: ${job.id}`, { type: job.type, attempts: job.attempts });
+  }
+
+  /**
+   * Schedule a retry for a failed job, or dead-letter it when out of attempts
+   * @param permanent - Skip the retries, the job can never succeed
+   */
+  private async fail(job: Job, message: string, permanent: boolean = false): Promise<void> {
+    const redis = await this.redis();
+    const now = Date.now();
+
+    job.last_error = message;
+    job.updated_at = new Date(now).toISOString();
+
+    if (permanent || job.attempts >= job.max_attempts) {
+      job.status = 'dead';
+      job.finished_at = job.updated_at;
+
+      const transaction = redis.multi()
+        .set(jobKey(job.id), JSON.stringify(job), 'EX', config.jobs.retention)
+        .lrem(ACTIVE_KEY, 0, job.id)
+        .lpush(DEAD_KEY, job.id)
+        .ltrim(DEAD_KEY, 0, MAX_DEAD_JOBS - 1);
+
+      if (job.asset_uuid) {
+        transaction.expire(assetJobsKey(job.asset_uuid), config.jobs.retention);
+      }
+
+      await transaction.exec();
+
+      logger.error(`Job moved to the dead-letter list: ${job.id}`, {
+        type: job.type,
+        attempts: job.attempts,
+        error: message
+      });
+      return;
+    }
+
+    const backoff = Math.min(config.jobs.backoffMs * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+    job.status = 'delayed';
+    job.run_at = new Date(now + backoff).toISOString();
+
+    await redis.multi()
+      .set(jobKey(job.id), JSON.stringify(job))
+      .lrem(ACTIVE_KEY, 0, job.id)
+      .zadd(DELAYED_KEY, now + backoff, job.id)
+      .exec();
+
+    logger.warn(`Job failed, retrying in ${backoff}ms: ${job.id}`, {
+      type: job.type,
+      attempts: job.attempts,
+      error: message
+    });
+  }
+
+  /**
+   * Requeue delayed jobs that are due and fail jobs whose worker stalled
+   */
+  private async maintain(): Promise<void> {
+    const redis = await this.redis();
+    const now = Date.now();
+
+    const dueJobIds = await redis.zrangebyscore(DELAYED_KEY, 0, now);
+    for (const jobId of dueJobIds) {
+      // Several processes run this, only the one that removes the id requeues it
+      const removed = await redis.zrem(DELAYED_KEY, jobId);
+      if (!removed) {
+        continue;
+      }
+
+      const job = await this.getJob(jobId);
+      if (!job) {
+        continue;
+      }
+
+      job.status = 'queued';
+      job.updated_at = new Date(now).toISOString();
+      await redis.multi()
+        .set(jobKey(job.id), JSON.stringify(job))
+        .lpush(QUEUED_KEY, job.id)
+        .exec();
+    }
+
+    const activeJobIds = await redis.lrange(ACTIVE_KEY, 0, -1);
+    for (const job of await this.getJobs(activeJobIds)) {
+      if (now - new Date(job.updated_at).getTime() < config.jobs.stallTimeout * 1000) {
+        continue;
+      }
+
+      // A worker is still running it, jobs are taken with their lease
+      if (await redis.exists(leaseKey(job.id))) {
+        continue;
+      }
+
+      const removed = await redis.lrem(ACTIVE_KEY, 0, job.id);
+      if (!removed) {
+        continue;
+      }
+
+      logger.warn(`Job stalled: ${job.id}`, { type: job.type });
+      await this.fail(job, `Job did not finish within ${config.jobs.stallTimeout} seconds`);
+    }
+  }
+}
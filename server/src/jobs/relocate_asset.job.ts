@@ -0,0 +1,49 @@
+import { RelocationController } from '../controllers/relocation.controller';
+import logger from '../logger';
+import { Job } from '../types/job';
+import { JobQueue } from './queue';
+
+export interface RelocatePayload {
+  asset_uuid: string;
+}
+
+/**
+ * Move an asset's object to the path its current metadata implies
+ * Relocating an asset that is already in place does nothing
+ */
+export const relocateAssetJob = async (job: Job<RelocatePayload>) => {
+  const result = await RelocationController.relocateAsset(job.payload.asset_uuid);
+
+  return { relocated: result.relocated, from: result.from, to: result.to };
+};
+
+/**
+ * Relocate an asset after its metadata changed
+ * A failed move is retried in the background, the metadata change stands
+ *
+ * @param assetUuid - UUID of the asset
+ * @param userUuid - The user whose change caused the move, if any
+ */
+export const relocateWithRetry = async (assetUuid: string, userUuid?: string) => {
+  try {
+    await RelocationController.relocateAsset(assetUuid);
+  } catch (error) {
+    logger.error('Asset relocation failed, retrying in the background:', {
+      error: error instanceof Error ? error.message : String(error),
+      assetUuid
+    });
+
+    try {
+      const payload: RelocatePayload = { asset_uuid: assetUuid };
+      await JobQueue.getInstance().enqueue('asset.relocate', payload, {
+        user_uuid: userUuid,
+        asset_uuid: assetUuid
+      });
+    } catch (enqueueError) {
+      logger.error('Failed to enqueue asset relocation:', {
+        error: enqueueError instanceof Error ? enqueueError.message : String(enqueueError),
+        assetUuid
+      });
+    }
+  }
+};
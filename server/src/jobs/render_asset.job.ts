@@ -0,0 +1,137 @@
+import sharp from 'sharp';
+import { pipeline } from 'stream/promises';
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
+import { PathUtils } from '../core/path_utils';
+import logger from '../logger';
+import { Job } from '../types/job';
+import { PostIngestPayload } from './index';
+
+export interface RenditionSpec {
+  // Longest edge for previews, both edges for cropped thumbnails
+  size: number;
+  fit: 'cover' | 'inside';
+  format: 'jpeg' | 'webp';
+  quality: number;
+}
+
+// Rendition presets, the names are part of the public URL
+export const RENDITIONS: Record<string, RenditionSpec> = {
+  thumb: { size: 320, fit: 'cover', format: 'jpeg', quality: 80 },
+  medium: { size: 1280, fit: 'inside', format: 'jpeg', quality: 85 },
+  web: { size: 2048, fit: 'inside', format: 'webp', quality: 82 }
+};
+
+// Full size still of a video, only generated for videos
+export const POSTER_RENDITIONS: Record<string, RenditionSpec> = {
+  poster: { size: 3840, fit: 'inside', format: 'jpeg', quality: 90 }
+};
+
+const FORMAT_EXTENSIONS: Record<RenditionSpec['format'], string> = {
+  jpeg: 'jpg',
+  webp: 'webp'
+};
+
+/**
+ * Resize a decoded image to every preset and store the results as renditions
+ * of the asset, replacing earlier ones with the same name
+ *
+ * @param asset - The asset the renditions belong to
+ * @param image - The source image, each preset works on a clone of it
+ * @param specs - The presets to generate
+ * @returns The stored renditions
+ */
+export const storeRenditions = async (
+  asset: { uuid: string; stored_fullpath: string },
+  image: sharp.Sharp,
+  specs: Record<string, RenditionSpec>
+) => {
+  const storage = getStorage();
+
+  const rendered = await Promise.all(Object.entries(specs).map(async ([name, spec]) => {
+    const { data, info } = await image.clone()
+      .resize({
+        width: spec.size,
+        height: spec.size,
+        fit: spec.fit,
+        withoutEnlargement: true
+      })
+      .toFormat(spec.format, { quality: spec.quality })
+      .toBuffer({ resolveWithObject: true });
+
+    return { name, spec, data, info };
+  }));
+
+  const renditions = [];
+
+  for (const { name, spec, data, info } of rendered) {
+    const storedPath = PathUtils.generateRenditionPath(
+      asset.stored_fullpath,
+      asset.uuid,
+      name,
+      FORMAT_EXTENSIONS[spec.format]
+    );
+    const contentType = `image/${spec.format}`;
+
+    await storage.uploadObject(storedPath, data, data.length, contentType);
+
+    const renditionData = {
+      stored_fullpath: storedPath,
+      content_type: contentType,
+      width: info.width,
+      height: info.height,
+      size: data.length
+    };
+
+    renditions.push(await prisma.assetRendition.upsert({
+      where: { asset_id_name: { asset_id: asset.uuid, name } },
+      create: { ...renditionData, name, asset_id: asset.uuid },
+      update: { ...renditionData, created_at: new Date() }
+    }));
+  }
+
+  return renditions;
+};
+
+/**
+ * Generate every rendition of a stored image
+ *
+ * The original is streamed from MinIO once and decoded by sharp, each preset
+ * is resized from that. Re-running the job replaces existing renditions.
+ */
+export const renderAssetJob = async (job: Job<PostIngestPayload>) => {
+  const storage = getStorage();
+
+  const asset = await prisma.asset.findUnique({
+    where: { uuid: job.payload.asset_uuid }
+  });
+
+  // The asset may have been purged before the job ran
+  if (!asset) {
+    logger.info(`Skipping renditions of missing asset: ${job.payload.asset_uuid}`);
+    return { skipped: true };
+  }
+
+  // rotate() applies the EXIF orientation before resizing
+  const image = sharp({ failOn: 'none' }).rotate();
+  const objectStream = await storage.getObject(asset.stored_fullpath);
+
+  // A read failing midway never ends the sharp input, so fail the job on it
+  // rather than waiting for renditions that can't finish
+  const [renditions] = await Promise.all([
+    storeRenditions(asset, image, RENDITIONS),
+    pipeline(objectStream, image)
+  ]);
+
+  logger.info(`Generated renditions of asset: ${asset.uuid}`, {
+    renditions: renditions.map((rendition) => rendition.name)
+  });
+
+  return {
+    renditions: renditions.map((rendition) => ({
+      name: rendition.name,
+      width: rendition.width,
+      height: rendition.height
+    }))
+  };
+};
@@ -0,0 +1,31 @@
+import { prisma } from '../clients/prisma';
+import { getStorage } from '../clients/storage';
+import logger from '../logger';
+import { Job } from '../types/job';
+import { PostIngestPayload } from './index';
+
+/**
+ * Check that the stored object of a freshly ingested asset exists and has
+ * the recorded size, so a broken upload shows up as a dead job
+ */
+export const verifyAssetJob = async (job: Job<PostIngestPayload>) => {
+  const storage = getStorage();
+
+  const asset = await prisma.asset.findUnique({
+    where: { uuid: job.payload.asset_uuid }
+  });
+
+  // The asset may have been purged before the job ran
+  if (!asset) {
+    logger.info(`Skipping verification of missing asset: ${job.payload.asset_uuid}`);
+    return { skipped: true };
+  }
+
+  const stat = await storage.statObject(asset.stored_fullpath);
+
+  if (BigInt(stat.size) !== asset.size) {
+    throw new Error(`Stored object is ${stat.size} bytes, expected ${asset.size}`);
+  }
+
+  return { size: stat.size, etag: stat.etag };
+};
@@ -1,7 +1,27 @@
 import { t } from 'elysia';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
 import { createBaseRoute } from './base';
 import { AssetController } from '../controllers/asset.controller';
+import { AccessController } from '../controllers/access.controller';
+import { BulkController } from '../controllers/bulk.controller';
+import { ContentController } from '../controllers/content.controller';
+import { JobController } from '../controllers/job.controller';
+import { RenditionController } from '../controllers/rendition.controller';
+import { SearchController } from '../controllers/search.controller';
+import { MAX_TAGS, TagController } from '../controllers/tag.controller';
+import { readMultipartUpload, spoolMultipartUpload } from '../core/multipart';
+import { parseCoordinates, toFeatureCollection } from '../core/geo';
+import { parseCustomField } from '../core/custom_metadata';
+import { config } from '../config';
 import logger from '../logger';
+import { DedupePolicy } from '../types/config';
+
+// Allowance for form fields and part headers on top of the file itself
+const MULTIPART_OVERHEAD_BYTES = 1024 * 1024;
+
+const DEDUPE_POLICIES: DedupePolicy[] = ['always', 'reject', 'link'];
 
 /**
  * Asset routes for handling asset operations
@@ -17,75 +37,122 @@ import logger from '../logger';
  *   .listen(3000);
  * ```
  * 
+ * Every endpoint requires an authenticated user (session cookie or bearer
+ * token) and is limited by that user's per-asset access grants.
+ * 
  * This will expose the following endpoints:
  * - POST /assets/ingest - Upload and process a new asset with optional metadata
+ * - POST /assets/ingest/bulk - Ingest a zip or several files with a metadata manifest
  * - POST /assets/:uuid/metadata - Upsert metadata for an asset
+ * - PATCH /assets/:uuid/metadata - Update some metadata fields of an asset
+ * - GET /assets/:uuid/metadata/history - List the metadata changes of an asset
+ * - POST /assets/:uuid/metadata/history/:history_id/revert - Restore the metadata of a past change
+ * - GET /assets/search - Ranked full-text search over filenames and metadata, with highlights and facets
+ * - GET /assets/duplicates - List groups of assets with identical content
  * - GET /assets/:uuid - Get asset by UUID
- * - GET /assets - List assets with optional filtering
- * - DELETE /assets/:uuid - Delete an asset
+ * - GET /assets - List assets with optional filtering (metadata, custom fields, tags, area, collection) and cursor pagination,
+ *   as JSON or a GeoJSON FeatureCollection
+ * - DELETE /assets/:uuid - Move an asset to the trash, or delete it permanently
+ * - POST /assets/:uuid/restore - Restore an asset from the trash
+ * - GET /assets/:uuid/jobs - List the background jobs of an asset
+ * - GET /assets/:uuid/renditions - List the generated previews of an asset
+ * - GET /assets/:uuid/renditions/:name - Redirect to a preview (thumb, medium, web, poster)
+ * - GET /assets/:uuid/content - Stream the original file with Range and ETag support,
+ *   or redirect to a short-lived presigned URL with redirect=presigned
+ * - POST /assets/:uuid/tags - Add tags to an asset
+ * - DELETE /assets/:uuid/tags/:tag - Remove a tag from an asset
+ * - GET /assets/:uuid/access - List access grants of an asset
  * - POST /assets/:uuid/access - Grant access to an asset
  * - DELETE /assets/:uuid/access/:user_uuid - Revoke access to an asset
  */
 export const assetRoutes = createBaseRoute('/assets')
   // Ingest a new asset with multipart form upload (metadata is now optional)
+  // The body is streamed, so metadata fields must be sent before the file,
+  // a field after it fails the upload with a 400
   .post('/ingest', 
-    async ({ body, set }) => {
+    async ({ request, set, user }) => {
       try {
+        // Reject uploads that announce a size over the limit before reading them
+        const contentLength = parseInt(request.headers.get('content-length') || '0');
+        if (contentLength > config.assets.maxUploadSize + MULTIPART_OVERHEAD_BYTES) {
+          set.status = 413;
+          return {
+            success: false,
+            error: `File exceeds the maximum upload size of ${config.assets.maxUploadSize} bytes`
+          };
+        }
+        
+        const { fields, file } = await readMultipartUpload(request, 'file');
+        
+        if (!file) {
+          set.status = 400;
+          return {
+            success: false,
+            error: 'No file provided or invalid file'
+          };
+        }
+        
         const { 
-          file,
           asset_type,
           asset_class,
           asset_location_name,
           asset_camera,
-          asset_date_label
-        } = body;
+          asset_date_label,
+          latitude,
+          longitude,
+          altitude,
+          custom,
+          dedupe
+        } = fields;
         
-        if (!file || !(file instanceof File)) {
+        if (dedupe && !DEDUPE_POLICIES.includes(dedupe as DedupePolicy)) {
           set.status = 400;
           return {
             success: false,
-            error: 'No file provided or invalid file'
+            error: `dedupe must be one of: ${DEDUPE_POLICIES.join(', ')}`
           };
         }
+        
+        const options = { dedupePolicy: dedupe as DedupePolicy | undefined };
+        
+        const source = {
+          stream: file.stream,
+          filename: file.filename,
+          contentType: file.mimeType
+        };
 
-        // Check if all metadata fields are provided
-        const hasAllMetadataFields = asset_type && 
-          asset_class && 
-          asset_location_name && 
-          asset_camera && 
-          asset_date_label;
-        
-        let asset;
-        
-        // If all metadata fields are provided, include them in the ingest
-        if (hasAllMetadataFields) {
-          const metadata = {
-            asset_type,
-            asset_class,
-            asset_location_name,
-            asset_camera,
-            asset_date_label
-          };
-
-          logger.info('Ingesting asset with metadata', { 
-            filename: file.name, 
-            size: file.size, 
-            type: file.type,
-            metadata
-          });
-          
-          asset = await AssetController.ingestAsset(file, metadata);
-        } else {
-          // If any metadata field is missing, ingest the asset without metadata
-          logger.info('Ingesting asset without metadata', { 
-            filename: file.name, 
-            size: file.size, 
-            type: file.type
-          });
-          
-          asset = await AssetController.ingestAsset(file);
-        }
-
+        // Missing asset_camera and asset_date_label are filled in from the
+        // file's EXIF data after ingest, other missing fields leave the asset
+        // unclassified
+        const metadata = {
+          ...Object.fromEntries(
+            Object.entries({
+              asset_type,
+              asset_class,
+              asset_location_name,
+              asset_camera,
+              asset_date_label
+            }).filter(([, value]) => value)
+          ),
+          ...parseCoordinates({ latitude, longitude, altitude }),
+          // JSON object of the fields defined for asset_type
+          ...(custom ? { custom: parseCustomField(custom) } : {})
+        };
+        const hasMetadata = Object.keys(metadata).length > 0;
+        
+        logger.info(hasMetadata ? 'Ingesting asset with metadata' : 'Ingesting asset without metadata', { 
+          filename: file.filename, 
+          type: file.mimeType,
+          metadata
+        });
+        
+        const asset = await AssetController.ingestAsset(
+          source,
+          hasMetadata ? metadata : undefined,
+          user,
+          options
+        );
+        
         return {
           success: true,
           data: asset
@@ -99,26 +166,83 @@ export const assetRoutes = createBaseRoute('/assets')
         set.status = statusCode;
         return {
           success: false,
-          error: error instanceof Error ? error.message : 'Failed to ingest asset'
+          error: error instanceof Error ? error.message : 'Failed to ingest asset',
+          // A rejected duplicate carries the existing asset
+          data: error instanceof Error && 'details' in error ? (error as any).details : undefined
         };
       }
     }, 
     {
-      body: t.Object({
-        file: t.Any(),
-        // Make metadata fields optional
-        asset_type: t.Optional(t.String()),
-        asset_class: t.Optional(t.String()),
-        asset_location_name: t.Optional(t.String()),
-        asset_camera: t.Optional(t.String()),
-        asset_date_label: t.Optional(t.String())
-      })
+      // Multipart fields: file, and optionally asset_type, asset_class,
+      // asset_location_name, asset_camera, asset_date_label, latitude,
+      // longitude, altitude and dedupe
+      parse: 'none'
+    }
+  )
+  
+  // Ingest many files at once, the body is spooled to disk before ingesting
+  .post('/ingest/bulk', 
+    async ({ request, set, user }) => {
+      let spoolDir: string | undefined;
+      
+      try {
+        const maxBulkUploadSize = config.assets.maxBulkUploadSize;
+        const contentLength = parseInt(request.headers.get('content-length') || '0');
+        if (contentLength > maxBulkUploadSize + MULTIPART_OVERHEAD_BYTES) {
+          set.status = 413;
+          return {
+            success: false,
+            error: `Upload exceeds the maximum bulk upload size of ${maxBulkUploadSize} bytes`
+          };
+        }
+        
+        spoolDir = await fs.promises.mkdtemp(path.join(config.uploads.tempDir, 'bulk-ingest-'));
+        const upload = await spoolMultipartUpload(request, spoolDir, maxBulkUploadSize);
+        
+        const { dedupe } = upload.fields;
+        if (dedupe && !DEDUPE_POLICIES.includes(dedupe as DedupePolicy)) {
+          set.status = 400;
+          return {
+            success: false,
+            error: `dedupe must be one of: ${DEDUPE_POLICIES.join(', ')}`
+          };
+        }
+        
+        const report = await BulkController.ingestUpload(upload, user, {
+          dedupePolicy: dedupe as DedupePolicy | undefined
+        });
+        
+        return {
+          success: true,
+          data: report
+        };
+      } catch (error) {
+        logger.error('Failed to bulk ingest assets:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to bulk ingest assets'
+        };
+      } finally {
+        if (spoolDir) {
+          await fs.promises.rm(spoolDir, { recursive: true, force: true });
+        }
+      }
+    }, 
+    {
+      // Multipart fields: one or more files (zip archives are expanded),
+      // optionally a manifest (file or text, JSON or CSV) and dedupe
+      parse: 'none'
     }
   )
   
   // New route for upserting metadata
   .post('/:uuid/metadata',
-    async ({ params, body, set }) => {
+    async ({ params, body, set, user }) => {
       try {
         const { uuid } = params;
         const { 
@@ -126,11 +250,15 @@ export const assetRoutes = createBaseRoute('/assets')
           asset_class,
           asset_location_name,
           asset_camera,
-          asset_date_label
+          asset_date_label,
+          latitude,
+          longitude,
+          altitude,
+          custom
         } = body;
         
         // All metadata fields are required for this operation
-        const metadata = {
+        const requiredMetadata = {
           asset_type,
           asset_class,
           asset_location_name,
@@ -139,7 +267,7 @@ export const assetRoutes = createBaseRoute('/assets')
         };
         
         // Validate required metadata fields
-        const missingFields = Object.entries(metadata)
+        const missingFields = Object.entries(requiredMetadata)
           .filter(([_, value]) => !value)
           .map(([key]) => key);
         
@@ -151,12 +279,19 @@ export const assetRoutes = createBaseRoute('/assets')
           };
         }
         
+        // The position is optional, latitude and longitude come together
+        const metadata = {
+          ...requiredMetadata,
+          ...parseCoordinates({ latitude, longitude, altitude }),
+          custom
+        };
+        
         logger.info('Upserting metadata for asset', { 
           uuid, 
           metadata 
         });
         
-        const asset = await AssetController.upsertMetadata(uuid, metadata);
+        const asset = await AssetController.upsertMetadata(uuid, metadata, user);
         
         return {
           success: true,
@@ -184,22 +319,198 @@ export const assetRoutes = createBaseRoute('/assets')
         asset_class: t.String(),
         asset_location_name: t.String(),
         asset_camera: t.String(),
-        asset_date_label: t.String()
+        asset_date_label: t.String(),
+        latitude: t.Optional(t.Number({ minimum: -90, maximum: 90 })),
+        longitude: t.Optional(t.Number({ minimum: -180, maximum: 180 })),
+        altitude: t.Optional(t.Number()),
+        // Fields defined by the metadata schema of asset_type
+        custom: t.Optional(t.Record(t.String(), t.Any()))
+      })
+    }
+  )
+  
+  // Update some metadata fields, null clears the position or altitude
+  .patch('/:uuid/metadata',
+    async ({ params, body, set, user }) => {
+      try {
+        logger.info('Patching metadata for asset', { 
+          uuid: params.uuid, 
+          patch: body 
+        });
+        
+        const asset = await AssetController.patchMetadata(params.uuid, body, user);
+        
+        return {
+          success: true,
+          data: asset
+        };
+      } catch (error) {
+        logger.error('Failed to patch metadata:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update metadata'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        uuid: t.String()
+      }),
+      body: t.Object({
+        asset_type: t.Optional(t.String({ minLength: 1 })),
+        asset_class: t.Optional(t.String({ minLength: 1 })),
+        asset_location_name: t.Optional(t.String({ minLength: 1 })),
+        asset_camera: t.Optional(t.String({ minLength: 1 })),
+        asset_date_label: t.Optional(t.String({ minLength: 1 })),
+        latitude: t.Optional(t.Union([t.Number({ minimum: -90, maximum: 90 }), t.Null()])),
+        longitude: t.Optional(t.Union([t.Number({ minimum: -180, maximum: 180 }), t.Null()])),
+        altitude: t.Optional(t.Union([t.Number(), t.Null()])),
+        // Merged into the stored custom values, null removes a field
+        custom: t.Optional(t.Record(t.String(), t.Any()))
+      })
+    }
+  )
+  
+  // List the metadata changes of an asset
+  .get('/:uuid/metadata/history', 
+    async ({ params, set, user }) => {
+      try {
+        const history = await AssetController.listMetadataHistory(params.uuid, user);
+        
+        return {
+          success: true,
+          data: history
+        };
+      } catch (error) {
+        logger.error('Failed to list metadata history:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list metadata history'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String()
+      })
+    }
+  )
+  
+  // Restore the metadata as it was after a past change
+  .post('/:uuid/metadata/history/:history_id/revert', 
+    async ({ params, set, user }) => {
+      try {
+        const asset = await AssetController.revertMetadata(params.uuid, params.history_id, user);
+        
+        return {
+          success: true,
+          data: asset
+        };
+      } catch (error) {
+        logger.error('Failed to revert metadata:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to revert metadata'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String(),
+        history_id: t.String()
+      })
+    }
+  )
+  
+  // Ranked full-text search with fuzzy matching, highlights and facet counts
+  .get('/search', 
+    async ({ query, set, user }) => {
+      try {
+        const result = await SearchController.searchAssets(query, user);
+        
+        return {
+          success: true,
+          data: result
+        };
+      } catch (error) {
+        logger.error('Failed to search assets:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to search assets'
+        };
+      }
+    }, 
+    {
+      query: t.Object({
+        q: t.String({ minLength: 1 }),
+        asset_type: t.Optional(t.String()),
+        asset_class: t.Optional(t.String()),
+        asset_camera: t.Optional(t.String()),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100 })),
+        offset: t.Optional(t.Numeric({ minimum: 0 }))
+      })
+    }
+  )
+  
+  // List groups of duplicate assets, registered before /:uuid so it isn't taken for a UUID
+  .get('/duplicates', 
+    async ({ query, set, user }) => {
+      try {
+        const groups = await AssetController.findDuplicates(user, query.limit);
+        
+        return {
+          success: true,
+          data: groups
+        };
+      } catch (error) {
+        logger.error('Failed to find duplicate assets:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to find duplicate assets'
+        };
+      }
+    }, 
+    {
+      query: t.Object({
+        limit: t.Optional(t.Numeric({ minimum: 1 }))
       })
     }
   )
   
-  // For future implementation - Get an asset by ID
+  // Get an asset by ID
   .get('/:uuid', 
-    async ({ params, set }) => {
+    async ({ params, set, user }) => {
       try {
-        // For future implementation
-        // const asset = await AssetController.getAssetById(params.uuid);
+        const asset = await AssetController.getAssetById(params.uuid, user);
         
         return {
           success: true,
-          message: "Asset retrieval endpoint - Not yet implemented",
-          data: { uuid: params.uuid }
+          data: asset
         };
       } catch (error) {
         logger.error('Failed to get asset:', error);
@@ -221,17 +532,25 @@ export const assetRoutes = createBaseRoute('/assets')
     }
   )
   
-  // For future implementation - List all assets
+  // List assets with optional filtering and cursor pagination
+  // format=geojson returns the page as a GeoJSON FeatureCollection
   .get('/', 
-    async ({ query, set }) => {
+    async ({ query, set, user }) => {
       try {
-        // For future implementation
-        // const assets = await AssetController.listAssets(query);
+        const { format, ...filters } = query;
+        const assets = await AssetController.listAssets(filters, user);
+        
+        if (format === 'geojson') {
+          set.headers['content-type'] = 'application/geo+json';
+          return toFeatureCollection(assets.items, {
+            total: assets.total,
+            next_cursor: assets.next_cursor
+          });
+        }
         
         return {
           success: true,
-          message: "Asset listing endpoint - Not yet implemented",
-          data: []
+          data: assets
         };
       } catch (error) {
         logger.error('Failed to list assets:', error);
@@ -247,20 +566,52 @@ export const assetRoutes = createBaseRoute('/assets')
       }
     }, 
     {
-      query: t.Object({})
+      query: t.Object({
+        asset_type: t.Optional(t.String()),
+        asset_class: t.Optional(t.String()),
+        asset_location_name: t.Optional(t.String()),
+        asset_camera: t.Optional(t.String()),
+        asset_date_label: t.Optional(t.String()),
+        extension: t.Optional(t.String()),
+        size_min: t.Optional(t.Numeric({ minimum: 0 })),
+        size_max: t.Optional(t.Numeric({ minimum: 0 })),
+        uploaded_after: t.Optional(t.String()),
+        uploaded_before: t.Optional(t.String()),
+        unclassified: t.Optional(t.BooleanString()),
+        trashed: t.Optional(t.BooleanString()),
+        lat: t.Optional(t.Numeric({ minimum: -90, maximum: 90 })),
+        lon: t.Optional(t.Numeric({ minimum: -180, maximum: 180 })),
+        // Meters around lat / lon
+        radius: t.Optional(t.Numeric({ exclusiveMinimum: 0 })),
+        // minLon,minLat,maxLon,maxLat
+        bbox: t.Optional(t.String()),
+        // GeoJSON Polygon or MultiPolygon geometry
+        polygon: t.Optional(t.String()),
+        // JSON object of custom field values or comparisons, e.g. {"emissivity": {"gte": 0.9}}
+        custom: t.Optional(t.String()),
+        // ID of a collection the assets must be in
+        collection: t.Optional(t.String()),
+        // Comma separated, tag_mode all (default) needs every tag, any at least one
+        tags: t.Optional(t.String()),
+        tag_mode: t.Optional(t.Union([t.Literal('all'), t.Literal('any')])),
+        format: t.Optional(t.Union([t.Literal('json'), t.Literal('geojson')])),
+        cursor: t.Optional(t.String()),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: 200 }))
+      })
     }
   )
   
-  // For future implementation - Delete an asset
+  // Delete an asset (moves it to the trash unless permanent=true)
   .delete('/:uuid', 
-    async ({ params, set }) => {
+    async ({ params, query, set, user }) => {
       try {
-        // For future implementation
-        // await AssetController.deleteAsset(params.uuid);
+        const asset = await AssetController.deleteAsset(params.uuid, {
+          permanent: query.permanent
+        }, user);
         
         return {
           success: true,
-          message: "Asset deletion endpoint - Not yet implemented"
+          data: asset
         };
       } catch (error) {
         logger.error('Failed to delete asset:', error);
@@ -275,6 +626,277 @@ export const assetRoutes = createBaseRoute('/assets')
         };
       }
     }, 
+    {
+      params: t.Object({
+        uuid: t.String()
+      }),
+      query: t.Object({
+        permanent: t.Optional(t.BooleanString())
+      })
+    }
+  )
+  
+  // Restore an asset from the trash
+  .post('/:uuid/restore', 
+    async ({ params, set, user }) => {
+      try {
+        const asset = await AssetController.restoreAsset(params.uuid, user);
+        
+        return {
+          success: true,
+          data: asset
+        };
+      } catch (error) {
+        logger.error('Failed to restore asset:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to restore asset'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String()
+      })
+    }
+  )
+  
+  // List the background processing jobs of an asset
+  .get('/:uuid/jobs', 
+    async ({ params, set, user }) => {
+      try {
+        const jobs = await JobController.listAssetJobs(params.uuid, user);
+        
+        return {
+          success: true,
+          data: jobs
+        };
+      } catch (error) {
+        logger.error('Failed to list asset jobs:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list asset jobs'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String()
+      })
+    }
+  )
+  
+  // List the generated previews of an asset
+  .get('/:uuid/renditions', 
+    async ({ params, set, user }) => {
+      try {
+        const renditions = await RenditionController.listRenditions(params.uuid, user);
+        
+        return {
+          success: true,
+          data: renditions
+        };
+      } catch (error) {
+        logger.error('Failed to list renditions:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list renditions'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String()
+      })
+    }
+  )
+  
+  // Redirect to a presigned URL of a preview
+  .get('/:uuid/renditions/:name', 
+    async ({ params, set, user }) => {
+      try {
+        const url = await RenditionController.getRenditionUrl(params.uuid, params.name, user);
+        
+        set.status = 302;
+        set.headers['location'] = url;
+        return;
+      } catch (error) {
+        logger.error('Failed to get rendition:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get rendition'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String(),
+        name: t.String()
+      })
+    }
+  )
+  
+  // Stream the content of an asset, or redirect to a presigned URL of it
+  .get('/:uuid/content', 
+    async ({ params, query, headers, set, user }) => {
+      try {
+        if (query.redirect === 'presigned') {
+          const url = await ContentController.getContentUrl(params.uuid, user, query.disposition);
+          
+          set.status = 302;
+          set.headers['location'] = url;
+          return;
+        }
+        
+        const content = await ContentController.openContent(params.uuid, user, {
+          range: headers['range'],
+          if_none_match: headers['if-none-match'],
+          if_range: headers['if-range'],
+          disposition: query.disposition
+        });
+        
+        const body = content.body
+          ? Readable.toWeb(content.body as Readable) as unknown as ReadableStream
+          : null;
+        
+        return new Response(body, {
+          status: content.status,
+          headers: content.headers
+        });
+      } catch (error) {
+        logger.error('Failed to get asset content:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get asset content'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String()
+      }),
+      query: t.Object({
+        redirect: t.Optional(t.Literal('presigned')),
+        disposition: t.Optional(t.Union([
+          t.Literal('inline'),
+          t.Literal('attachment')
+        ]))
+      })
+    }
+  )
+  
+  // Add tags to an asset
+  .post('/:uuid/tags', 
+    async ({ params, body, set, user }) => {
+      try {
+        const result = await TagController.addTags([params.uuid], body.tags, user);
+        
+        return {
+          success: true,
+          data: result
+        };
+      } catch (error) {
+        logger.error('Failed to tag asset:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to tag asset'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String()
+      }),
+      body: t.Object({
+        tags: t.Array(t.String(), { minItems: 1, maxItems: MAX_TAGS })
+      })
+    }
+  )
+  
+  // Remove a tag from an asset
+  .delete('/:uuid/tags/:tag', 
+    async ({ params, set, user }) => {
+      try {
+        const result = await TagController.removeTags([params.uuid], [params.tag], user);
+        
+        return {
+          success: true,
+          data: result
+        };
+      } catch (error) {
+        logger.error('Failed to untag asset:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to untag asset'
+        };
+      }
+    }, 
+    {
+      params: t.Object({
+        uuid: t.String(),
+        tag: t.String()
+      })
+    }
+  )
+  
+  // List the access grants of an asset
+  .get('/:uuid/access', 
+    async ({ params, set, user }) => {
+      try {
+        const access = await AccessController.listAccess(params.uuid, user);
+        
+        return {
+          success: true,
+          data: access
+        };
+      } catch (error) {
+        logger.error('Failed to list asset access:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error 
+          ? (error as any).statusCode 
+          : 500;
+        
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list asset access'
+        };
+      }
+    }, 
     {
       params: t.Object({
         uuid: t.String()
@@ -282,16 +904,20 @@ export const assetRoutes = createBaseRoute('/assets')
     }
   )
   
-  // For future implementation - Add user access to an asset
+  // Grant a user access to an asset (defaults to the viewer role)
   .post('/:uuid/access', 
-    async ({ params, body, set }) => {
+    async ({ params, body, set, user }) => {
       try {
-        // For future implementation
-        // await AssetController.addUserAccess(params.uuid, body.user_uuid);
+        const access = await AccessController.grantAccess(
+          params.uuid,
+          body.user_uuid,
+          body.role || 'viewer',
+          user
+        );
         
         return {
           success: true,
-          message: "Asset access grant endpoint - Not yet implemented"
+          data: access
         };
       } catch (error) {
         logger.error('Failed to add user access:', error);
@@ -311,21 +937,25 @@ export const assetRoutes = createBaseRoute('/assets')
         uuid: t.String()
       }),
       body: t.Object({
-        user_uuid: t.String()
+        user_uuid: t.String(),
+        role: t.Optional(t.Union([
+          t.Literal('viewer'),
+          t.Literal('editor'),
+          t.Literal('owner')
+        ]))
       })
     }
   )
   
-  // For future implementation - Remove user access from an asset
+  // Remove user access from an asset
   .delete('/:uuid/access/:user_uuid', 
-    async ({ params, set }) => {
+    async ({ params, set, user }) => {
       try {
-        // For future implementation
-        // await AssetController.removeUserAccess(params.uuid, params.user_uuid);
+        await AccessController.revokeAccess(params.uuid, params.user_uuid, user);
         
         return {
           success: true,
-          message: "Asset access revocation endpoint - Not yet implemented"
+          message: "Access revoked"
         };
       } catch (error) {
         logger.error('Failed to remove user access:', error);
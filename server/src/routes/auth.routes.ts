@@ -0,0 +1,143 @@
+import { t } from 'elysia';
+import { createBaseRoute, createPublicRoute } from './base';
+import { AuthController } from '../controllers/auth.controller';
+import { toPublicUser } from '../controllers/user.controller';
+import { config } from '../config';
+import logger from '../logger';
+
+/**
+ * Authentication routes
+ *
+ * Browsers get an httpOnly session cookie on login, scripts can send the
+ * returned token (or one created through /auth/tokens) as a bearer token:
+ * `Authorization: Bearer <token>`
+ *
+ * This will expose the following endpoints:
+ * - POST /auth/login - Log in with email and password
+ * - POST /auth/logout - Revoke the current session or token
+ * - GET /auth/me - Get the authenticated user
+ * - POST /auth/tokens - Create a long-lived API token for scripts
+ */
+export const authRoutes = createPublicRoute('/auth')
+  // Log in and start a session
+  .post('/login',
+    async ({ body, set, jwt, cookie }) => {
+      try {
+        const user = await AuthController.verifyCredentials(body.email, body.password);
+        const session = await AuthController.createSession(user, config.auth.sessionTtl);
+
+        const token = await jwt.sign({
+          sub: user.uuid,
+          sid: session.session_id,
+          exp: Math.floor(session.expires_at.getTime() / 1000)
+        });
+
+        cookie[config.auth.cookieName].set({
+          value: token,
+          httpOnly: true,
+          sameSite: 'lax',
+          secure: process.env.NODE_ENV === 'production',
+          path: '/',
+          maxAge: config.auth.sessionTtl
+        });
+
+        logger.info(`User logged in: ${user.uuid}`);
+
+        return {
+          success: true,
+          data: {
+            user: toPublicUser(user),
+            token,
+            expires_at: session.expires_at
+          }
+        };
+      } catch (error) {
+        logger.error('Failed to log in:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to log in'
+        };
+      }
+    },
+    {
+      body: t.Object({
+        email: t.String(),
+        password: t.String()
+      })
+    }
+  )
+
+  .use(createBaseRoute('')
+    // Log out, revoking the session behind the cookie or bearer token
+    .post('/logout',
+      async ({ sessionId, cookie, set }) => {
+        try {
+          await AuthController.destroySession(sessionId);
+          cookie[config.auth.cookieName].remove();
+
+          return {
+            success: true,
+            message: 'Logged out'
+          };
+        } catch (error) {
+          logger.error('Failed to log out:', error);
+          set.status = 500;
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to log out'
+          };
+        }
+      }
+    )
+
+    // Get the authenticated user
+    .get('/me',
+      async ({ user }) => {
+        return {
+          success: true,
+          data: toPublicUser(user)
+        };
+      }
+    )
+
+    // Create an API token for scripts
+    .post('/tokens',
+      async ({ body, user, jwt, set }) => {
+        try {
+          const ttl = Math.min(body.ttl_seconds || config.auth.apiTokenTtl, config.auth.maxApiTokenTtl);
+          const session = await AuthController.createSession(user, ttl);
+
+          const token = await jwt.sign({
+            sub: user.uuid,
+            sid: session.session_id,
+            exp: Math.floor(session.expires_at.getTime() / 1000)
+          });
+
+          return {
+            success: true,
+            data: {
+              token,
+              expires_at: session.expires_at
+            }
+          };
+        } catch (error) {
+          logger.error('Failed to create API token:', error);
+          set.status = 500;
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to create API token'
+          };
+        }
+      },
+      {
+        body: t.Object({
+          ttl_seconds: t.Optional(t.Numeric({ minimum: 60, maximum: config.auth.maxApiTokenTtl }))
+        })
+      }
+    )
+  );
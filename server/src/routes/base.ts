@@ -1,4 +1,7 @@
-import { Elysia } from 'elysia';
+import { Elysia, Cookie } from 'elysia';
+import { jwt } from '@elysiajs/jwt';
+import { config } from '../config';
+import { AuthController, SessionClaims } from '../controllers/auth.controller';
 import logger from '../logger';
 import { ServerError, RestResult, makeErrorResult, makeRestResult } from '../types/server.d';
 
@@ -104,7 +107,38 @@ function formatValidationError(error: unknown) {
   };
 }
 
-export function createBaseRoute(prefix: string) {
+/**
+ * Authenticate a request from a bearer token (scripts) or the session cookie (browsers)
+ */
+async function authenticate(
+  verify: (token?: string) => Promise<SessionClaims | false>,
+  headers: Record<string, string | undefined>,
+  cookie: Record<string, Cookie<unknown>>
+) {
+  const authorization = headers['authorization'];
+  const token = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : cookie[config.auth.cookieName]?.value as string | undefined;
+
+  if (!token) {
+    throw new ServerError('Authentication required', 401);
+  }
+
+  const claims = await verify(token);
+  const session = claims ? await AuthController.resolveSession(claims) : null;
+
+  if (!session) {
+    throw new ServerError('Invalid or expired session', 401);
+  }
+
+  return session;
+}
+
+/**
+ * Create a route group that doesn't require authentication
+ * The JWT plugin is available to sign tokens (e.g. on login)
+ */
+export function createPublicRoute(prefix: string) {
   return new Elysia({ prefix })
     .onError(({ code, error, set }) => {
       logger.error(`Error in ${prefix} route:`, { code });
@@ -160,5 +194,21 @@ export function createBaseRoute(prefix: string) {
       wrapSuccess: <T>(content: T, message: string = ''): RestResult<T> => {
         return makeRestResult(content, message, true, set.status as number || 200);
       }
+    }))
+    .use(jwt({
+      name: 'jwt',
+      secret: config.auth.jwtSecret
     }));
+}
+
+/**
+ * Create a route group that requires an authenticated user
+ * The user and their session id are added to the route context
+ */
+export function createBaseRoute(prefix: string) {
+  return createPublicRoute(prefix)
+    .derive(async ({ jwt, headers, cookie }) => {
+      const { user, sessionId } = await authenticate(jwt.verify, headers, cookie);
+      return { user, sessionId };
+    });
 }
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { t } from 'elysia';
+import { createBaseRoute } from './base';
+import { CollectionController, MAX_COLLECTION_BATCH } from '../controllers/collection.controller';
+import logger from '../logger';
+
+/**
+ * Collection routes, collections are readable by every user and changed
+ * by their owner, their assets are limited by per-asset access grants
+ *
+ * This will expose the following endpoints:
+ * - GET /collections - List collections
+ * - POST /collections - Create a collection
+ * - GET /collections/:id - Get a collection with its assets in order
+ * - PATCH /collections/:id - Rename a collection or set its description or cover asset
+ * - DELETE /collections/:id - Delete a collection, its assets are kept
+ * - POST /collections/:id/assets - Add assets to the end of a collection
+ * - DELETE /collections/:id/assets - Remove assets from a collection
+ * - PUT /collections/:id/order - Reorder the assets of a collection
+ */
+export const collectionRoutes = createBaseRoute('/collections')
+  // List collections
+  .get('/',
+    async ({ set, user }) => {
+      try {
+        const collections = await CollectionController.listCollections(user);
+
+        return {
+          success: true,
+          data: collections
+        };
+      } catch (error) {
+        logger.error('Failed to list collections:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list collections'
+        };
+      }
+    }
+  )
+
+  // Create a collection
+  .post('/',
+    async ({ body, set, user }) => {
+      try {
+        const collection = await CollectionController.createCollection(body, user);
+
+        return {
+          success: true,
+          data: collection
+        };
+      } catch (error) {
+        logger.error('Failed to create collection:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create collection'
+        };
+      }
+    },
+    {
+      body: t.Object({
+        name: t.String({ minLength: 1 }),
+        description: t.Optional(t.String())
+      })
+    }
+  )
+
+  // Get a collection with its assets
+  .get('/:id',
+    async ({ params, set, user }) => {
+      try {
+        const collection = await CollectionController.getCollection(params.id, user);
+
+        return {
+          success: true,
+          data: collection
+        };
+      } catch (error) {
+        logger.error('Failed to get collection:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get collection'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
+
+  // Update a collection
+  .patch('/:id',
+    async ({ params, body, set, user }) => {
+      try {
+        const collection = await CollectionController.updateCollection(params.id, body, user);
+
+        return {
+          success: true,
+          data: collection
+        };
+      } catch (error) {
+        logger.error('Failed to update collection:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update collection'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      }),
+      body: t.Object({
+        name: t.Optional(t.String({ minLength: 1 })),
+        description: t.Optional(t.Nullable(t.String())),
+        // Must be an asset of the collection, null removes the cover
+        cover_asset_uuid: t.Optional(t.Nullable(t.String()))
+      })
+    }
+  )
+
+  // Delete a collection
+  .delete('/:id',
+    async ({ params, set, user }) => {
+      try {
+        const collection = await CollectionController.deleteCollection(params.id, user);
+
+        return {
+          success: true,
+          data: collection
+        };
+      } catch (error) {
+        logger.error('Failed to delete collection:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to delete collection'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
+
+  // Add assets to a collection
+  .post('/:id/assets',
+    async ({ params, body, set, user }) => {
+      try {
+        const result = await CollectionController.addAssets(params.id, body.asset_uuids, user);
+
+        return {
+          success: true,
+          data: result
+        };
+      } catch (error) {
+        logger.error('Failed to add assets to collection:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to add assets to collection'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      }),
+      body: t.Object({
+        asset_uuids: t.Array(t.String(), { minItems: 1, maxItems: MAX_COLLECTION_BATCH })
+      })
+    }
+  )
+
+  // Remove assets from a collection
+  .delete('/:id/assets',
+    async ({ params, body, set, user }) => {
+      try {
+        const result = await CollectionController.removeAssets(params.id, body.asset_uuids, user);
+
+        return {
+          success: true,
+          data: result
+        };
+      } catch (error) {
+        logger.error('Failed to remove assets from collection:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to remove assets from collection'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      }),
+      body: t.Object({
+        asset_uuids: t.Array(t.String(), { minItems: 1, maxItems: MAX_COLLECTION_BATCH })
+      })
+    }
+  )
+
+  // Reorder the assets of a collection
+  .put('/:id/order',
+    async ({ params, body, set, user }) => {
+      try {
+        const collection = await CollectionController.reorderAssets(params.id, body.asset_uuids, user);
+
+        return {
+          success: true,
+          data: collection
+        };
+      } catch (error) {
+        logger.error('Failed to reorder collection:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to reorder collection'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      }),
+      body: t.Object({
+        // Listed assets move to the front, the others keep their order after them
+        asset_uuids: t.Array(t.String(), { minItems: 1, maxItems: MAX_COLLECTION_BATCH })
+      })
+    }
+  );
@@ -0,0 +1,141 @@
+import { t } from 'elysia';
+import { Readable } from 'stream';
+import { createBaseRoute } from './base';
+import { ExportController } from '../controllers/export.controller';
+import { contentDisposition } from '../core/http_utils';
+import logger from '../logger';
+
+// The asset listing filters, without paging and the trash
+const EXPORT_FILTERS = {
+  asset_type: t.Optional(t.String()),
+  asset_class: t.Optional(t.String()),
+  asset_location_name: t.Optional(t.String()),
+  asset_camera: t.Optional(t.String()),
+  asset_date_label: t.Optional(t.String()),
+  extension: t.Optional(t.String()),
+  size_min: t.Optional(t.Numeric({ minimum: 0 })),
+  size_max: t.Optional(t.Numeric({ minimum: 0 })),
+  uploaded_after: t.Optional(t.String()),
+  uploaded_before: t.Optional(t.String()),
+  unclassified: t.Optional(t.BooleanString()),
+  lat: t.Optional(t.Numeric({ minimum: -90, maximum: 90 })),
+  lon: t.Optional(t.Numeric({ minimum: -180, maximum: 180 })),
+  radius: t.Optional(t.Numeric({ exclusiveMinimum: 0 })),
+  bbox: t.Optional(t.String()),
+  polygon: t.Optional(t.String()),
+  custom: t.Optional(t.String()),
+  collection: t.Optional(t.String()),
+  tags: t.Optional(t.String()),
+  tag_mode: t.Optional(t.Union([t.Literal('all'), t.Literal('any')]))
+};
+
+/**
+ * Export routes, zips of the assets matching the listing filters with a
+ * manifest.csv and manifest.json of their metadata
+ *
+ * This will expose the following endpoints:
+ * - GET /exports/assets - Download the zip, large exports (or background=true) answer 202 with a job instead
+ * - POST /exports/assets - Start a background export, its job result links to the zip when done
+ * - GET /exports/:job_id/download - Redirect to the zip of a finished background export
+ */
+export const exportRoutes = createBaseRoute('/exports')
+  // Stream the zip of the matching assets, or queue it when it is large
+  .get('/assets',
+    async ({ query, set, user }) => {
+      try {
+        const { background, ...filters } = query;
+        const result = await ExportController.openExport(filters, user, background);
+
+        if ('job' in result) {
+          set.status = 202;
+          return {
+            success: true,
+            data: result.job
+          };
+        }
+
+        return new Response(Readable.toWeb(result.stream) as unknown as ReadableStream, {
+          headers: {
+            'content-type': 'application/zip',
+            'content-disposition': contentDisposition(result.filename, 'attachment')
+          }
+        });
+      } catch (error) {
+        logger.error('Failed to export assets:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to export assets'
+        };
+      }
+    },
+    {
+      query: t.Object({
+        ...EXPORT_FILTERS,
+        // Always run as a background job
+        background: t.Optional(t.BooleanString())
+      })
+    }
+  )
+
+  // Start a background export
+  .post('/assets',
+    async ({ body, set, user }) => {
+      try {
+        const job = await ExportController.startExport(body, user);
+
+        set.status = 202;
+        return {
+          success: true,
+          data: job
+        };
+      } catch (error) {
+        logger.error('Failed to start export:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to start export'
+        };
+      }
+    },
+    {
+      body: t.Object(EXPORT_FILTERS)
+    }
+  )
+
+  // Redirect to a fresh link of a finished background export
+  .get('/:job_id/download',
+    async ({ params, set, user }) => {
+      try {
+        const url = await ExportController.getExportUrl(params.job_id, user);
+
+        set.status = 302;
+        set.headers['location'] = url;
+        return;
+      } catch (error) {
+        logger.error('Failed to get export:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get export'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        job_id: t.String()
+      })
+    }
+  );
@@ -0,0 +1,98 @@
+import { t } from 'elysia';
+import { createBaseRoute } from './base';
+import { JobController } from '../controllers/job.controller';
+import logger from '../logger';
+
+/**
+ * Background job routes
+ *
+ * This will expose the following endpoints:
+ * - GET /jobs/dead - List jobs in the dead-letter list (admin only)
+ * - GET /jobs/:id - Get the status of a job
+ * - POST /jobs/:id/retry - Requeue a job from the dead-letter list (admin only)
+ */
+export const jobRoutes = createBaseRoute('/jobs')
+  // List jobs that ran out of attempts, admin only
+  .get('/dead',
+    async ({ set, user }) => {
+      try {
+        const jobs = await JobController.listDeadJobs(user);
+
+        return {
+          success: true,
+          data: jobs
+        };
+      } catch (error) {
+        logger.error('Failed to list failed jobs:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list failed jobs'
+        };
+      }
+    }
+  )
+
+  // Get the status of a job
+  .get('/:id',
+    async ({ params, set, user }) => {
+      try {
+        const job = await JobController.getJob(params.id, user);
+
+        return {
+          success: true,
+          data: job
+        };
+      } catch (error) {
+        logger.error('Failed to get job:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get job'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
+
+  // Requeue a dead job, admin only
+  .post('/:id/retry',
+    async ({ params, set, user }) => {
+      try {
+        const job = await JobController.retryJob(params.id, user);
+
+        return {
+          success: true,
+          data: job
+        };
+      } catch (error) {
+        logger.error('Failed to retry job:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to retry job'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  );
@@ -0,0 +1,134 @@
+import { t } from 'elysia';
+import { createBaseRoute } from './base';
+import { MetadataSchemaController } from '../controllers/metadata_schema.controller';
+import logger from '../logger';
+
+/**
+ * Custom metadata schema routes, changes are admin only
+ *
+ * This will expose the following endpoints:
+ * - GET /metadata-schemas - List the schemas of every asset type
+ * - GET /metadata-schemas/:asset_type - Get the schema of an asset type
+ * - PUT /metadata-schemas/:asset_type - Create or replace the schema of an asset type
+ * - DELETE /metadata-schemas/:asset_type - Delete the schema of an asset type
+ */
+export const metadataSchemaRoutes = createBaseRoute('/metadata-schemas')
+  // List schemas
+  .get('/',
+    async ({ set }) => {
+      try {
+        const schemas = await MetadataSchemaController.listSchemas();
+
+        return {
+          success: true,
+          data: schemas
+        };
+      } catch (error) {
+        logger.error('Failed to list metadata schemas:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list metadata schemas'
+        };
+      }
+    }
+  )
+
+  // Get the schema of an asset type
+  .get('/:asset_type',
+    async ({ params, set }) => {
+      try {
+        const schema = await MetadataSchemaController.getSchema(params.asset_type);
+
+        return {
+          success: true,
+          data: schema
+        };
+      } catch (error) {
+        logger.error('Failed to get metadata schema:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get metadata schema'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        asset_type: t.String()
+      })
+    }
+  )
+
+  // Create or replace the schema of an asset type
+  .put('/:asset_type',
+    async ({ params, body, set, user }) => {
+      try {
+        const schema = await MetadataSchemaController.putSchema(params.asset_type, body, user);
+
+        return {
+          success: true,
+          data: schema
+        };
+      } catch (error) {
+        logger.error('Failed to save metadata schema:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to save metadata schema'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        asset_type: t.String()
+      }),
+      body: t.Object({
+        description: t.Optional(t.String()),
+        // Checked field by field by the controller for clearer errors
+        fields: t.Array(t.Any())
+      })
+    }
+  )
+
+  // Delete the schema of an asset type
+  .delete('/:asset_type',
+    async ({ params, set, user }) => {
+      try {
+        const schema = await MetadataSchemaController.deleteSchema(params.asset_type, user);
+
+        return {
+          success: true,
+          data: schema
+        };
+      } catch (error) {
+        logger.error('Failed to delete metadata schema:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to delete metadata schema'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        asset_type: t.String()
+      })
+    }
+  );
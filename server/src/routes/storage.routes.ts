@@ -0,0 +1,54 @@
+import { t } from 'elysia';
+import { Readable } from 'stream';
+import { createPublicRoute } from './base';
+import { StorageController } from '../controllers/storage.controller';
+import logger from '../logger';
+
+/**
+ * Storage routes, serving presigned URLs of the local and memory storage
+ * providers. They need no login, the signature in the URL grants access.
+ *
+ * This will expose the following endpoints:
+ * - GET /storage/* - Read an object through a signed URL, with Range support
+ */
+export const storageRoutes = createPublicRoute('/storage')
+  // Read an object through a signed URL
+  .get('/*',
+    async ({ request, query, headers, set }) => {
+      try {
+        // Object names are slash separated, every segment is encoded on its own
+        const objectPath = new URL(request.url).pathname.slice('/storage/'.length);
+        const objectName = objectPath.split('/').map(decodeURIComponent).join('/');
+
+        const content = await StorageController.openSignedObject(objectName, query, headers['range']);
+
+        const body = content.body
+          ? Readable.toWeb(content.body as Readable) as unknown as ReadableStream
+          : null;
+
+        return new Response(body, {
+          status: content.status,
+          headers: content.headers
+        });
+      } catch (error) {
+        logger.error('Failed to read object:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to read object'
+        };
+      }
+    },
+    {
+      query: t.Object({
+        expires: t.Optional(t.String()),
+        signature: t.Optional(t.String()),
+        'response-content-type': t.Optional(t.String()),
+        'response-content-disposition': t.Optional(t.String())
+      })
+    }
+  );
@@ -0,0 +1,139 @@
+import { t } from 'elysia';
+import { createBaseRoute } from './base';
+import { MAX_TAGGED_ASSETS, MAX_TAGS, TagController } from '../controllers/tag.controller';
+import logger from '../logger';
+
+/**
+ * Tag routes, tags are normalized to lower-case with whitespace as -
+ * Tags of a single asset are changed under /assets/:uuid/tags
+ *
+ * This will expose the following endpoints:
+ * - GET /tags - List tags with the number of viewable assets carrying them, for facets
+ * - GET /tags/autocomplete - Suggest tags starting with a prefix, most used first
+ * - POST /tags/assets - Add tags to many assets
+ * - DELETE /tags/assets - Remove tags from many assets
+ */
+export const tagRoutes = createBaseRoute('/tags')
+  // List tags with the number of assets carrying them
+  .get('/',
+    async ({ query, set, user }) => {
+      try {
+        const tags = await TagController.listTags(user, query);
+
+        return {
+          success: true,
+          data: tags
+        };
+      } catch (error) {
+        logger.error('Failed to list tags:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list tags'
+        };
+      }
+    },
+    {
+      query: t.Object({
+        prefix: t.Optional(t.String()),
+        limit: t.Optional(t.Numeric({ minimum: 1 }))
+      })
+    }
+  )
+
+  // Suggest tags starting with what was typed so far
+  .get('/autocomplete',
+    async ({ query, set, user }) => {
+      try {
+        const tags = await TagController.autocomplete(query.q, user, query.limit);
+
+        return {
+          success: true,
+          data: tags
+        };
+      } catch (error) {
+        logger.error('Failed to suggest tags:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to suggest tags'
+        };
+      }
+    },
+    {
+      query: t.Object({
+        q: t.String({ minLength: 1 }),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: 50 }))
+      })
+    }
+  )
+
+  // Tag many assets at once
+  .post('/assets',
+    async ({ body, set, user }) => {
+      try {
+        const result = await TagController.addTags(body.asset_uuids, body.tags, user);
+
+        return {
+          success: true,
+          data: result
+        };
+      } catch (error) {
+        logger.error('Failed to tag assets:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to tag assets'
+        };
+      }
+    },
+    {
+      body: t.Object({
+        asset_uuids: t.Array(t.String(), { minItems: 1, maxItems: MAX_TAGGED_ASSETS }),
+        tags: t.Array(t.String(), { minItems: 1, maxItems: MAX_TAGS })
+      })
+    }
+  )
+
+  // Untag many assets at once
+  .delete('/assets',
+    async ({ body, set, user }) => {
+      try {
+        const result = await TagController.removeTags(body.asset_uuids, body.tags, user);
+
+        return {
+          success: true,
+          data: result
+        };
+      } catch (error) {
+        logger.error('Failed to untag assets:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to untag assets'
+        };
+      }
+    },
+    {
+      body: t.Object({
+        asset_uuids: t.Array(t.String(), { minItems: 1, maxItems: MAX_TAGGED_ASSETS }),
+        tags: t.Array(t.String(), { minItems: 1, maxItems: MAX_TAGS })
+      })
+    }
+  );
@@ -0,0 +1,248 @@
+import { t } from 'elysia';
+import { createBaseRoute } from './base';
+import { UploadController } from '../controllers/upload.controller';
+import { parseCoordinates } from '../core/geo';
+import logger from '../logger';
+
+/**
+ * Resumable upload routes for large files over unreliable connections
+ *
+ * A client creates a session, PUTs the numbered chunks (in any order,
+ * retrying failed ones), checks which chunks are still missing after a
+ * dropped connection, and completes the session to create the asset.
+ *
+ * This will expose the following endpoints:
+ * - POST /uploads - Create an upload session
+ * - PUT /uploads/:id/chunks/:index - Upload a chunk (raw body, 1-based index)
+ * - GET /uploads/:id - Get received and missing chunks
+ * - POST /uploads/:id/complete - Assemble the chunks into an asset
+ * - DELETE /uploads/:id - Abort an upload session
+ */
+export const uploadRoutes = createBaseRoute('/uploads')
+  // Create an upload session
+  .post('/',
+    async ({ body, set, user }) => {
+      try {
+        const {
+          filename,
+          content_type,
+          size,
+          chunk_size,
+          asset_type,
+          asset_class,
+          asset_location_name,
+          asset_camera,
+          asset_date_label,
+          latitude,
+          longitude,
+          altitude,
+          custom,
+          dedupe
+        } = body;
+
+        // Like on ingest, missing asset_camera and asset_date_label are filled in from EXIF data
+        const provided = {
+          ...Object.fromEntries(
+            Object.entries({ asset_type, asset_class, asset_location_name, asset_camera, asset_date_label })
+              .filter(([, value]) => value)
+          ),
+          ...parseCoordinates({ latitude, longitude, altitude }),
+          ...(custom ? { custom } : {})
+        };
+        const metadata = Object.keys(provided).length > 0 ? provided : undefined;
+
+        const session = await UploadController.createSession({
+          filename,
+          content_type,
+          size,
+          chunk_size,
+          metadata,
+          dedupe
+        }, user);
+
+        return {
+          success: true,
+          data: session
+        };
+      } catch (error) {
+        logger.error('Failed to create upload session:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create upload session'
+        };
+      }
+    },
+    {
+      body: t.Object({
+        filename: t.String({ minLength: 1 }),
+        content_type: t.Optional(t.String()),
+        size: t.Integer({ minimum: 1 }),
+        chunk_size: t.Optional(t.Integer({ minimum: 1 })),
+        asset_type: t.Optional(t.String()),
+        asset_class: t.Optional(t.String()),
+        asset_location_name: t.Optional(t.String()),
+        asset_camera: t.Optional(t.String()),
+        asset_date_label: t.Optional(t.String()),
+        latitude: t.Optional(t.Number({ minimum: -90, maximum: 90 })),
+        longitude: t.Optional(t.Number({ minimum: -180, maximum: 180 })),
+        altitude: t.Optional(t.Number()),
+        // Fields defined by the metadata schema of asset_type
+        custom: t.Optional(t.Record(t.String(), t.Any())),
+        dedupe: t.Optional(t.Union([
+          t.Literal('always'),
+          t.Literal('reject'),
+          t.Literal('link')
+        ]))
+      })
+    }
+  )
+
+  // Upload one chunk, the body is the raw chunk bytes
+  .put('/:id/chunks/:index',
+    async ({ params, request, set, user }) => {
+      try {
+        const status = await UploadController.getSessionStatus(params.id, user);
+
+        // Chunks are bounded by the session's chunk size, so reading one into memory is fine
+        const contentLength = parseInt(request.headers.get('content-length') || '0');
+        if (!contentLength) {
+          set.status = 411;
+          return {
+            success: false,
+            error: 'Chunks must be sent with a Content-Length header'
+          };
+        }
+
+        if (contentLength > status.chunk_size) {
+          set.status = 413;
+          return {
+            success: false,
+            error: `Chunks can be at most ${status.chunk_size} bytes`
+          };
+        }
+
+        const data = Buffer.from(await request.arrayBuffer());
+        const updatedStatus = await UploadController.uploadChunk(params.id, params.index, data, user);
+
+        return {
+          success: true,
+          data: updatedStatus
+        };
+      } catch (error) {
+        logger.error('Failed to upload chunk:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to upload chunk'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+        index: t.Numeric()
+      }),
+      parse: 'none'
+    }
+  )
+
+  // Get the status of an upload session
+  .get('/:id',
+    async ({ params, set, user }) => {
+      try {
+        const status = await UploadController.getSessionStatus(params.id, user);
+
+        return {
+          success: true,
+          data: status
+        };
+      } catch (error) {
+        logger.error('Failed to get upload session:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get upload session'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
+
+  // Complete an upload session and create the asset
+  .post('/:id/complete',
+    async ({ params, set, user }) => {
+      try {
+        const asset = await UploadController.completeSession(params.id, user);
+
+        return {
+          success: true,
+          data: asset
+        };
+      } catch (error) {
+        logger.error('Failed to complete upload session:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to complete upload session',
+          // A rejected duplicate carries the existing asset
+          data: error instanceof Error && 'details' in error ? (error as any).details : undefined
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  )
+
+  // Abort an upload session
+  .delete('/:id',
+    async ({ params, set, user }) => {
+      try {
+        await UploadController.abortSession(params.id, user);
+
+        return {
+          success: true,
+          message: 'Upload session aborted'
+        };
+      } catch (error) {
+        logger.error('Failed to abort upload session:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to abort upload session'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String()
+      })
+    }
+  );
@@ -0,0 +1,70 @@
+import { t } from 'elysia';
+import { createBaseRoute } from './base';
+import { UserController } from '../controllers/user.controller';
+import logger from '../logger';
+
+/**
+ * User management routes, admin only
+ *
+ * This will expose the following endpoints:
+ * - GET /users - List users
+ * - POST /users - Create a user
+ */
+export const userRoutes = createBaseRoute('/users')
+  // List users
+  .get('/',
+    async ({ set, user }) => {
+      try {
+        const users = await UserController.listUsers(user);
+
+        return {
+          success: true,
+          data: users
+        };
+      } catch (error) {
+        logger.error('Failed to list users:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list users'
+        };
+      }
+    }
+  )
+
+  // Create a user
+  .post('/',
+    async ({ body, set, user }) => {
+      try {
+        const createdUser = await UserController.createUser(body, user);
+
+        return {
+          success: true,
+          data: createdUser
+        };
+      } catch (error) {
+        logger.error('Failed to create user:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create user'
+        };
+      }
+    },
+    {
+      body: t.Object({
+        email: t.String({ format: 'email' }),
+        password: t.String({ minLength: 8 }),
+        name: t.Optional(t.String()),
+        is_admin: t.Optional(t.Boolean())
+      })
+    }
+  );
@@ -0,0 +1,220 @@
+import { t } from 'elysia';
+import { createBaseRoute } from './base';
+import { VocabularyController } from '../controllers/vocabulary.controller';
+import logger from '../logger';
+
+const KIND = t.Union([
+  t.Literal('locations'),
+  t.Literal('cameras'),
+  t.Literal('classes')
+]);
+
+/**
+ * Vocabulary routes, the managed values of asset_location_name, asset_camera
+ * and asset_class, readable by every user and managed by admins
+ *
+ * This will expose the following endpoints:
+ * - GET /vocabularies/:kind - List the entries of a vocabulary
+ * - GET /vocabularies/:kind/values - List the values stored on assets and the entry each resolves to
+ * - POST /vocabularies/:kind - Add an entry
+ * - PATCH /vocabularies/:kind/:id - Rename an entry or change its aliases or description
+ * - DELETE /vocabularies/:kind/:id - Delete an entry, stored values are kept
+ * - POST /vocabularies/:kind/merge - Merge duplicate values into one entry, answers 202 with the job updating the assets using them
+ */
+export const vocabularyRoutes = createBaseRoute('/vocabularies')
+  // List the entries of a vocabulary
+  .get('/:kind',
+    async ({ params, set }) => {
+      try {
+        const entries = await VocabularyController.listEntries(params.kind);
+
+        return {
+          success: true,
+          data: entries
+        };
+      } catch (error) {
+        logger.error('Failed to list vocabulary entries:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list vocabulary entries'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        kind: KIND
+      })
+    }
+  )
+
+  // List the values stored on assets
+  .get('/:kind/values',
+    async ({ params, set, user }) => {
+      try {
+        const values = await VocabularyController.listValues(params.kind, user);
+
+        return {
+          success: true,
+          data: values
+        };
+      } catch (error) {
+        logger.error('Failed to list vocabulary values:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list vocabulary values'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        kind: KIND
+      })
+    }
+  )
+
+  // Add an entry
+  .post('/:kind',
+    async ({ params, body, set, user }) => {
+      try {
+        const entry = await VocabularyController.createEntry(params.kind, body, user);
+
+        return {
+          success: true,
+          data: entry
+        };
+      } catch (error) {
+        logger.error('Failed to create vocabulary entry:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create vocabulary entry'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        kind: KIND
+      }),
+      body: t.Object({
+        name: t.String({ minLength: 1 }),
+        aliases: t.Optional(t.Array(t.String())),
+        description: t.Optional(t.String())
+      })
+    }
+  )
+
+  // Update an entry
+  .patch('/:kind/:id',
+    async ({ params, body, set, user }) => {
+      try {
+        const entry = await VocabularyController.updateEntry(params.kind, params.id, body, user);
+
+        return {
+          success: true,
+          data: entry
+        };
+      } catch (error) {
+        logger.error('Failed to update vocabulary entry:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update vocabulary entry'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        kind: KIND,
+        id: t.String()
+      }),
+      body: t.Object({
+        name: t.Optional(t.String({ minLength: 1 })),
+        aliases: t.Optional(t.Array(t.String())),
+        description: t.Optional(t.Nullable(t.String()))
+      })
+    }
+  )
+
+  // Delete an entry
+  .delete('/:kind/:id',
+    async ({ params, set, user }) => {
+      try {
+        const entry = await VocabularyController.deleteEntry(params.kind, params.id, user);
+
+        return {
+          success: true,
+          data: entry
+        };
+      } catch (error) {
+        logger.error('Failed to delete vocabulary entry:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to delete vocabulary entry'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        kind: KIND,
+        id: t.String()
+      })
+    }
+  )
+
+  // Merge duplicate values into one entry
+  .post('/:kind/merge',
+    async ({ params, body, set, user }) => {
+      try {
+        const job = await VocabularyController.mergeValues(params.kind, body.values, body.into, user);
+
+        set.status = 202;
+        return {
+          success: true,
+          data: job
+        };
+      } catch (error) {
+        logger.error('Failed to merge vocabulary values:', error);
+        const statusCode = error instanceof Error && 'statusCode' in error
+          ? (error as any).statusCode
+          : 500;
+
+        set.status = statusCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to merge vocabulary values'
+        };
+      }
+    },
+    {
+      params: t.Object({
+        kind: KIND
+      }),
+      body: t.Object({
+        values: t.Array(t.String({ minLength: 1 }), { minItems: 1 }),
+        into: t.String({ minLength: 1 })
+      })
+    }
+  );
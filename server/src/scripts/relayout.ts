@@ -0,0 +1,36 @@
+/**
+ * Move every stored object to the path its asset's metadata implies
+ * Run after changing the layout or to repair objects left behind by failed moves
+ *
+ * Usage: bun run relayout [--dry-run]
+ */
+import { prisma } from '../clients/prisma';
+import { RedisClient } from '../clients/redis';
+import { RelocationController } from '../controllers/relocation.controller';
+import logger from '../logger';
+
+const dryRun = process.argv.includes('--dry-run');
+
+logger.info(dryRun ? 'Checking the bucket layout (dry run)' : 'Re-laying out the bucket');
+
+try {
+  const report = await RelocationController.relayoutAll({ dryRun });
+
+  logger.info(dryRun ? 'Relayout dry run finished' : 'Relayout finished', {
+    checked: report.checked,
+    relocated: report.relocated,
+    failed: report.failed
+  });
+
+  for (const failure of report.failures) {
+    logger.error(`Failed to relocate asset: ${failure.asset_uuid}`, { error: failure.error });
+  }
+
+  process.exitCode = report.failed > 0 ? 1 : 0;
+} finally {
+  await prisma.$disconnect();
+  await RedisClient.getInstance().close();
+}
+
+// Storage clients keep sockets alive, don't wait for them to time out
+process.exit();
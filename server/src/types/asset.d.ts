@@ -0,0 +1,129 @@
+import { Readable } from 'stream';
+
+export interface IngestSource {
+    stream: Readable;
+    // Original filename, used for the extension and imported_filename
+    filename: string;
+    // Path the file had on the client or inside an archive, defaults to filename
+    importedPath?: string;
+    contentType: string;
+  }
+
+  export interface AssetMetaInput {
+    asset_type: string;
+    asset_class: string;
+    asset_location_name: string;
+    asset_camera: string;
+    asset_date_label: string;
+    // Optional WGS84 position, latitude and longitude come together
+    latitude?: number;
+    longitude?: number;
+    altitude?: number;
+    // Fields defined by the metadata schema of asset_type
+    custom?: Record<string, unknown>;
+  }
+
+  // Base metadata as recorded in asset_meta_history
+  export interface MetaSnapshot {
+    asset_type: string;
+    asset_class: string;
+    asset_location_name: string;
+    asset_camera: string;
+    asset_date_label: string;
+    latitude: number | null;
+    longitude: number | null;
+    altitude: number | null;
+    custom: Record<string, unknown> | null;
+  }
+
+  // extract: filled in from the file by a post-ingest job
+  export type MetaHistoryAction = 'create' | 'update' | 'revert' | 'extract';
+
+  // Fields of a partial metadata update, null clears an optional field
+  export interface AssetMetaPatch {
+    asset_type?: string;
+    asset_class?: string;
+    asset_location_name?: string;
+    asset_camera?: string;
+    asset_date_label?: string;
+    latitude?: number | null;
+    longitude?: number | null;
+    altitude?: number | null;
+    // Merged into the stored values, a null value removes the field
+    custom?: Record<string, unknown>;
+  }
+
+  export interface AssetListFilters {
+    asset_type?: string;
+    asset_class?: string;
+    asset_location_name?: string;
+    asset_camera?: string;
+    asset_date_label?: string;
+    extension?: string;
+    size_min?: number;
+    size_max?: number;
+    uploaded_after?: string;
+    uploaded_before?: string;
+    // Only return assets that have no meta_base yet
+    unclassified?: boolean;
+    // List the trash instead of live assets
+    trashed?: boolean;
+    // Within radius meters of lat / lon
+    lat?: number;
+    lon?: number;
+    radius?: number;
+    // "minLon,minLat,maxLon,maxLat"
+    bbox?: string;
+    // GeoJSON Polygon or MultiPolygon
+    polygon?: string;
+    // JSON object of custom field values or comparisons
+    custom?: string;
+    // Only return assets in this collection
+    collection?: string;
+    // Comma separated tags
+    tags?: string;
+    // all: the asset has every tag, any: at least one of them
+    tag_mode?: 'all' | 'any';
+    // UUID of the last asset of the previous page
+    cursor?: string;
+    limit?: number;
+  }
+
+  export interface AssetListResult<T> {
+    items: T[];
+    total: number;
+    next_cursor: string | null;
+  }
+
+  export interface BulkIngestItemResult {
+    // Path of the file inside the archive or upload
+    path: string;
+    success: boolean;
+    asset_uuid?: string;
+    error?: string;
+    status?: number;
+  }
+
+  export interface BulkIngestReport {
+    total: number;
+    succeeded: number;
+    failed: number;
+    items: BulkIngestItemResult[];
+    // Manifest rows that matched no uploaded file
+    unmatched_manifest_entries: string[];
+  }
+
+  // Response of GET /assets/:uuid/content, without a body for 304 and 416
+  export interface AssetContent {
+    status: 200 | 206 | 304 | 416;
+    headers: Record<string, string>;
+    body?: NodeJS.ReadableStream;
+  }
+
+  // Conditional and range headers of a content request, as sent
+  export interface AssetContentRequest {
+    range?: string | null;
+    if_none_match?: string | null;
+    if_range?: string | null;
+    disposition?: 'inline' | 'attachment';
+  }
@@ -0,0 +1,19 @@
+export interface CollectionInput {
+    name: string;
+    description?: string;
+  }
+
+  // Fields of a collection update, null clears an optional field
+  export interface CollectionPatch {
+    name?: string;
+    description?: string | null;
+    // Must be an asset of the collection
+    cover_asset_uuid?: string | null;
+  }
+
+  export interface CollectionItemsResult {
+    // Assets added to or removed from the collection
+    changed: string[];
+    // Assets that were already in, or not in, the collection
+    unchanged: string[];
+  }
@@ -1,3 +1,5 @@
+import { StorageProviderName } from './storage';
+
 export interface RedisConfig {
     url: string;
   }
@@ -11,7 +13,109 @@ export interface RedisConfig {
     bucket: string;
   }
   
+  // reject: refuse duplicates with a 409, link: point the new asset at the
+  // existing object, always: store every upload
+  export type DedupePolicy = 'reject' | 'link' | 'always';
+  
+  export interface AssetsConfig {
+    // How long a trashed asset can be restored before it is purged
+    trashRetentionDays: number;
+    // Largest file accepted by ingest, in bytes
+    maxUploadSize: number;
+    // Largest request accepted by bulk ingest, in bytes
+    maxBulkUploadSize: number;
+    // What ingest does with content that is already stored, unless the request picks a policy
+    dedupePolicy: DedupePolicy;
+  }
+  
+  export interface UploadsConfig {
+    // Idle lifetime of a resumable upload session in seconds
+    sessionTtl: number;
+    // Chunk size used when the client doesn't pick one, in bytes
+    defaultChunkSize: number;
+    // Where bulk uploads are spooled to disk before they are ingested
+    tempDir: string;
+  }
+  
+  export interface JobsConfig {
+    // Jobs processed in parallel by this process, 0 only enqueues
+    concurrency: number;
+    // Attempts before a job is moved to the dead-letter list
+    maxAttempts: number;
+    // Delay before the first retry in milliseconds, doubled on every attempt
+    backoffMs: number;
+    // Seconds an active job may go without a lease renewal from its worker before it counts as failed
+    stallTimeout: number;
+    // Seconds a completed or dead job, and the job list of its asset, stay queryable
+    retention: number;
+  }
+  
+  export interface StorageConfig {
+    // Where objects are kept, minio unless set
+    provider: StorageProviderName;
+    // Directory of the local provider
+    localRoot: string;
+    // Base URL of this server, presigned URLs of the local and memory
+    // providers point at its /storage route
+    publicUrl: string;
+    // Templates are made of literal text and {token[:length][|filter...]} placeholders,
+    // see core/path_utils.ts for the tokens and filters
+    // Directory of an asset with complete base metadata
+    pathTemplate: string;
+    // Filename inside that directory
+    filenameTemplate: string;
+    // Directory of assets without base metadata, they are stored as {uuid}{ext}
+    unclassifiedPath: string;
+  }
+  
+  export interface ExportsConfig {
+    // Most assets one export may contain
+    maxAssets: number;
+    // Exports up to both limits are streamed in the response
+    syncMaxAssets: number;
+    syncMaxBytes: number;
+    // Seconds a finished background export is kept, its links expire with it,
+    // at most 7 days as presigned URLs can't outlive that
+    retention: number;
+  }
+  
+  export interface VocabulariesConfig {
+    // Reject location, camera and class values that match no entry, instead of
+    // keeping them as typed. Vocabularies without entries accept anything
+    strict: boolean;
+  }
+  
+  export interface MediaConfig {
+    // ffprobe / ffmpeg binaries, looked up on the PATH unless absolute
+    ffprobePath: string;
+    ffmpegPath: string;
+    // Seconds a single ffprobe / ffmpeg run may take before it is killed
+    timeout: number;
+  }
+  
+  export interface AuthConfig {
+    jwtSecret: string;
+    // Lifetime of a login session in seconds
+    sessionTtl: number;
+    // Lifetime of a script API token in seconds
+    apiTokenTtl: number;
+    // Longest lifetime a user may ask for when creating an API token
+    maxApiTokenTtl: number;
+    cookieName: string;
+    // Optional admin account created on startup when it doesn't exist
+    adminEmail?: string;
+    adminPassword?: string;
+  }
+  
   export interface Config {
     redis: RedisConfig;
     minio: MinioConfig;
+    assets: AssetsConfig;
+    uploads: UploadsConfig;
+    jobs: JobsConfig;
+    storage: StorageConfig;
+    exports: ExportsConfig;
+    vocabularies: VocabulariesConfig;
+    media: MediaConfig;
+    auth: AuthConfig;
   } 
\ No newline at end of file
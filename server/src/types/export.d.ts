@@ -0,0 +1,42 @@
+import { AssetListFilters } from './asset';
+
+// Listing filters an export takes, everything but paging and the trash
+export type AssetExportFilters = Omit<AssetListFilters, 'cursor' | 'limit' | 'trashed'>;
+
+  export interface ExportAssetsPayload {
+    filters: AssetExportFilters;
+  }
+
+  // Result of a background export, kept on its job
+  export interface ExportAssetsResult {
+    stored_path: string;
+    files: number;
+    // Assets whose stored object couldn't be read, listed in the manifest too
+    missing: string[];
+    url: string;
+    expires_at: string;
+  }
+
+  // Row of manifest.csv and entry of manifest.json
+  export interface ExportManifestRow {
+    // Path of the asset's file inside the zip, null when it couldn't be read
+    file: string | null;
+    uuid: string;
+    imported_fullpath: string;
+    imported_filename: string;
+    stored_fullpath: string;
+    stored_filename: string;
+    extension: string;
+    size: string;
+    hash: string | null;
+    uploaded_at: string;
+    asset_type: string | null;
+    asset_class: string | null;
+    asset_location_name: string | null;
+    asset_camera: string | null;
+    asset_date_label: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    altitude: number | null;
+    custom: Record<string, unknown> | null;
+  }
@@ -0,0 +1,4 @@
+// Asset sizes and bit rates are BigInt columns, src/index.ts serializes them as numbers
+interface BigInt {
+    toJSON(): number;
+}
@@ -0,0 +1,32 @@
+// queued: waiting for a worker, active: being processed, delayed: waiting
+// for a retry, completed: done, dead: out of attempts, in the dead-letter list
+export type JobStatus = 'queued' | 'active' | 'delayed' | 'completed' | 'dead';
+
+export interface Job<T = any> {
+    id: string;
+    type: string;
+    payload: T;
+    status: JobStatus;
+    attempts: number;
+    max_attempts: number;
+    // User that caused the job, if any
+    user_uuid?: string;
+    // Asset the job works on, if any
+    asset_uuid?: string;
+    result?: any;
+    last_error?: string;
+    created_at: string;
+    updated_at: string;
+    started_at?: string;
+    finished_at?: string;
+    // When a delayed job becomes due again
+    run_at?: string;
+  }
+
+  export type JobHandler<T = any> = (job: Job<T>) => Promise<any>;
+
+  export interface EnqueueOptions {
+    user_uuid?: string;
+    asset_uuid?: string;
+    max_attempts?: number;
+  }
@@ -0,0 +1,23 @@
+export type MetadataFieldType = 'string' | 'number' | 'date' | 'enum' | 'bool';
+
+export interface MetadataFieldDefinition {
+    // Key in asset_meta_base.custom, lower-case letters, digits and underscores
+    name: string;
+    type: MetadataFieldType;
+    required?: boolean;
+    // Allowed values of enum fields
+    values?: string[];
+    // Bounds of number fields, inclusive
+    min?: number;
+    max?: number;
+    description?: string;
+  }
+
+  // Validated custom values, dates are stored as ISO 8601 strings
+  export type CustomMetadata = Record<string, string | number | boolean>;
+
+  export type CustomFilterOperator = 'equals' | 'not' | 'gt' | 'gte' | 'lt' | 'lte';
+
+  // Comparison on one custom field, dates compare as ISO strings
+  // Only equals and not take booleans
+  export type CustomMetadataFilter = { field: string } & Partial<Record<CustomFilterOperator, string | number | boolean>>;
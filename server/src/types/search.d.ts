@@ -0,0 +1,34 @@
+export interface AssetSearchFilters {
+    q: string;
+    // Exact filters, usually a facet value picked from a previous search
+    asset_type?: string;
+    asset_class?: string;
+    asset_camera?: string;
+    limit?: number;
+    offset?: number;
+  }
+
+  // Where the search terms were found in one field, ranges are [start, end) offsets
+  export interface SearchHighlight {
+    field: string;
+    value: string;
+    ranges: [number, number][];
+  }
+
+  export interface SearchFacetValue {
+    value: string;
+    count: number;
+  }
+
+  // Counts over every match, not only the returned page
+  export interface SearchFacets {
+    asset_type: SearchFacetValue[];
+    asset_class: SearchFacetValue[];
+    asset_camera: SearchFacetValue[];
+  }
+
+  export interface AssetSearchResult<T> {
+    items: (T & { score: number; highlights: SearchHighlight[] })[];
+    total: number;
+    facets: SearchFacets;
+  }
@@ -0,0 +1,47 @@
+// minio: the MinIO / S3 bucket, local: a directory for development,
+// memory: a process-local map for tests
+export type StorageProviderName = 'minio' | 'local' | 'memory';
+
+export interface StorageObjectStat {
+    size: number;
+    etag: string;
+    lastModified: Date;
+    // Object metadata, content-type among it
+    metaData: Record<string, any>;
+  }
+
+  export interface StorageObjectInfo {
+    name: string;
+    size: number;
+    etag?: string;
+    lastModified: Date;
+  }
+
+  /**
+   * Object storage the stored assets, renditions and exports live in
+   * Object names are slash separated paths relative to the bucket or root.
+   * Missing objects make stat and reads fail with an error whose code is
+   * NotFound, like MinIO's.
+   */
+  export interface StorageProvider {
+    // Connect or create the bucket / directory, called once on startup
+    initialize(): Promise<void>;
+    uploadObject(
+      objectName: string,
+      data: Buffer | NodeJS.ReadableStream,
+      size: number | undefined,
+      contentType: string
+    ): Promise<any>;
+    getObject(objectName: string): Promise<NodeJS.ReadableStream>;
+    getPartialObject(objectName: string, offset: number, length: number): Promise<NodeJS.ReadableStream>;
+    statObject(objectName: string): Promise<StorageObjectStat>;
+    copyObject(sourceName: string, destinationName: string): Promise<void>;
+    deleteObject(objectName: string): Promise<void>;
+    // Time-limited URL to read an object without credentials
+    getPresignedUrl(objectName: string, expiry?: number, responseHeaders?: Record<string, string>): Promise<string>;
+    listObjects(prefix?: string): Promise<StorageObjectInfo[]>;
+    createMultipartUpload(objectName: string, contentType: string): Promise<string>;
+    uploadPart(objectName: string, uploadId: string, partNumber: number, data: Buffer): Promise<string>;
+    completeMultipartUpload(objectName: string, uploadId: string, parts: { part: number; etag: string }[]): Promise<void>;
+    abortMultipartUpload(objectName: string, uploadId: string): Promise<void>;
+  }
@@ -0,0 +1,12 @@
+export interface TagCount {
+    name: string;
+    // Live assets with the tag that the user can view
+    count: number;
+  }
+
+  export interface TagChangeResult {
+    asset_uuids: string[];
+    tags: string[];
+    // Tags actually added or removed, pairs that already matched don't count
+    changed: number;
+  }
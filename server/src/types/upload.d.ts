@@ -0,0 +1,27 @@
+import { AssetMetaInput } from './asset';
+import { DedupePolicy } from './config';
+
+export interface UploadSession {
+    id: string;
+    user_uuid: string;
+    // UUID the asset will get once the upload completes
+    asset_uuid: string;
+    filename: string;
+    content_type: string;
+    size: number;
+    chunk_size: number;
+    total_chunks: number;
+    stored_path: string;
+    // MinIO multipart upload backing this session
+    multipart_upload_id: string;
+    // Completed from EXIF data after the upload when incomplete
+    metadata?: Partial<AssetMetaInput>;
+    dedupe?: DedupePolicy;
+    created_at: string;
+  }
+
+  export interface UploadSessionStatus extends UploadSession {
+    received_chunks: number[];
+    missing_chunks: number[];
+    expires_at: string;
+  }
@@ -0,0 +1,45 @@
+// locations: asset_location_name, cameras: asset_camera, classes: asset_class
+export type VocabularyKind = 'locations' | 'cameras' | 'classes';
+
+  export type VocabularyField = 'asset_location_name' | 'asset_camera' | 'asset_class';
+
+  // Key of every name and alias mapped to the name of its entry, per vocabulary
+  export type VocabularyIndexes = Record<VocabularyKind, Map<string, string>>;
+
+  export interface VocabularyEntryInput {
+    name: string;
+    aliases?: string[];
+    description?: string;
+  }
+
+  // Fields of an entry update, aliases replace the stored ones
+  export interface VocabularyEntryPatch {
+    name?: string;
+    aliases?: string[];
+    description?: string | null;
+  }
+
+  // A value as stored on assets
+  export interface VocabularyValueCount {
+    value: string;
+    count: number;
+    // Entry the value resolves to, null when it matches none
+    entry: string | null;
+  }
+
+  export interface MergeVocabularyPayload {
+    kind: VocabularyKind;
+    // Name of the entry the values were merged into
+    into: string;
+    // Values stored on assets that are changed to it
+    values: string[];
+  }
+
+  // Result of a merge job
+  export interface VocabularyMergeReport {
+    into: string;
+    // Assets whose value was replaced
+    updated: number;
+    failed: number;
+    failures: { asset_uuid: string; error: string }[];
+  }
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { MemoryStorageClient } from '../../src/clients/memory_storage';
+
+const storage = MemoryStorageClient.getInstance();
+
+const readObject = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+/**
+ * The error code a promise rejects with
+ */
+const codeOf = (promise: Promise<unknown>) => promise.then(() => undefined, (error) => error.code);
+
+afterEach(() => {
+  storage.clear();
+});
+
+describe('MemoryStorageClient', () => {
+  test('stores objects and reports their stats', async () => {
+    await storage.uploadObject('a/b.txt', Buffer.from('hello world'), 11, 'text/plain');
+
+    const stat = await storage.statObject('a/b.txt');
+    expect(stat.size).toBe(11);
+    expect(stat.metaData['content-type']).toBe('text/plain');
+    expect(await readObject(await storage.getObject('a/b.txt'))).toBe('hello world');
+  });
+
+  test('reads byte ranges', async () => {
+    await storage.uploadObject('a/b.txt', Buffer.from('hello world'), 11, 'text/plain');
+
+    expect(await readObject(await storage.getPartialObject('a/b.txt', 6, 5))).toBe('world');
+  });
+
+  test('copies, deletes and lists by prefix', async () => {
+    await storage.uploadObject('a/2.txt', Buffer.from('two'), 3, 'text/plain');
+    await storage.uploadObject('a/1.txt', Buffer.from('one'), 3, 'text/plain');
+    await storage.copyObject('a/1.txt', 'b/1.txt');
+    await storage.deleteObject('a/2.txt');
+
+    expect((await storage.listObjects('a/')).map((object) => object.name)).toEqual(['a/1.txt']);
+    expect((await storage.listObjects()).map((object) => object.name)).toEqual(['a/1.txt', 'b/1.txt']);
+    expect(await readObject(await storage.getObject('b/1.txt'))).toBe('one');
+  });
+
+  test('fails like MinIO for missing objects', async () => {
+    expect(await codeOf(storage.getObject('missing'))).toBe('NotFound');
+    expect(await codeOf(storage.statObject('missing'))).toBe('NotFound');
+    expect(await codeOf(storage.copyObject('missing', 'copy'))).toBe('NotFound');
+    await storage.deleteObject('missing');
+  });
+
+  test('assembles multipart uploads in part order', async () => {
+    const uploadId = await storage.createMultipartUpload('big.bin', 'application/octet-stream');
+    const second = await storage.uploadPart('big.bin', uploadId, 2, Buffer.from('world'));
+    const first = await storage.uploadPart('big.bin', uploadId, 1, Buffer.from('hello '));
+
+    await storage.completeMultipartUpload('big.bin', uploadId, [
+      { part: 2, etag: second },
+      { part: 1, etag: first }
+    ]);
+
+    expect(await readObject(await storage.getObject('big.bin'))).toBe('hello world');
+    expect(await codeOf(storage.uploadPart('big.bin', uploadId, 3, Buffer.from('!')))).toBe('NoSuchUpload');
+  });
+
+  test('discards aborted uploads', async () => {
+    const uploadId = await storage.createMultipartUpload('big.bin', 'application/octet-stream');
+    await storage.uploadPart('big.bin', uploadId, 1, Buffer.from('hello'));
+    await storage.abortMultipartUpload('big.bin', uploadId);
+
+    expect(await codeOf(storage.completeMultipartUpload('big.bin', uploadId, []))).toBe('NoSuchUpload');
+    expect(await codeOf(storage.statObject('big.bin'))).toBe('NotFound');
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeAll, describe, expect, mock, spyOn, test } from 'bun:test';
+import { User } from '@prisma/client';
+import RedisMock from 'ioredis-mock';
+import { Readable } from 'stream';
+import { MemoryStorageClient } from '../../src/clients/memory_storage';
+import { RedisClient } from '../../src/clients/redis';
+import { config } from '../../src/config';
+import { ServerError } from '../../src/core/errors';
+
+// Just enough of the assets table for ingest, kept in insertion order
+const assets: any[] = [];
+const prisma = {
+  asset: {
+    findFirst: async ({ where }: any) => {
+      return assets.find((asset) => asset.hash === where.hash && asset.deleted_at === null) ?? null;
+    },
+    create: async ({ data }: any) => {
+      const { access: _access, meta_base: _meta, meta_history: _history, ...row } = data;
+      const asset = { ...row, size: BigInt(row.size), meta_base: null, deleted_at: null, uploaded_at: new Date() };
+      assets.push(asset);
+      return asset;
+    }
+  }
+};
+mock.module('../../src/clients/prisma', () => ({ prisma, default: prisma }));
+
+const { AccessController } = await import('../../src/controllers/access.controller');
+const { AssetController } = await import('../../src/controllers/asset.controller');
+
+const storage = MemoryStorageClient.getInstance();
+const user = { uuid: 'user-1', is_admin: false } as User;
+
+const source = (content: string, filename: string) => ({
+  stream: Readable.from([Buffer.from(content)]),
+  filename,
+  contentType: 'image/jpeg'
+});
+
+const storedNames = async () => (await storage.listObjects()).map((object) => object.name);
+
+beforeAll(() => {
+  config.storage.provider = 'memory';
+  // Set by the server on startup, events carry the asset size
+  BigInt.prototype.toJSON = function (this: bigint) {
+    return Number(this);
+  };
+  // Events and post-ingest jobs go to an in-memory Redis
+  Object.assign(RedisClient.getInstance(), { client: new RedisMock(), initialized: true });
+});
+
+afterEach(() => {
+  assets.length = 0;
+  storage.clear();
+});
+
+describe('ingestAsset', () => {
+  test('streams the file to storage and records its hash', async () => {
+    const asset = await AssetController.ingestAsset(source('thermal', 'a.jpg'), undefined, user);
+
+    expect(asset.stored_fullpath).toBe(`assets/unclassified/${asset.uuid}.jpg`);
+    expect(asset.size).toBe(7n);
+    expect(asset.hash).toBe(new Bun.CryptoHasher('sha256').update('thermal').digest('hex'));
+    expect(await storedNames()).toEqual([asset.stored_fullpath]);
+  });
+
+  test('links a duplicate to the stored object and drops its copy', async () => {
+    const first = await AssetController.ingestAsset(source('thermal', 'a.jpg'), undefined, user, {
+      dedupePolicy: 'link'
+    });
+    const second = await AssetController.ingestAsset(source('thermal', 'b.jpg'), undefined, user, {
+      dedupePolicy: 'link'
+    });
+
+    expect(second.uuid).not.toBe(first.uuid);
+    expect(second.stored_fullpath).toBe(first.stored_fullpath);
+    expect(second.imported_filename).toBe('b.jpg');
+    expect(await storedNames()).toEqual([first.stored_fullpath]);
+  });
+
+  test('rejects a duplicate with the existing asset when the user can see it', async () => {
+    const assertAccess = spyOn(AccessController, 'assertAccess').mockResolvedValue(undefined as any);
+
+    try {
+      const first = await AssetController.ingestAsset(source('thermal', 'a.jpg'), undefined, user, {
+        dedupePolicy: 'reject'
+      });
+      const error = await AssetController.ingestAsset(source('thermal', 'b.jpg'), undefined, user, {
+        dedupePolicy: 'reject'
+      }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.statusCode).toBe(409);
+      expect(error.details.uuid).toBe(first.uuid);
+      expect(assets).toHaveLength(1);
+      expect(await storedNames()).toEqual([first.stored_fullpath]);
+    } finally {
+      assertAccess.mockRestore();
+    }
+  });
+
+  test('hides the existing asset from users who cannot see it', async () => {
+    const assertAccess = spyOn(AccessController, 'assertAccess')
+      .mockRejectedValue(new ServerError('Forbidden', 403));
+
+    try {
+      await AssetController.ingestAsset(source('thermal', 'a.jpg'), undefined, user, { dedupePolicy: 'reject' });
+      const error = await AssetController.ingestAsset(source('thermal', 'b.jpg'), undefined, user, {
+        dedupePolicy: 'reject'
+      }).catch((error) => error);
+
+      expect(error.statusCode).toBe(409);
+      expect(error.details).toBeUndefined();
+    } finally {
+      assertAccess.mockRestore();
+    }
+  });
+
+  test('stores every upload when duplicates are allowed', async () => {
+    const first = await AssetController.ingestAsset(source('thermal', 'a.jpg'), undefined, user, {
+      dedupePolicy: 'always'
+    });
+    const second = await AssetController.ingestAsset(source('thermal', 'b.jpg'), undefined, user, {
+      dedupePolicy: 'always'
+    });
+
+    expect(second.stored_fullpath).not.toBe(first.stored_fullpath);
+    expect(await storedNames()).toHaveLength(2);
+  });
+
+  test('keeps the asset and its object when the event cannot be sent', async () => {
+    const publish = spyOn(RedisClient.getInstance(), 'publish').mockRejectedValue(new Error('connection lost'));
+
+    try {
+      const asset = await AssetController.ingestAsset(source('thermal', 'a.jpg'), undefined, user);
+
+      expect(assets.map((row) => row.uuid)).toEqual([asset.uuid]);
+      expect(await storedNames()).toEqual([asset.stored_fullpath]);
+    } finally {
+      publish.mockRestore();
+    }
+  });
+
+  test('only links identical content', async () => {
+    const first = await AssetController.ingestAsset(source('thermal', 'a.jpg'), undefined, user, {
+      dedupePolicy: 'link'
+    });
+    const second = await AssetController.ingestAsset(source('visible', 'a.jpg'), undefined, user, {
+      dedupePolicy: 'link'
+    });
+
+    expect(second.stored_fullpath).not.toBe(first.stored_fullpath);
+    expect(await storedNames()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { MemoryStorageClient } from '../../src/clients/memory_storage';
+import { config } from '../../src/config';
+import { StorageController } from '../../src/controllers/storage.controller';
+import { ServerError } from '../../src/core/errors';
+
+const storage = MemoryStorageClient.getInstance();
+
+const readObject = async (stream?: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream! as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+/**
+ * Open the object a presigned URL points at, as the /storage route does
+ */
+const openUrl = async (url: string, range?: string) => {
+  const { pathname, searchParams } = new URL(url);
+  const objectName = decodeURIComponent(pathname.replace(/^\/storage\//, ''));
+
+  return StorageController.openSignedObject(objectName, Object.fromEntries(searchParams), range);
+};
+
+/**
+ * The status of the ServerError a promise rejects with
+ */
+const statusOf = (promise: Promise<unknown>) => promise.then(
+  () => undefined,
+  (error) => error instanceof ServerError ? error.statusCode : undefined
+);
+
+beforeAll(() => {
+  config.storage.provider = 'memory';
+});
+
+afterEach(() => {
+  storage.clear();
+});
+
+describe('openSignedObject', () => {
+  test('serves the object a presigned URL points at', async () => {
+    await storage.uploadObject('assets/a b.txt', Buffer.from('hello world'), 11, 'text/plain');
+
+    const content = await openUrl(await storage.getPresignedUrl('assets/a b.txt', 60, {
+      'response-content-disposition': 'attachment; filename="a b.txt"'
+    }));
+
+    expect(content.status).toBe(200);
+    expect(content.headers['content-type']).toBe('text/plain');
+    expect(content.headers['content-length']).toBe('11');
+    expect(content.headers['content-disposition']).toBe('attachment; filename="a b.txt"');
+    expect(await readObject(content.body)).toBe('hello world');
+  });
+
+  test('serves byte ranges', async () => {
+    await storage.uploadObject('a.txt', Buffer.from('hello world'), 11, 'text/plain');
+    const url = await storage.getPresignedUrl('a.txt', 60);
+
+    const partial = await openUrl(url, 'bytes=-5');
+    expect(partial.status).toBe(206);
+    expect(partial.headers['content-range']).toBe('bytes 6-10/11');
+    expect(await readObject(partial.body)).toBe('world');
+
+    const unsatisfiable = await openUrl(url, 'bytes=11-');
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers['content-range']).toBe('bytes */11');
+  });
+
+  test('refuses tampered and expired URLs', async () => {
+    await storage.uploadObject('a.txt', Buffer.from('hello'), 5, 'text/plain');
+
+    const url = await storage.getPresignedUrl('a.txt', 60);
+    expect(await statusOf(openUrl(url.replace('/storage/a.txt', '/storage/b.txt')))).toBe(403);
+    expect(await statusOf(openUrl(`${url}&response-content-type=text%2Fhtml`))).toBe(403);
+    expect(await statusOf(openUrl(await storage.getPresignedUrl('a.txt', -1)))).toBe(403);
+  });
+
+  test('answers 404 for a signed URL of a missing object', async () => {
+    expect(await statusOf(openUrl(await storage.getPresignedUrl('missing.txt', 60)))).toBe(404);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { parseCustomFilter } from '../../src/core/custom_metadata';
+import { ServerError } from '../../src/core/errors';
+
+/**
+ * The status of the ServerError thrown by fn
+ */
+const statusOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof ServerError ? error.statusCode : undefined;
+  }
+  return undefined;
+};
+
+describe('parseCustomFilter', () => {
+  test('matches a plain value exactly', () => {
+    expect(parseCustomFilter('{"sensor": "FLIR", "calibrated": true}')).toEqual([
+      { field: 'sensor', equals: 'FLIR' },
+      { field: 'calibrated', equals: true }
+    ]);
+  });
+
+  test('takes comparison operators', () => {
+    expect(parseCustomFilter('{"emissivity": {"gte": 0.9, "lt": 1}, "sensor": {"not": "FLIR"}}')).toEqual([
+      { field: 'emissivity', gte: 0.9, lt: 1 },
+      { field: 'sensor', not: 'FLIR' }
+    ]);
+  });
+
+  test('rejects unknown operators and operands they cannot compare', () => {
+    expect(statusOf(() => parseCustomFilter('{"sensor": {"like": "FL%"}}'))).toBe(400);
+    expect(statusOf(() => parseCustomFilter('{"calibrated": {"gt": true}}'))).toBe(400);
+    expect(statusOf(() => parseCustomFilter('{"sensor": ["FLIR"]}'))).toBe(400);
+    expect(statusOf(() => parseCustomFilter('{"sensor": null}'))).toBe(400);
+  });
+
+  test('rejects invalid field names', () => {
+    expect(statusOf(() => parseCustomFilter('{"Sensor": "FLIR"}'))).toBe(400);
+    expect(statusOf(() => parseCustomFilter('{"a\\"; DROP": 1}'))).toBe(400);
+  });
+
+  test('rejects anything but a JSON object', () => {
+    expect(statusOf(() => parseCustomFilter('sensor=FLIR'))).toBe(400);
+    expect(statusOf(() => parseCustomFilter('["sensor"]'))).toBe(400);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { contentDisposition, matchesETag, parseRange } from '../../src/core/http_utils';
+
+describe('parseRange', () => {
+  test('parses a closed range', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+  });
+
+  test('runs an open range to the end', () => {
+    expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  test('takes a suffix range from the end', () => {
+    expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  test('clamps the end to the content', () => {
+    expect(parseRange('bytes=500-5000', 1000)).toEqual({ start: 500, end: 999 });
+  });
+
+  test('is unsatisfiable past the end or for nothing', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-10', 0)).toBe('unsatisfiable');
+  });
+
+  test('ignores what it does not serve', () => {
+    expect(parseRange(undefined, 1000)).toBeUndefined();
+    expect(parseRange('bytes=-', 1000)).toBeUndefined();
+    expect(parseRange('bytes=99-0', 1000)).toBeUndefined();
+    expect(parseRange('bytes=0-9,20-29', 1000)).toBeUndefined();
+    expect(parseRange('items=0-9', 1000)).toBeUndefined();
+  });
+});
+
+describe('matchesETag', () => {
+  test('matches the same tag, weak or not', () => {
+    expect(matchesETag('"abc"', '"abc"')).toBe(true);
+    expect(matchesETag('W/"abc"', '"abc"')).toBe(true);
+  });
+
+  test('matches any tag of a list and the wildcard', () => {
+    expect(matchesETag('"x", "abc"', '"abc"')).toBe(true);
+    expect(matchesETag('*', '"abc"')).toBe(true);
+  });
+
+  test('does not match other or missing tags', () => {
+    expect(matchesETag('"x"', '"abc"')).toBe(false);
+    expect(matchesETag(undefined, '"abc"')).toBe(false);
+  });
+});
+
+describe('contentDisposition', () => {
+  test('keeps the exact name next to an ASCII fallback', () => {
+    expect(contentDisposition('Überblick "1".jpg', 'attachment'))
+      .toBe(`attachment; filename="Uberblick _1_.jpg"; filename*=UTF-8''%C3%9Cberblick%20%221%22.jpg`);
+  });
+});
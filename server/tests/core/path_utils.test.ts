@@ -0,0 +1,115 @@
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import RedisMock from 'ioredis-mock';
+import { MemoryStorageClient } from '../../src/clients/memory_storage';
+import { RedisClient } from '../../src/clients/redis';
+import { config } from '../../src/config';
+import { PathUtils } from '../../src/core/path_utils';
+
+const META = {
+  asset_type: 'THM',
+  asset_class: 'bridge',
+  asset_location_name: 'North_Bridge',
+  asset_camera: 'FLIR T-640',
+  asset_date_label: '2024-05-01'
+};
+
+const DIRECTORY = 'assets/THM/bridge/north_bridge/flir_t-640/20240501';
+
+// The index counters live in Redis, an in-memory one stands in for it
+const redis = new RedisMock();
+Object.assign(RedisClient.getInstance(), { client: redis, initialized: true });
+
+const storage = MemoryStorageClient.getInstance();
+
+beforeAll(() => {
+  config.storage.provider = 'memory';
+});
+
+beforeEach(async () => {
+  await redis.flushall();
+  storage.clear();
+});
+
+describe('generateStoredPath', () => {
+  test('names classified assets from the templates', async () => {
+    const path = await PathUtils.generateStoredPath({ uuid: 'a1', extension: '.JPG', meta: META });
+
+    expect(path).toBe(`${DIRECTORY}/THM_bridge_northbridge_flirt640_2024-05-01_0001_a1.JPG`);
+  });
+
+  test('numbers assets per directory', async () => {
+    const first = await PathUtils.generateStoredPath({ uuid: 'a1', extension: '.jpg', meta: META });
+    const second = await PathUtils.generateStoredPath({ uuid: 'a2', extension: '.jpg', meta: META });
+    const elsewhere = await PathUtils.generateStoredPath({
+      uuid: 'a3',
+      extension: '.jpg',
+      meta: { ...META, asset_class: 'tower' }
+    });
+
+    expect(first.endsWith('_0001_a1.jpg')).toBe(true);
+    expect(second.endsWith('_0002_a2.jpg')).toBe(true);
+    expect(elsewhere).toStartWith('assets/THM/tower/');
+    expect(elsewhere.endsWith('_0001_a3.jpg')).toBe(true);
+  });
+
+  test('skips numbers whose object exists when the counter was lost', async () => {
+    const first = await PathUtils.generateStoredPath({ uuid: 'a1', extension: '.jpg', meta: META });
+    await storage.uploadObject(first, Buffer.from('first'), 5, 'image/jpeg');
+    await redis.flushall();
+
+    const next = await PathUtils.generateStoredPath({ uuid: 'a1', extension: '.jpg', meta: META });
+
+    expect(next).toBe(first.replace('_0001_', '_0002_'));
+  });
+
+  test('keeps values from climbing out of their folder', async () => {
+    const path = await PathUtils.generateStoredPath({
+      uuid: 'a1',
+      extension: '.jpg',
+      meta: { ...META, asset_class: '../..', asset_location_name: 'a/../../b' }
+    });
+
+    expect(path).not.toContain('..');
+    expect(path.split('/')).toHaveLength(DIRECTORY.split('/').length + 1);
+  });
+
+  test('falls back for empty values', async () => {
+    const path = await PathUtils.generateStoredPath({
+      uuid: 'a1',
+      extension: '',
+      meta: { ...META, asset_camera: '***', asset_date_label: '' }
+    });
+
+    expect(path).toBe('assets/THM/bridge/north_bridge/unknown/undated/THM_bridge_northbridge_unknown_undated_0001_a1');
+  });
+
+  test('stores assets without metadata unclassified', async () => {
+    const path = await PathUtils.generateStoredPath({ uuid: 'a1', extension: '.tiff', meta: null });
+
+    expect(path).toBe('assets/unclassified/a1.tiff');
+  });
+});
+
+describe('matchesStoredPath', () => {
+  test('accepts the generated path whatever its index', async () => {
+    const path = await PathUtils.generateStoredPath({ uuid: 'a1', extension: '.jpg', meta: META });
+
+    expect(PathUtils.matchesStoredPath(path, { uuid: 'a1', extension: '.jpg', meta: META })).toBe(true);
+    expect(PathUtils.matchesStoredPath(path.replace('_0001', '_0042'), { uuid: 'a1', extension: '.jpg', meta: META }))
+      .toBe(true);
+  });
+
+  test('accepts legacy {uuid}{ext} names in the right directory', () => {
+    const context = { uuid: 'a1', extension: '.jpg', meta: META };
+
+    expect(PathUtils.matchesStoredPath(`${DIRECTORY}/a1.jpg`, context)).toBe(true);
+    expect(PathUtils.matchesStoredPath('assets/THM/tower/north_bridge/flir_t-640/20240501/a1.jpg', context)).toBe(false);
+  });
+
+  test('rejects paths of other metadata', () => {
+    expect(PathUtils.matchesStoredPath('assets/unclassified/a1.jpg', { uuid: 'a1', extension: '.jpg', meta: META }))
+      .toBe(false);
+    expect(PathUtils.matchesStoredPath('assets/unclassified/a1.jpg', { uuid: 'a1', extension: '.jpg', meta: null }))
+      .toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { ServerError } from '../../src/core/errors';
+import { highlightField, MAX_SEARCH_TERMS, parseSearchTerms, termSimilarity } from '../../src/core/search';
+
+describe('parseSearchTerms', () => {
+  test('splits the query into distinct lower-case words', () => {
+    expect(parseSearchTerms('North_Bridge  north, Brücke-2')).toEqual(['north', 'bridge', 'brücke', '2']);
+  });
+
+  test('rejects queries without words', () => {
+    expect(() => parseSearchTerms(' -_- ')).toThrow(ServerError);
+  });
+
+  test('rejects too many words', () => {
+    const words = Array.from({ length: MAX_SEARCH_TERMS + 1 }, (_, i) => `w${i}`);
+    expect(() => parseSearchTerms(words.join(' '))).toThrow(ServerError);
+    expect(parseSearchTerms(words.slice(1).join(' '))).toHaveLength(MAX_SEARCH_TERMS);
+  });
+});
+
+describe('highlightField', () => {
+  test('marks words starting with a term', () => {
+    expect(highlightField('imported_filename', 'North Bridge.jpg', ['bri'])).toEqual({
+      field: 'imported_filename',
+      value: 'North Bridge.jpg',
+      ranges: [[6, 12]]
+    });
+  });
+
+  test('marks fuzzy matches', () => {
+    expect(termSimilarity('nrth', 'north')).toBeGreaterThanOrEqual(0.5);
+    expect(highlightField('asset_location_name', 'north_bridge', ['nrth'])?.ranges).toEqual([[0, 5]]);
+  });
+
+  test('returns nothing without a match or a value', () => {
+    expect(highlightField('asset_camera', 'DJI Mavic', ['flir'])).toBeUndefined();
+    expect(highlightField('asset_camera', null, ['flir'])).toBeUndefined();
+  });
+});
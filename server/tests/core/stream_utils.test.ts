@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { MemoryStorageClient } from '../../src/clients/memory_storage';
+import { uploadStream } from '../../src/core/stream_utils';
+import { StorageProvider } from '../../src/types/storage';
+
+const PART_SIZE = 64 * 1024;
+const CHUNK_SIZE = 4 * 1024;
+
+/**
+ * A stream of random bytes that counts how much has been read from it,
+ * failing once failAfter bytes were read when given
+ */
+const countingSource = (size: number, failAfter?: number) => {
+  const data = crypto.randomBytes(size);
+  let read = 0;
+
+  const stream = new Readable({
+    highWaterMark: CHUNK_SIZE,
+    read() {
+      if (failAfter !== undefined && read >= failAfter) {
+        this.destroy(new Error('connection reset'));
+        return;
+      }
+      const chunk = data.subarray(read, read + CHUNK_SIZE);
+      read += chunk.length;
+      this.push(chunk.length > 0 ? chunk : null);
+    }
+  });
+
+  return { data, stream, bytesRead: () => read };
+};
+
+/**
+ * The memory storage, recording what every upload call was handed
+ */
+const recordingStorage = (storage: MemoryStorageClient, bytesRead: () => number) => {
+  const calls = {
+    objects: [] as { streamed: boolean; size: number }[],
+    parts: [] as { size: number; readSoFar: number }[],
+    aborted: [] as string[]
+  };
+
+  const provider: StorageProvider = Object.assign(Object.create(storage), {
+    uploadObject: (objectName: string, data: Buffer | NodeJS.ReadableStream, size: number | undefined, contentType: string) => {
+      calls.objects.push({ streamed: !Buffer.isBuffer(data), size: Buffer.isBuffer(data) ? data.length : -1 });
+      return storage.uploadObject(objectName, data, size, contentType);
+    },
+    uploadPart: (objectName: string, uploadId: string, partNumber: number, data: Buffer) => {
+      calls.parts.push({ size: data.length, readSoFar: bytesRead() });
+      return storage.uploadPart(objectName, uploadId, partNumber, data);
+    },
+    abortMultipartUpload: (objectName: string, uploadId: string) => {
+      calls.aborted.push(objectName);
+      return storage.abortMultipartUpload(objectName, uploadId);
+    }
+  });
+
+  return { provider, calls };
+};
+
+const readObject = async (storage: StorageProvider, objectName: string) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await storage.getObject(objectName)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+describe('uploadStream', () => {
+  const storage = MemoryStorageClient.getInstance();
+
+  afterEach(() => {
+    storage.clear();
+  });
+
+  test('sends large streams in parts without buffering them', async () => {
+    const source = countingSource(PART_SIZE * 3 + 123);
+    const { provider, calls } = recordingStorage(storage, source.bytesRead);
+
+    await uploadStream(provider, 'big.bin', source.stream, 'application/octet-stream', PART_SIZE);
+
+    expect(calls.parts.map((part) => part.size)).toEqual([PART_SIZE, PART_SIZE, PART_SIZE, 123]);
+    // Each part goes out before much more of the source is read
+    calls.parts.forEach((part, index) => {
+      expect(part.readSoFar).toBeLessThanOrEqual((index + 1) * PART_SIZE + 4 * CHUNK_SIZE);
+    });
+    // The multipart completion stores the object, the stream is never handed over whole
+    expect(calls.objects.every((object) => !object.streamed)).toBe(true);
+    expect((await readObject(storage, 'big.bin')).equals(source.data)).toBe(true);
+  });
+
+  test('sends streams shorter than a part with a single upload', async () => {
+    const source = countingSource(1000);
+    const { provider, calls } = recordingStorage(storage, source.bytesRead);
+
+    await uploadStream(provider, 'small.bin', source.stream, 'application/octet-stream', PART_SIZE);
+
+    expect(calls.parts).toHaveLength(0);
+    expect(calls.objects).toEqual([{ streamed: false, size: 1000 }]);
+    expect((await readObject(storage, 'small.bin')).equals(source.data)).toBe(true);
+  });
+
+  test('aborts the multipart upload when the source fails', async () => {
+    const source = countingSource(PART_SIZE * 2, PART_SIZE + CHUNK_SIZE);
+    const { provider, calls } = recordingStorage(storage, source.bytesRead);
+
+    await expect(
+      uploadStream(provider, 'broken.bin', source.stream, 'application/octet-stream', PART_SIZE)
+    ).rejects.toThrow('connection reset');
+
+    expect(calls.parts).toHaveLength(1);
+    expect(calls.aborted).toEqual(['broken.bin']);
+    await expect(storage.statObject('broken.bin')).rejects.toMatchObject({ code: 'NotFound' });
+  });
+});